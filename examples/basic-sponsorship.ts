@@ -50,6 +50,9 @@ const sponsor = new GasSponsor({
   signer: sponsorKeypair,
   targetPoolSize: 3, // Split into 3 gas coins
   targetCoinBalance: 500_000_000n, // 0.5 SUI each
+  // This demo uses splitCoins(tx.gas), which the sponsor must opt in to.
+  // Most production transactions (MoveCall, etc.) don't need this.
+  policy: { allowGasCoinUsage: true },
 });
 
 await sponsor.initialize();
@@ -71,9 +74,6 @@ const result = await sponsor.sponsorTransaction({
   sender: senderKeypair.toSuiAddress(),
   transactionKindBytes: kindBytes,
   gasBudget: 10_000_000n, // 0.01 SUI
-  // This demo uses splitCoins(tx.gas) which requires opting in per-request.
-  // Most production transactions (MoveCall, etc.) don't need this.
-  policy: { allowGasCoinUsage: true },
 });
 
 console.log(
@@ -115,21 +115,21 @@ try {
   }
 }
 
-// ─── Example 3: Per-request policy override ─────────────────────────
+// ─── Example 3: Per-request policy ──────────────────────────────────
 
-console.log("\n--- Example 3: Per-request policy override ---");
+console.log("\n--- Example 3: Per-request policy ---");
 try {
   await sponsor.sponsorTransaction({
     sender: senderKeypair.toSuiAddress(),
     transactionKindBytes: kindBytes,
     gasBudget: 10_000_000n,
-    // Override default policy with a very restrictive one
+    // Checked on top of the default policy — can only tighten it
     policy: { maxBudgetPerTx: 1n },
   });
   console.log("  This should not print!");
 } catch (err) {
   if (err instanceof GasStationError) {
-    console.log(`  Rejected by override! Code: ${err.code}`);
+    console.log(`  Rejected by request policy! Code: ${err.code}`);
   }
 }
 
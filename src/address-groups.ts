@@ -0,0 +1,199 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Named sender groups for SponsorPolicy.allowedAddressGroups.
+ *
+ * A group answers "is this address a member?" from a static list, a file
+ * that is re-read periodically, or an async lookup (database, API) with
+ * cached answers. Addresses are normalized on both sides, so 0x2 and its
+ * full-length form are the same member.
+ */
+import { readFile } from "node:fs/promises";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+const DEFAULT_REFRESH_MS = 60_000;
+const DEFAULT_RETRY_MS = 5_000;
+const DEFAULT_CACHE_TTL_MS = 60_000;
+const DEFAULT_MAX_CACHE_ENTRIES = 10_000;
+
+// ─── Group Interface ────────────────────────────────────────────────
+
+export interface AddressGroup {
+  /** Group name, reported in policy violations */
+  readonly name: string;
+  /** Whether `address` (normalized) belongs to the group */
+  has(address: string): Promise<boolean>;
+}
+
+// ─── Static List ────────────────────────────────────────────────────
+
+/** A fixed list of addresses. */
+export class StaticAddressGroup implements AddressGroup {
+  private readonly members: Set<string>;
+
+  constructor(
+    readonly name: string,
+    addresses: string[],
+  ) {
+    this.members = new Set(addresses.map((a) => normalizeSuiAddress(a)));
+  }
+
+  async has(address: string): Promise<boolean> {
+    return this.members.has(normalizeSuiAddress(address));
+  }
+}
+
+// ─── File ───────────────────────────────────────────────────────────
+
+/**
+ * Addresses read from a file: either a JSON array of strings, or one
+ * address per line (blank lines and `#` comments ignored).
+ *
+ * The file is re-read at most every `refreshMs` (default 60s). If a read
+ * fails, the next one waits `retryMs` (default 5s); meanwhile the previously
+ * loaded list stays in use, or the failure is rethrown if there is none.
+ */
+export class FileAddressGroup implements AddressGroup {
+  private members: Set<string> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Set<string>> | null = null;
+  private failure: { error: unknown; retryAt: number } | null = null;
+  private readonly refreshMs: number;
+  private readonly retryMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    readonly name: string,
+    private readonly path: string,
+    options: { refreshMs?: number; retryMs?: number; now?: () => number } = {},
+  ) {
+    this.refreshMs = options.refreshMs ?? DEFAULT_REFRESH_MS;
+    this.retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  async has(address: string): Promise<boolean> {
+    const members = await this.load();
+    return members.has(normalizeSuiAddress(address));
+  }
+
+  private async load(): Promise<Set<string>> {
+    if (this.members && this.now() - this.loadedAt < this.refreshMs) {
+      return this.members;
+    }
+    // Back off after a failed read instead of retrying on every request
+    if (this.failure && this.now() < this.failure.retryAt) {
+      if (this.members) return this.members;
+      throw this.failure.error;
+    }
+    // Coalesce concurrent reloads into one read
+    this.loading ??= this.read()
+      .catch((error: unknown) => {
+        this.failure = { error, retryAt: this.now() + this.retryMs };
+        throw error;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    try {
+      return await this.loading;
+    } catch (err) {
+      if (this.members) return this.members;
+      throw err;
+    }
+  }
+
+  private async read(): Promise<Set<string>> {
+    const raw = await readFile(this.path, "utf8");
+    const addresses = raw.trimStart().startsWith("[")
+      ? (JSON.parse(raw) as string[])
+      : raw
+          .split("\n")
+          .map((line) => line.replace(/#.*/, "").trim())
+          .filter((line) => line.length > 0);
+    this.members = new Set(addresses.map((a) => normalizeSuiAddress(a)));
+    this.loadedAt = this.now();
+    this.failure = null;
+    return this.members;
+  }
+}
+
+// ─── Async Lookup ───────────────────────────────────────────────────
+
+/**
+ * Membership answered by an async function (e.g. a database query).
+ * Answers — positive and negative — are cached for `ttlMs` (default 60s),
+ * keeping at most `maxEntries` (default 10,000) addresses. Concurrent
+ * checks of one address share a single lookup; failed lookups are not
+ * cached.
+ */
+export class LookupAddressGroup implements AddressGroup {
+  private cache = new Map<string, { member: boolean; expiresAt: number }>();
+  /** Lookups in flight, by normalized address */
+  private pending = new Map<string, Promise<boolean>>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(
+    readonly name: string,
+    private readonly lookup: (address: string) => Promise<boolean>,
+    options: { ttlMs?: number; maxEntries?: number; now?: () => number } = {},
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.now = options.now ?? Date.now;
+  }
+
+  async has(address: string): Promise<boolean> {
+    const normalized = normalizeSuiAddress(address);
+    const cached = this.cache.get(normalized);
+    if (cached && cached.expiresAt > this.now()) return cached.member;
+
+    let lookup = this.pending.get(normalized);
+    if (!lookup) {
+      lookup = this.lookup(normalized);
+      this.pending.set(normalized, lookup);
+    }
+    try {
+      const member = await lookup;
+      // Unless invalidate() dropped the lookup meanwhile
+      if (this.pending.get(normalized) === lookup) {
+        this.remember(normalized, member);
+      }
+      return member;
+    } finally {
+      if (this.pending.get(normalized) === lookup) {
+        this.pending.delete(normalized);
+      }
+    }
+  }
+
+  private remember(normalized: string, member: boolean): void {
+    // Re-insert so Map order tracks recency; evict the oldest entries
+    this.cache.delete(normalized);
+    this.cache.set(normalized, {
+      member,
+      expiresAt: this.now() + this.ttlMs,
+    });
+    while (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drop cached answers, e.g. after registering a new user. Lookups still
+   * in flight are not cached when they return.
+   */
+  invalidate(address?: string): void {
+    if (address === undefined) {
+      this.cache.clear();
+      this.pending.clear();
+    } else {
+      const normalized = normalizeSuiAddress(address);
+      this.cache.delete(normalized);
+      this.pending.delete(normalized);
+    }
+  }
+}
@@ -0,0 +1,281 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Cross-replica coin leasing.
+ *
+ * When several GasSponsor replicas share one sponsor key, each replica's
+ * CoinPool tracks the same coins. Before a replica hands out a coin it must
+ * take an exclusive lease on its objectId from a shared coordinator —
+ * otherwise two replicas sign different transactions over the same gas
+ * coin version (equivocation).
+ *
+ * Releasing a lease publishes the coin's post-execution ref, so the next
+ * replica to lease the coin picks up the new version/digest/balance without
+ * an extra RPC call.
+ */
+
+// ─── Coordinator Interface ──────────────────────────────────────────
+
+/** Latest known state of a leased coin, published by its previous holder. */
+export interface CoinRef {
+  version: string;
+  digest: string;
+  balance: bigint;
+}
+
+export interface CoinLease {
+  objectId: string;
+  /** Ref published by the last holder, or null if none was ever published */
+  latest: CoinRef | null;
+}
+
+export interface CoinLeaseCoordinator {
+  /**
+   * Try to take an exclusive lease on a coin.
+   * Resolves to null when another holder has a live lease.
+   */
+  acquire(
+    objectId: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<CoinLease | null>;
+  /**
+   * Extend a lease held by `holder` to expire `ttlMs` from now.
+   * Resolves to false if the lease expired or moved on.
+   */
+  renew(objectId: string, holder: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Give up a lease held by `holder` (no-op if it expired or moved on),
+   * optionally publishing the coin's new ref for the next holder.
+   *
+   * With `ifNewer`, nothing happens unless `latest` is newer than the
+   * published ref: a replayed execution report must not free the lease of
+   * a later reservation of the same coin.
+   */
+  release(
+    objectId: string,
+    holder: string,
+    latest?: CoinRef,
+    options?: { ifNewer?: boolean },
+  ): Promise<void>;
+}
+
+// ─── In-Process ─────────────────────────────────────────────────────
+
+/**
+ * Coordinator backed by process memory. Shares leases between GasSponsor
+ * instances in the same process — a stand-in for tests and local runs.
+ */
+export class InMemoryCoinLeaseCoordinator implements CoinLeaseCoordinator {
+  private leases = new Map<string, { holder: string; expiresAt: number }>();
+  private refs = new Map<string, CoinRef>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async acquire(
+    objectId: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<CoinLease | null> {
+    const current = this.leases.get(objectId);
+    if (current && current.expiresAt > this.now()) return null;
+
+    this.leases.set(objectId, { holder, expiresAt: this.now() + ttlMs });
+    const latest = this.refs.get(objectId);
+    return { objectId, latest: latest ? { ...latest } : null };
+  }
+
+  async renew(
+    objectId: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const current = this.leases.get(objectId);
+    if (current?.holder !== holder || current.expiresAt <= this.now()) {
+      return false;
+    }
+    current.expiresAt = this.now() + ttlMs;
+    return true;
+  }
+
+  async release(
+    objectId: string,
+    holder: string,
+    latest?: CoinRef,
+    options: { ifNewer?: boolean } = {},
+  ): Promise<void> {
+    if (latest) {
+      const published = publishRef(this.refs, objectId, latest);
+      if (!published && options.ifNewer) return;
+    }
+    if (this.leases.get(objectId)?.holder === holder) {
+      this.leases.delete(objectId);
+    }
+  }
+}
+
+/**
+ * Keep only the newest ref per coin — versions only move forward.
+ * Returns whether `ref` was newer than the stored one.
+ */
+function publishRef(
+  refs: Map<string, CoinRef>,
+  objectId: string,
+  ref: CoinRef,
+): boolean {
+  const stored = refs.get(objectId);
+  if (stored && BigInt(ref.version) <= BigInt(stored.version)) return false;
+  refs.set(objectId, { ...ref });
+  return true;
+}
+
+// ─── Redis ──────────────────────────────────────────────────────────
+
+/**
+ * Minimal Redis client shape (structural type).
+ * Matches ioredis' `eval(script, numKeys, ...keysAndArgs)`. For node-redis,
+ * adapt with `{ eval: (s, n, ...a) => redis.eval(s, { keys: a.slice(0, n), arguments: a.slice(n) }) }`.
+ */
+export interface RedisLeaseClient {
+  eval(
+    script: string,
+    numKeys: number,
+    ...keysAndArgs: Array<string | number>
+  ): Promise<unknown>;
+}
+
+// KEYS: lease, ref — ARGV: holder, ttlMs
+// Returns the stored ref JSON ("" if none) on success, nil if already leased.
+const ACQUIRE_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2], 'NX') then
+  return redis.call('GET', KEYS[2]) or ''
+end
+return false`;
+
+// KEYS: lease — ARGV: holder, ttlMs
+const RENEW_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+// KEYS: lease, ref — ARGV: holder, ref JSON ("" to skip), ref version,
+// "1" to release only with a newer ref
+// Versions are u64 decimal strings, compared by length then digits: Lua
+// numbers are doubles and lose precision above 2^53.
+const RELEASE_SCRIPT = `
+local function older(a, b)
+  if #a ~= #b then return #a < #b end
+  return a < b
+end
+if ARGV[2] ~= '' then
+  local stored = redis.call('GET', KEYS[2])
+  if not stored or older(cjson.decode(stored).version, ARGV[3]) then
+    redis.call('SET', KEYS[2], ARGV[2])
+  elseif ARGV[4] == '1' then
+    return 0
+  end
+end
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Coordinator backed by Redis (or any server speaking its scripting API,
+ * e.g. Valkey, KeyDB, Dragonfly). Leases are `SET NX PX` keys; acquire,
+ * renew and release are single Lua scripts so they are atomic across
+ * replicas.
+ */
+export class RedisCoinLeaseCoordinator implements CoinLeaseCoordinator {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly redis: RedisLeaseClient,
+    options: { keyPrefix?: string } = {},
+  ) {
+    this.keyPrefix = options.keyPrefix ?? "sui-gas-station:";
+  }
+
+  async acquire(
+    objectId: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<CoinLease | null> {
+    const reply = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      2,
+      this.leaseKey(objectId),
+      this.refKey(objectId),
+      holder,
+      ttlMs,
+    );
+    if (reply === null || reply === undefined) return null;
+
+    if (typeof reply !== "string" || reply === "") {
+      return { objectId, latest: null };
+    }
+    const parsed = JSON.parse(reply) as {
+      version: string;
+      digest: string;
+      balance: string;
+    };
+    return {
+      objectId,
+      latest: {
+        version: parsed.version,
+        digest: parsed.digest,
+        balance: BigInt(parsed.balance),
+      },
+    };
+  }
+
+  async renew(
+    objectId: string,
+    holder: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const reply = await this.redis.eval(
+      RENEW_SCRIPT,
+      1,
+      this.leaseKey(objectId),
+      holder,
+      ttlMs,
+    );
+    return reply === 1;
+  }
+
+  async release(
+    objectId: string,
+    holder: string,
+    latest?: CoinRef,
+    options: { ifNewer?: boolean } = {},
+  ): Promise<void> {
+    const refJson = latest
+      ? JSON.stringify({
+          version: latest.version,
+          digest: latest.digest,
+          balance: latest.balance.toString(),
+        })
+      : "";
+    await this.redis.eval(
+      RELEASE_SCRIPT,
+      2,
+      this.leaseKey(objectId),
+      this.refKey(objectId),
+      holder,
+      refJson,
+      latest?.version ?? "0",
+      options.ifNewer ? "1" : "0",
+    );
+  }
+
+  private leaseKey(objectId: string): string {
+    return `${this.keyPrefix}lease:${objectId}`;
+  }
+
+  private refKey(objectId: string): string {
+    return `${this.keyPrefix}ref:${objectId}`;
+  }
+}
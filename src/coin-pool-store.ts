@@ -0,0 +1,284 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Persistence backends for CoinPool state.
+ *
+ * The pool keeps its working set in memory for fast reservation; a store
+ * receives a full snapshot after every mutation so reservations, coin refs
+ * and balances survive a process restart. On boot, CoinPool.initialize()
+ * loads the snapshot and reconciles it against the chain instead of
+ * re-fetching and re-splitting from scratch.
+ */
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { CoinEntry, SponsorshipContext } from "./types.js";
+
+// ─── Store Interface ────────────────────────────────────────────────
+
+export interface CoinPoolStore {
+  /** Load the last saved snapshot. Resolves to `[]` when nothing was saved. */
+  load(): Promise<CoinEntry[]>;
+  /** Replace the saved snapshot with `entries`. */
+  save(entries: CoinEntry[]): Promise<void>;
+}
+
+// ─── Serialization ──────────────────────────────────────────────────
+
+/** JSON-safe form of a CoinEntry (bigint amounts encoded as decimal strings). */
+interface SerializedCoinEntry extends Omit<
+  CoinEntry,
+  "balance" | "sponsorship"
+> {
+  balance: string;
+  sponsorship?: SerializedSponsorship;
+}
+
+interface SerializedSponsorship extends Omit<SponsorshipContext, "spendHold"> {
+  spendHold?: { amount: string; day: number };
+}
+
+function serializeEntry(entry: CoinEntry): SerializedCoinEntry {
+  const { sponsorship, ...rest } = entry;
+  return {
+    ...rest,
+    balance: entry.balance.toString(),
+    ...(sponsorship ? { sponsorship: serializeSponsorship(sponsorship) } : {}),
+  };
+}
+
+function deserializeEntry(entry: SerializedCoinEntry): CoinEntry {
+  const { sponsorship, ...rest } = entry;
+  return {
+    ...rest,
+    balance: BigInt(entry.balance),
+    ...(sponsorship
+      ? { sponsorship: deserializeSponsorship(sponsorship) }
+      : {}),
+  };
+}
+
+function serializeSponsorship(
+  sponsorship: SponsorshipContext,
+): SerializedSponsorship {
+  const { spendHold, ...rest } = sponsorship;
+  return {
+    ...rest,
+    ...(spendHold
+      ? {
+          spendHold: {
+            amount: spendHold.amount.toString(),
+            day: spendHold.day,
+          },
+        }
+      : {}),
+  };
+}
+
+function deserializeSponsorship(
+  sponsorship: SerializedSponsorship,
+): SponsorshipContext {
+  const { spendHold, ...rest } = sponsorship;
+  return {
+    ...rest,
+    ...(spendHold
+      ? {
+          spendHold: { amount: BigInt(spendHold.amount), day: spendHold.day },
+        }
+      : {}),
+  };
+}
+
+// ─── In-Memory ──────────────────────────────────────────────────────
+
+/**
+ * Keeps snapshots in process memory. Does not survive a restart — useful
+ * for tests and for handing state between CoinPool instances in one process.
+ */
+export class InMemoryCoinPoolStore implements CoinPoolStore {
+  private entries: CoinEntry[] = [];
+
+  async load(): Promise<CoinEntry[]> {
+    return this.entries.map((e) => ({ ...e }));
+  }
+
+  async save(entries: CoinEntry[]): Promise<void> {
+    this.entries = entries.map((e) => ({ ...e }));
+  }
+}
+
+// ─── File ───────────────────────────────────────────────────────────
+
+/**
+ * Persists snapshots as a JSON file. Writes go to a temporary sibling file
+ * first and are renamed into place, so a crash mid-write never leaves a
+ * truncated snapshot behind.
+ */
+export class FileCoinPoolStore implements CoinPoolStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<CoinEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+    const parsed = JSON.parse(raw) as { coins?: SerializedCoinEntry[] };
+    return (parsed.coins ?? []).map(deserializeEntry);
+  }
+
+  async save(entries: CoinEntry[]): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    const body = JSON.stringify({ coins: entries.map(serializeEntry) });
+    await writeFile(tmpPath, body, "utf8");
+    await rename(tmpPath, this.path);
+  }
+}
+
+// ─── SQLite ─────────────────────────────────────────────────────────
+
+/**
+ * Minimal synchronous SQLite handle (structural type).
+ * Satisfied by `better-sqlite3`'s `Database` and Node's `node:sqlite`
+ * `DatabaseSync` — bring whichever you already use, no extra dependency here.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+const SQL_IDENTIFIER_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Persists snapshots into a single SQLite table, replacing its contents
+ * inside one transaction per save.
+ */
+export class SqliteCoinPoolStore implements CoinPoolStore {
+  private readonly table: string;
+  private ready = false;
+
+  constructor(
+    private readonly db: SqliteDatabase,
+    options: { table?: string } = {},
+  ) {
+    const table = options.table ?? "gas_station_coins";
+    if (!SQL_IDENTIFIER_RE.test(table)) {
+      throw new Error(`Invalid SQLite table name: ${table}`);
+    }
+    this.table = table;
+  }
+
+  async load(): Promise<CoinEntry[]> {
+    this.ensureTable();
+    const rows = this.db
+      .prepare(
+        `SELECT object_id, version, digest, balance, status, reserved_at, transaction_digest, transaction_expiration, merged_coin_ids, sponsorship FROM ${this.table}`,
+      )
+      .all() as Array<{
+      object_id: string;
+      version: string;
+      digest: string;
+      balance: string;
+      status: CoinEntry["status"];
+      reserved_at: number | null;
+      transaction_digest: string | null;
+      transaction_expiration: string | null;
+      merged_coin_ids: string | null;
+      sponsorship: string | null;
+    }>;
+    return rows.map((row) => ({
+      objectId: row.object_id,
+      version: row.version,
+      digest: row.digest,
+      balance: BigInt(row.balance),
+      status: row.status,
+      reservedAt: row.reserved_at === null ? null : Number(row.reserved_at),
+      ...(row.transaction_digest
+        ? { transactionDigest: row.transaction_digest }
+        : {}),
+      ...(row.transaction_expiration
+        ? { transactionExpiration: row.transaction_expiration }
+        : {}),
+      ...(row.merged_coin_ids
+        ? { mergedCoinIds: JSON.parse(row.merged_coin_ids) as string[] }
+        : {}),
+      ...(row.sponsorship
+        ? {
+            sponsorship: deserializeSponsorship(
+              JSON.parse(row.sponsorship) as SerializedSponsorship,
+            ),
+          }
+        : {}),
+    }));
+  }
+
+  async save(entries: CoinEntry[]): Promise<void> {
+    this.ensureTable();
+    const insert = this.db.prepare(
+      `INSERT INTO ${this.table} (object_id, version, digest, balance, status, reserved_at, transaction_digest, transaction_expiration, merged_coin_ids, sponsorship) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.exec("BEGIN");
+    try {
+      this.db.exec(`DELETE FROM ${this.table}`);
+      for (const entry of entries) {
+        insert.run(
+          entry.objectId,
+          entry.version,
+          entry.digest,
+          entry.balance.toString(),
+          entry.status,
+          entry.reservedAt,
+          entry.transactionDigest ?? null,
+          entry.transactionExpiration ?? null,
+          entry.mergedCoinIds ? JSON.stringify(entry.mergedCoinIds) : null,
+          entry.sponsorship
+            ? JSON.stringify(serializeSponsorship(entry.sponsorship))
+            : null,
+        );
+      }
+      this.db.exec("COMMIT");
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  private ensureTable(): void {
+    if (this.ready) return;
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        object_id TEXT PRIMARY KEY,
+        version TEXT NOT NULL,
+        digest TEXT NOT NULL,
+        balance TEXT NOT NULL,
+        status TEXT NOT NULL,
+        reserved_at INTEGER,
+        transaction_digest TEXT,
+        transaction_expiration TEXT,
+        merged_coin_ids TEXT,
+        sponsorship TEXT
+      )`,
+    );
+    // Tables created by earlier versions lack the newer columns
+    const columns = this.db
+      .prepare(`PRAGMA table_info(${this.table})`)
+      .all() as Array<{ name: string }>;
+    for (const name of [
+      "transaction_expiration",
+      "merged_coin_ids",
+      "sponsorship",
+    ]) {
+      if (
+        columns.length > 0 &&
+        !columns.some((column) => column.name === name)
+      ) {
+        this.db.exec(`ALTER TABLE ${this.table} ADD COLUMN ${name} TEXT`);
+      }
+    }
+    this.ready = true;
+  }
+}
@@ -12,7 +12,23 @@
 import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import type { Signer } from "@mysten/sui/cryptography";
 import { Transaction } from "@mysten/sui/transactions";
-import type { CoinEntry, ExecutionEffects } from "./types.js";
+import type { CoinPoolStore } from "./coin-pool-store.js";
+import { type CoinPoolEvents, TypedEventEmitter } from "./events.js";
+import {
+  noopTracer,
+  type Span,
+  type SpanAttributes,
+  type Tracer,
+  withSpan,
+} from "./tracing.js";
+import type {
+  CoinEntry,
+  CoinTier,
+  ExecutionEffects,
+  PoolMaintenanceReport,
+  RebalanceReport,
+  SponsorshipContext,
+} from "./types.js";
 
 // ─── Defaults (matching ParallelTransactionExecutor) ────────────────
 
@@ -21,29 +37,92 @@ const DEFAULT_TARGET_COIN_BALANCE = 500_000_000n; // 0.5 SUI
 const DEFAULT_MIN_COIN_BALANCE = 50_000_000n; // 0.05 SUI
 const DEFAULT_RESERVATION_TIMEOUT_MS = 30_000; // 30 seconds
 
+// Dust coins merged per maintenance pass — keeps the transaction well under
+// the protocol's input object limit
+const MAX_SWEPT_COINS = 500;
+// Coins retired per rebalance transaction: each batch is one MergeCoins and
+// one SplitCoins command, and a command takes at most 512 arguments
+const MAX_REBALANCE_BATCH = 500;
+// Protocol limit on gas payment objects
+const MAX_GAS_PAYMENT_COINS = 256;
+// Expired reservations looked up per reconcileExpired() pass, oldest first
+const MAX_RECONCILED_PER_PASS = 20;
+
 // ─── CoinPool ───────────────────────────────────────────────────────
 
 export interface CoinPoolOptions {
   targetPoolSize?: number;
   targetCoinBalance?: bigint;
+  /** Coin sizes to keep; overrides targetPoolSize and targetCoinBalance */
+  coinTiers?: CoinTier[];
   minCoinBalance?: bigint;
   reservationTimeoutMs?: number;
+  /** Persist pool state across restarts. Default: none (memory only) */
+  store?: CoinPoolStore;
+  /** Wraps the pool's network operations in spans. Default: no tracing */
+  tracer?: Tracer;
+}
+
+/** What one maintain() pass should do. */
+interface MaintenancePlan {
+  topUp: string[];
+  lowWatermark?: number;
+  highWatermark?: number;
+  sweepDust?: boolean;
 }
 
-export class CoinPool {
+/**
+ * How an expired reservation was settled by reconcileExpired(). "pending"
+ * means it was not: its signed transaction may still execute, so the coin
+ * stays reserved until the transaction's expiration epoch has passed.
+ */
+export interface ReconciledReservation {
+  objectId: string;
+  outcome: "executed" | "released" | "dropped" | "pending";
+  /** The landed transaction's digest (outcome "executed" only) */
+  transactionDigest?: string;
+  /** The landed transaction's effects (outcome "executed" only) */
+  effects?: ExecutionEffects;
+  /** Net gas charged to the coin (outcome "executed" only) */
+  gasCharged?: bigint;
+  /** Coins that were merged into this one for the transaction, if any */
+  mergedCoinIds?: string[];
+  /** What the coin was sponsored for, if recorded */
+  sponsorship?: SponsorshipContext;
+}
+
+export class CoinPool extends TypedEventEmitter<CoinPoolEvents> {
   private coins = new Map<string, CoinEntry>();
   private readonly targetPoolSize: number;
   private readonly targetCoinBalance: bigint;
+  /** Coin sizes, smallest first — a single tier unless coinTiers is set */
+  private readonly tiers: CoinTier[];
   private readonly minCoinBalance: bigint;
   private readonly reservationTimeoutMs: number;
+  private readonly store?: CoinPoolStore;
+  private readonly tracer: Tracer;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private writeError: unknown = null;
 
   constructor(options: CoinPoolOptions = {}) {
-    this.targetPoolSize = options.targetPoolSize ?? DEFAULT_TARGET_POOL_SIZE;
-    this.targetCoinBalance =
-      options.targetCoinBalance ?? DEFAULT_TARGET_COIN_BALANCE;
+    super();
     this.minCoinBalance = options.minCoinBalance ?? DEFAULT_MIN_COIN_BALANCE;
+    if (options.coinTiers && options.coinTiers.length > 0) {
+      this.tiers = resolveTiers(options.coinTiers, this.minCoinBalance);
+      this.targetPoolSize = this.tiers.reduce((sum, t) => sum + t.count, 0);
+      this.targetCoinBalance = this.tiers[this.tiers.length - 1].balance;
+    } else {
+      this.targetPoolSize = options.targetPoolSize ?? DEFAULT_TARGET_POOL_SIZE;
+      this.targetCoinBalance =
+        options.targetCoinBalance ?? DEFAULT_TARGET_COIN_BALANCE;
+      this.tiers = [
+        { balance: this.targetCoinBalance, count: this.targetPoolSize },
+      ];
+    }
     this.reservationTimeoutMs =
       options.reservationTimeoutMs ?? DEFAULT_RESERVATION_TIMEOUT_MS;
+    this.store = options.store;
+    this.tracer = options.tracer ?? noopTracer;
   }
 
   /**
@@ -52,9 +131,38 @@ export class CoinPool {
    *
    * WARNING: Clears ALL pool state including reserved coins.
    * Do NOT call while transactions are in-flight — use replenish() instead.
+   *
+   * With a store configured, a previously saved snapshot is restored instead:
+   * entries are reconciled against the chain (see restore()) and the pool is
+   * topped up via replenish().
    */
   async initialize(client: SuiJsonRpcClient, signer: Signer): Promise<void> {
+    return this.trace("initialize", {}, (span) =>
+      this.doInitialize(client, signer, span),
+    );
+  }
+
+  private async doInitialize(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    span: Span,
+  ): Promise<void> {
     this.coins.clear();
+
+    if (this.store) {
+      const saved = await this.store.load();
+      if (saved.length > 0) {
+        await this.restore(client, saved);
+        await this.replenish(client, signer);
+        this.persist();
+        span.setAttributes({
+          "gas_station.pool.restored": true,
+          "gas_station.pool.size": this.coins.size,
+        });
+        return;
+      }
+    }
+
     const address = signer.toSuiAddress();
     const existingCoins = await this.fetchAllCoins(client, address);
 
@@ -93,8 +201,13 @@ export class CoinPool {
       // Coins below minCoinBalance are ignored (dust)
     }
 
-    // Add usable coins to pool (up to target size)
-    for (const coin of usable.slice(0, this.targetPoolSize)) {
+    // Add usable coins to their tiers (up to each tier's count)
+    const deficits = this.tierDeficits([]);
+    for (const coin of usable) {
+      const tier = this.tierOf(coin.balance);
+      const deficit = deficits.get(tier)!;
+      if (deficit <= 0) continue;
+      deficits.set(tier, deficit - 1);
       this.coins.set(coin.objectId, {
         ...coin,
         status: "available",
@@ -103,10 +216,11 @@ export class CoinPool {
     }
 
     // If we need more coins, split from source coins
-    const needed = this.targetPoolSize - this.coins.size;
-    if (needed > 0 && sourceRefs.length > 0) {
-      await this.splitCoins(client, signer, sourceRefs, needed);
+    if (sourceRefs.length > 0) {
+      await this.splitForTiers(client, signer, sourceRefs, deficits);
     }
+    this.persist();
+    span.setAttribute("gas_station.pool.size", this.coins.size);
   }
 
   /**
@@ -114,41 +228,53 @@ export class CoinPool {
    * Safe to call while transactions are in-flight — reserved coins are untouched.
    *
    * Fetches all coins from the network, skips any already tracked (by objectId),
-   * and adds new ones up to targetPoolSize. Splits large coins if needed.
+   * and adds new ones until each tier is back to its count (targetPoolSize
+   * coins without tiers). Splits large coins if needed.
    */
   async replenish(client: SuiJsonRpcClient, signer: Signer): Promise<void> {
+    return this.trace("replenish", {}, (span) =>
+      this.doReplenish(client, signer, span),
+    );
+  }
+
+  private async doReplenish(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    span: Span,
+  ): Promise<void> {
     const address = signer.toSuiAddress();
     const existingCoins = await this.fetchAllCoins(client, address);
 
-    const trackedIds = new Set(this.coins.keys());
-    const needed = this.targetPoolSize - this.coins.size;
-    if (needed <= 0) return;
+    const deficits = this.tierDeficits(this.coins.values());
+    if (![...deficits.values()].some((n) => n > 0)) return;
 
-    const usable: Array<{
-      objectId: string;
-      version: string;
-      digest: string;
-      balance: bigint;
-    }> = [];
     const sourceRefs: Array<{
       objectId: string;
       version: string;
       digest: string;
     }> = [];
 
+    let adopted = 0;
     for (const coin of existingCoins) {
-      if (trackedIds.has(coin.coinObjectId)) continue;
+      if (this.coins.has(coin.coinObjectId)) continue;
 
       const balance = BigInt(coin.balance);
       if (
         balance >= this.minCoinBalance &&
         balance <= this.targetCoinBalance * 2n
       ) {
-        usable.push({
+        const tier = this.tierOf(balance);
+        const deficit = deficits.get(tier)!;
+        if (deficit <= 0) continue;
+        deficits.set(tier, deficit - 1);
+        adopted++;
+        this.coins.set(coin.coinObjectId, {
           objectId: coin.coinObjectId,
           version: coin.version,
           digest: coin.digest,
           balance,
+          status: "available",
+          reservedAt: null,
         });
       } else if (balance > this.targetCoinBalance * 2n) {
         sourceRefs.push({
@@ -159,25 +285,30 @@ export class CoinPool {
       }
     }
 
-    let added = 0;
-    for (const coin of usable) {
-      if (added >= needed) break;
-      this.coins.set(coin.objectId, {
-        ...coin,
-        status: "available",
-        reservedAt: null,
-      });
-      added++;
+    let created = 0;
+    if (sourceRefs.length > 0) {
+      const split = await this.splitForTiers(
+        client,
+        signer,
+        sourceRefs,
+        deficits,
+      );
+      created = split.created.length;
     }
-
-    const stillNeeded = needed - added;
-    if (stillNeeded > 0 && sourceRefs.length > 0) {
-      await this.splitCoins(client, signer, sourceRefs, stillNeeded);
+    this.persist();
+    span.setAttributes({
+      "gas_station.pool.adopted": adopted,
+      "gas_station.pool.created": created,
+      "gas_station.pool.size": this.coins.size,
+    });
+    if (adopted + created > 0) {
+      this.emit("replenished", { adopted, created, total: this.coins.size });
     }
   }
 
   /**
-   * Reserve an available coin with sufficient balance.
+   * Reserve the smallest available coin with sufficient balance, so small
+   * transactions don't tie up large coins.
    * Returns null if no coins available (caller should throw POOL_EXHAUSTED).
    */
   reserve(minBalance?: bigint): CoinEntry | null {
@@ -185,27 +316,116 @@ export class CoinPool {
     this.recycleExpired(Date.now());
 
     const required = minBalance ?? this.minCoinBalance;
-    for (const [, coin] of this.coins) {
-      if (coin.status === "available" && coin.balance >= required) {
-        coin.status = "reserved";
-        coin.reservedAt = Date.now();
-        // Return a snapshot — caller gets a frozen view of the coin state
-        // at reservation time. The pool's internal copy may change later
-        // (e.g., during recycleExpired or revalidatePool).
-        return { ...coin };
-      }
+    let best: CoinEntry | null = null;
+    for (const coin of this.coins.values()) {
+      if (coin.status !== "available" || coin.balance < required) continue;
+      if (!best || coin.balance < best.balance) best = coin;
     }
-    return null;
+    if (!best) return null;
+
+    best.status = "reserved";
+    best.reservedAt = Date.now();
+    this.persist();
+    this.emit("reserved", { objectId: best.objectId, balance: best.balance });
+    // Return a snapshot — caller gets a frozen view of the coin state
+    // at reservation time. The pool's internal copy may change later
+    // (e.g., during recycleExpired or revalidatePool).
+    return { ...best };
+  }
+
+  /** Whether the pool keeps coins of more than one size. */
+  get tiered(): boolean {
+    return this.tiers.length > 1;
   }
 
   /**
-   * Release a reserved coin back to the pool.
+   * Snapshot of the largest available coin, without reserving it — for
+   * dry runs, which take no locks.
+   */
+  largestAvailable(): CoinEntry | undefined {
+    let largest: CoinEntry | undefined;
+    for (const coin of this.coins.values()) {
+      if (coin.status !== "available") continue;
+      if (!largest || coin.balance > largest.balance) largest = coin;
+    }
+    return largest ? { ...largest } : undefined;
+  }
+
+  /**
+   * Release a reserved coin back to the pool, together with any coins
+   * merged into it (see linkMergedCoins()).
    */
   release(objectId: string): void {
     const coin = this.coins.get(objectId);
     if (coin && coin.status === "reserved") {
-      coin.status = "available";
-      coin.reservedAt = null;
+      const mergedCoinIds = coin.mergedCoinIds;
+      for (const id of [objectId, ...(mergedCoinIds ?? [])]) {
+        const entry = this.coins.get(id);
+        if (entry?.status !== "reserved") continue;
+        entry.status = "available";
+        entry.reservedAt = null;
+        entry.transactionDigest = undefined;
+        entry.transactionExpiration = undefined;
+        entry.mergedCoinIds = undefined;
+        entry.sponsorship = undefined;
+      }
+      this.persist();
+      this.emit("released", {
+        objectId,
+        ...(mergedCoinIds ? { mergedCoinIds } : {}),
+      });
+    }
+  }
+
+  /**
+   * Pay one transaction's gas with several reserved coins (gas smashing).
+   * `objectId` becomes the gas coin; the others are merged into it and
+   * deleted on-chain when the transaction executes, whether or not it
+   * succeeds. release(), setTransactionDigest() and updateFromEffects() on
+   * `objectId` then cover the whole group.
+   */
+  linkMergedCoins(objectId: string, mergedCoinIds: string[]): void {
+    const coin = this.coins.get(objectId);
+    if (coin && coin.status === "reserved" && mergedCoinIds.length > 0) {
+      coin.mergedCoinIds = [...mergedCoinIds];
+      this.persist();
+    }
+  }
+
+  /**
+   * Record the digest of the transaction a reserved coin (and any coins
+   * merged into it) was signed for, so an expired reservation can later be
+   * reconciled against the chain. `expirationEpoch` is the last epoch the
+   * transaction may execute in; without it, an unused coin is never
+   * returned to the pool.
+   */
+  setTransactionDigest(
+    objectId: string,
+    digest: string,
+    expirationEpoch?: string,
+  ): void {
+    const coin = this.coins.get(objectId);
+    if (coin && coin.status === "reserved") {
+      for (const id of [objectId, ...(coin.mergedCoinIds ?? [])]) {
+        const entry = this.coins.get(id);
+        if (entry?.status !== "reserved") continue;
+        entry.transactionDigest = digest;
+        entry.transactionExpiration = expirationEpoch;
+      }
+      this.persist();
+    }
+  }
+
+  /**
+   * Record what a reserved coin was sponsored for. It is kept (and
+   * persisted) until the reservation settles, and returned with it by
+   * reconcileExpired().
+   */
+  setSponsorship(objectId: string, sponsorship: SponsorshipContext): void {
+    const coin = this.coins.get(objectId);
+    if (coin && coin.status === "reserved") {
+      coin.sponsorship = sponsorship;
+      this.persist();
     }
   }
 
@@ -213,19 +433,38 @@ export class CoinPool {
    * Update a coin's ObjectRef from execution effects.
    * The gas coin's version and digest change after every transaction.
    * We read the new values from the effects response — zero RPC calls.
+   *
+   * Coins merged into the gas coin are gone on-chain: they are removed and
+   * their balances added to the gas coin.
+   *
+   * Returns the net gas charged to the coin (negative when storage rebates
+   * exceed costs), or null if the coin is not tracked.
    */
-  updateFromEffects(effects: ExecutionEffects, objectId: string): void {
+  updateFromEffects(
+    effects: ExecutionEffects,
+    objectId: string,
+  ): bigint | null {
     const coin = this.coins.get(objectId);
-    if (!coin) return;
+    if (!coin) return null;
 
     const gasRef = effects.gasObject.reference;
 
+    // Gas smashing happens even if the transaction fails
+    for (const id of coin.mergedCoinIds ?? []) {
+      const merged = this.coins.get(id);
+      if (!merged) continue;
+      coin.balance += merged.balance;
+      this.coins.delete(id);
+    }
+    coin.mergedCoinIds = undefined;
+
     // Safety check: if the effects' gas coin objectId doesn't match the
     // coin we reserved, the effects don't belong to this coin. Remove
     // the stale entry — its on-chain state is unknown.
     if (gasRef.objectId !== objectId) {
       this.coins.delete(objectId);
-      return;
+      this.persist();
+      return null;
     }
 
     const gasUsed = effects.gasUsed;
@@ -251,14 +490,48 @@ export class CoinPool {
       coin.balance = remaining;
       coin.status = "available";
       coin.reservedAt = null;
+      coin.transactionDigest = undefined;
+      coin.transactionExpiration = undefined;
+      coin.sponsorship = undefined;
     } else {
       // Coin exhausted — remove from pool
       this.coins.delete(objectId);
     }
+    this.persist();
+    return totalGas;
+  }
+
+  /**
+   * Apply a coin ref learned out-of-band (e.g. published by another replica
+   * through a lease coordinator). Only moves a coin forward — older refs are
+   * ignored. Drops the coin if its balance fell below minCoinBalance.
+   *
+   * Returns the updated coin snapshot, or null if the coin is not tracked
+   * or was dropped.
+   */
+  syncRef(
+    objectId: string,
+    ref: { version: string; digest: string; balance: bigint },
+  ): CoinEntry | null {
+    const coin = this.coins.get(objectId);
+    if (!coin) return null;
+
+    if (BigInt(ref.version) > BigInt(coin.version)) {
+      coin.version = ref.version;
+      coin.digest = ref.digest;
+      coin.balance = ref.balance;
+      if (coin.balance < this.minCoinBalance) {
+        this.coins.delete(objectId);
+        this.persist();
+        return null;
+      }
+      this.persist();
+    }
+    return { ...coin };
   }
 
   /**
-   * Remove coins whose reservations have expired.
+   * Remove coins whose reservations have expired and carry no transaction digest.
    *
    * Expired coins are DELETED from the pool rather than recycled to "available".
    * This is a deliberate safety choice: if a client reserved a coin and never
@@ -266,29 +539,112 @@ export class CoinPool {
    * submitted. If it was, the coin's ObjectRef on-chain has changed — reusing
    * the stale ref would cause a version mismatch or object equivocation.
    *
-   * The pool shrinks naturally; operators should monitor getStats() and call
-   * initialize() to replenish when needed.
+   * Coins with a recorded transaction digest are left reserved for
+   * reconcileExpired(), which can find out what actually happened.
    */
   recycleExpired(now: number): string[] {
     const expired: string[] = [];
     for (const [id, coin] of this.coins) {
-      if (
-        coin.status === "reserved" &&
-        coin.reservedAt !== null &&
-        now - coin.reservedAt > this.reservationTimeoutMs
-      ) {
+      if (this.isExpired(coin, now) && !coin.transactionDigest) {
         this.coins.delete(id);
         expired.push(id);
       }
     }
+    if (expired.length > 0) this.persist();
+    for (const objectId of expired) {
+      this.emit("expired", { objectId, outcome: "dropped" });
+    }
     return expired;
   }
 
+  /**
+   * Resolve expired reservations that carry a transaction digest by asking
+   * the chain what happened:
+   * - Digest found → the transaction landed; apply its real effects
+   * - Digest not found, coin version moved on → refresh the ref from chain
+   * - Digest not found, coin at its reserved version → the sender may still
+   *   submit the signed transaction. The coin stays reserved (outcome
+   *   "pending") until `currentEpoch` is past the transaction's expiration
+   *   epoch, then returns to "available". Without a recorded expiration it
+   *   is dropped.
+   * - Coin no longer exists → drop it
+   *
+   * At most MAX_RECONCILED_PER_PASS reservations are looked up per pass,
+   * oldest first. Lookups that fail leave the coin reserved for the next
+   * attempt.
+   */
+  async reconcileExpired(
+    client: SuiJsonRpcClient,
+    now: number,
+    currentEpoch?: string,
+  ): Promise<ReconciledReservation[]> {
+    // Merged coins are settled along with the coin they were merged into
+    const merged = new Set(
+      [...this.coins.values()].flatMap((c) => c.mergedCoinIds ?? []),
+    );
+    const expired = [...this.coins.values()]
+      .filter(
+        (c) =>
+          this.isExpired(c, now) &&
+          c.transactionDigest &&
+          !merged.has(c.objectId),
+      )
+      .sort((a, b) => a.reservedAt! - b.reservedAt!)
+      .slice(0, MAX_RECONCILED_PER_PASS);
+    if (expired.length === 0) return [];
+    return this.trace("reconcileExpired", {}, (span) =>
+      this.doReconcileExpired(client, expired, currentEpoch, span),
+    );
+  }
+
+  private async doReconcileExpired(
+    client: SuiJsonRpcClient,
+    expired: CoinEntry[],
+    currentEpoch: string | undefined,
+    span: Span,
+  ): Promise<ReconciledReservation[]> {
+    const results: ReconciledReservation[] = [];
+
+    for (const { objectId, transactionDigest } of expired) {
+      try {
+        const result = await this.reconcileCoin(
+          client,
+          objectId,
+          transactionDigest!,
+          currentEpoch,
+        );
+        if (result) {
+          results.push(result);
+          if (result.outcome !== "pending") {
+            this.emit("expired", { objectId, outcome: result.outcome });
+          }
+        }
+      } catch {
+        // Chain unreachable — keep the reservation and retry later
+      }
+    }
+    span.setAttributes({
+      "gas_station.reservations.expired": expired.length,
+      "gas_station.reservations.settled": results.filter(
+        (r) => r.outcome !== "pending",
+      ).length,
+    });
+    return results;
+  }
+
   /**
    * Re-fetch all coin ObjectRefs from the network.
    * Called after epoch change when coin versions may have shifted.
    */
   async revalidatePool(client: SuiJsonRpcClient): Promise<void> {
+    return this.trace(
+      "revalidatePool",
+      { "gas_station.pool.size": this.coins.size },
+      () => this.doRevalidatePool(client),
+    );
+  }
+
+  private async doRevalidatePool(client: SuiJsonRpcClient): Promise<void> {
     const poolIds = [...this.coins.keys()];
     if (poolIds.length === 0) return;
 
@@ -309,22 +665,434 @@ export class CoinPool {
       // a version mismatch when the caller reports execution.
       if (coin.status === "reserved") continue;
 
-      if (obj.data) {
-        // Coin still exists — update ref
-        coin.version = obj.data.version;
-        coin.digest = obj.data.digest;
-        // Update balance from content if available
-        const content = obj.data.content;
-        if (content && "fields" in content) {
-          const fields = content.fields as Record<string, unknown>;
-          if (typeof fields.balance === "string") {
-            coin.balance = BigInt(fields.balance);
-          }
+      this.applyObjectState(coin, obj);
+    }
+    this.persist();
+  }
+
+  /**
+   * Reserve every available coin whose balance has dropped below
+   * `threshold` (default: 2 × minCoinBalance), for maintain() to top up.
+   */
+  reserveLowBalance(threshold?: bigint): CoinEntry[] {
+    const limit = threshold ?? this.minCoinBalance * 2n;
+    const reserved: CoinEntry[] = [];
+    const now = Date.now();
+    for (const coin of this.coins.values()) {
+      if (coin.status !== "available" || coin.balance >= limit) continue;
+      coin.status = "reserved";
+      coin.reservedAt = now;
+      reserved.push({ ...coin });
+    }
+    if (reserved.length > 0) this.persist();
+    return reserved;
+  }
+
+  /**
+   * One maintenance pass, done in a single transaction paid for by the
+   * sponsor's untracked source coins (above 2 × targetCoinBalance):
+   * - `topUp` coins (reserved via reserveLowBalance()) get a piece of the
+   *   source coin merged in, back up to targetCoinBalance (with tiers, the
+   *   smallest tier covering them), and are released.
+   * - Once available coins fall to `lowWatermark` (default: a quarter of
+   *   targetPoolSize), untracked right-sized coins are adopted and new ones
+   *   split off until `highWatermark` (default: targetPoolSize) are available.
+   *   New coins go to the tiers furthest below their count, smallest first;
+   *   each tier after the first takes one more split transaction.
+   * - With `sweepDust`, untracked coins below minCoinBalance are merged into
+   *   the source coin.
+   *
+   * Without a source coin, only adoption happens. If the transaction was
+   * submitted but its outcome is unknown, the top-up coins are dropped —
+   * their refs may have moved, and a later pass re-adopts them.
+   */
+  async maintain(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    plan: MaintenancePlan,
+  ): Promise<PoolMaintenanceReport> {
+    return this.trace(
+      "maintain",
+      { "gas_station.coin.count": plan.topUp.length },
+      (span) => this.doMaintain(client, signer, plan, span),
+    );
+  }
+
+  private async doMaintain(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    plan: MaintenancePlan,
+    span: Span,
+  ): Promise<PoolMaintenanceReport> {
+    const report: PoolMaintenanceReport = {
+      adopted: 0,
+      created: 0,
+      toppedUp: [],
+      swept: 0,
+      transactionDigests: [],
+    };
+    const topUp = plan.topUp.flatMap((id) => {
+      const coin = this.coins.get(id);
+      return coin?.status === "reserved" ? [coin] : [];
+    });
+    let toFill: CoinEntry[] = [];
+    let submitted = false;
+
+    try {
+      const address = signer.toSuiAddress();
+      const existingCoins = await this.fetchAllCoins(client, address);
+
+      const lowWatermark =
+        plan.lowWatermark ?? Math.floor(this.targetPoolSize / 4);
+      const highWatermark = plan.highWatermark ?? this.targetPoolSize;
+      const available = [...this.coins.values()].filter(
+        (c) => c.status === "available",
+      );
+      const availableCount = available.length + topUp.length;
+      const needed =
+        availableCount <= lowWatermark ? highWatermark - availableCount : 0;
+      const wanted = this.allocate(
+        Math.max(needed, 0),
+        this.tierDeficits([...available, ...topUp]),
+      );
+
+      const sourceRefs: Array<{
+        objectId: string;
+        version: string;
+        digest: string;
+      }> = [];
+      const dustRefs: typeof sourceRefs = [];
+
+      for (const coin of existingCoins) {
+        if (this.coins.has(coin.coinObjectId)) continue;
+
+        const ref = {
+          objectId: coin.coinObjectId,
+          version: coin.version,
+          digest: coin.digest,
+        };
+        const balance = BigInt(coin.balance);
+        if (balance < this.minCoinBalance) {
+          dustRefs.push(ref);
+        } else if (balance > this.targetCoinBalance * 2n) {
+          sourceRefs.push(ref);
+        } else {
+          const tier = this.tierOf(balance);
+          if (wanted.get(tier)! <= 0) continue;
+          this.coins.set(ref.objectId, {
+            ...ref,
+            balance,
+            status: "available",
+            reservedAt: null,
+          });
+          report.adopted++;
+          wanted.set(tier, wanted.get(tier)! - 1);
         }
-      } else {
-        // Coin no longer exists (maybe merged by system)
-        this.coins.delete(id);
       }
+
+      toFill = topUp.filter((c) => c.balance < this.tierOf(c.balance).balance);
+      const fillTo = new Map(toFill.map((c) => [c, this.tierOf(c.balance)]));
+      const sweep = plan.sweepDust ? dustRefs.slice(0, MAX_SWEPT_COINS) : [];
+      const splitTier = this.tiers.find((t) => wanted.get(t)! > 0);
+      if (
+        sourceRefs.length === 0 ||
+        (toFill.length === 0 && !splitTier && sweep.length === 0)
+      ) {
+        return report;
+      }
+
+      const tx = new Transaction();
+      tx.setSender(address);
+      tx.setGasPayment(sourceRefs);
+
+      if (toFill.length > 0) {
+        const pieces = tx.splitCoins(
+          tx.gas,
+          toFill.map((c) => fillTo.get(c)!.balance - c.balance),
+        );
+        toFill.forEach((coin, i) => {
+          tx.mergeCoins(
+            tx.objectRef({
+              objectId: coin.objectId,
+              version: coin.version,
+              digest: coin.digest,
+            }),
+            [pieces[i]],
+          );
+        });
+      }
+      const splitCount = splitTier ? wanted.get(splitTier)! : 0;
+      if (splitTier) {
+        const results = tx.splitCoins(
+          tx.gas,
+          Array.from({ length: splitCount }, () => splitTier.balance),
+        );
+        tx.transferObjects(
+          Array.from({ length: splitCount }, (_, i) => results[i]),
+          address,
+        );
+        wanted.set(splitTier, 0);
+      }
+      if (sweep.length > 0) {
+        tx.mergeCoins(
+          tx.gas,
+          sweep.map((ref) => tx.objectRef(ref)),
+        );
+      }
+
+      const bytes = await tx.build({ client });
+      const { signature } = await signer.signTransaction(bytes);
+      submitted = true;
+      const response = await client.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature,
+        options: { showEffects: true },
+      });
+      const effects = response.effects;
+      if (effects?.status.status !== "success") {
+        throw new Error(
+          `Pool maintenance transaction failed: ${effects?.status.error ?? "no effects returned"}`,
+        );
+      }
+      report.transactionDigests.push(response.digest);
+
+      const mutated = new Map(
+        (effects.mutated ?? []).map((o) => [o.reference.objectId, o.reference]),
+      );
+      for (const coin of toFill) {
+        const ref = mutated.get(coin.objectId);
+        if (!ref || this.coins.get(coin.objectId) !== coin) continue;
+        coin.version = ref.version;
+        coin.digest = ref.digest;
+        coin.balance = fillTo.get(coin)!.balance;
+        coin.status = "available";
+        coin.reservedAt = null;
+        report.toppedUp.push(coin.objectId);
+      }
+      if (splitTier) {
+        for (const entry of effects.created ?? []) {
+          const ref = entry.reference;
+          this.coins.set(ref.objectId, {
+            objectId: ref.objectId,
+            version: ref.version,
+            digest: ref.digest,
+            balance: splitTier.balance,
+            status: "available",
+            reservedAt: null,
+          });
+          report.created++;
+        }
+      }
+      report.swept = sweep.length;
+
+      // Remaining tiers, each in its own transaction
+      if (this.tiers.some((t) => wanted.get(t)! > 0)) {
+        this.persist();
+        const more = await this.splitForTiers(
+          client,
+          signer,
+          [effects.gasObject.reference],
+          wanted,
+        );
+        report.created += more.created.length;
+        report.transactionDigests.push(...more.digests);
+      }
+      return report;
+    } finally {
+      span.setAttributes({
+        "gas_station.pool.adopted": report.adopted,
+        "gas_station.pool.created": report.created,
+        "gas_station.transaction_digests": report.transactionDigests,
+      });
+      if (report.adopted + report.created > 0) {
+        this.emit("replenished", {
+          adopted: report.adopted,
+          created: report.created,
+          total: this.coins.size,
+        });
+      }
+      // Top-up coins left reserved go back to the pool, unless a submitted
+      // transaction may have changed them
+      for (const coin of topUp) {
+        if (coin.status !== "reserved") continue;
+        if (this.coins.get(coin.objectId) !== coin) continue; // expired meanwhile
+        if (submitted && toFill.includes(coin)) {
+          this.coins.delete(coin.objectId);
+        } else {
+          coin.status = "available";
+          coin.reservedAt = null;
+        }
+      }
+      this.persist();
+    }
+  }
+
+  /**
+   * Retire low-balance coins (reserved via reserveLowBalance()) without
+   * shrinking the pool: merge them into the sponsor's untracked source
+   * coins (above 2 × targetCoinBalance) and split off as many fresh coins at
+   * targetCoinBalance. Runs one transaction per batch of up to
+   * MAX_REBALANCE_BATCH coins; coins no longer reserved are skipped.
+   * With tiers, the fresh coins go to the tiers furthest below their count,
+   * and each tier after the first takes one more split transaction.
+   *
+   * A failed batch stops the run. Its coins are released if it was never
+   * submitted, and dropped otherwise — their refs may have moved.
+   */
+  async rebalance(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    objectIds: string[],
+  ): Promise<RebalanceReport> {
+    return this.trace(
+      "rebalance",
+      { "gas_station.coin.count": objectIds.length },
+      (span) => this.doRebalance(client, signer, objectIds, span),
+    );
+  }
+
+  private async doRebalance(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    objectIds: string[],
+    span: Span,
+  ): Promise<RebalanceReport> {
+    const report: RebalanceReport = {
+      merged: [],
+      created: [],
+      transactionDigests: [],
+    };
+    const pending = objectIds.flatMap((id) => {
+      const coin = this.coins.get(id);
+      return coin?.status === "reserved" ? [coin] : [];
+    });
+    let inFlight: CoinEntry[] = [];
+
+    try {
+      if (pending.length === 0) return report;
+
+      const address = signer.toSuiAddress();
+      let sourceRefs = (await this.fetchAllCoins(client, address))
+        .filter(
+          (c) =>
+            !this.coins.has(c.coinObjectId) &&
+            BigInt(c.balance) > this.targetCoinBalance * 2n,
+        )
+        .slice(0, MAX_GAS_PAYMENT_COINS)
+        .map((c) => ({
+          objectId: c.coinObjectId,
+          version: c.version,
+          digest: c.digest,
+        }));
+      if (sourceRefs.length === 0) {
+        throw new Error(
+          "No source coin to rebalance from: fund the sponsor address with a coin above 2 × targetCoinBalance",
+        );
+      }
+
+      for (let i = 0; i < pending.length; i += MAX_REBALANCE_BATCH) {
+        const batch = pending.slice(i, i + MAX_REBALANCE_BATCH);
+        const retiring = new Set(pending.slice(i));
+        const counts = this.allocate(
+          batch.length,
+          this.tierDeficits(
+            [...this.coins.values()].filter((c) => !retiring.has(c)),
+          ),
+        );
+        const splitTier = this.tiers.find((t) => counts.get(t)! > 0)!;
+        const splitCount = counts.get(splitTier)!;
+        counts.set(splitTier, 0);
+
+        const tx = new Transaction();
+        tx.setSender(address);
+        tx.setGasPayment(sourceRefs);
+        tx.mergeCoins(
+          tx.gas,
+          batch.map((c) =>
+            tx.objectRef({
+              objectId: c.objectId,
+              version: c.version,
+              digest: c.digest,
+            }),
+          ),
+        );
+        const results = tx.splitCoins(
+          tx.gas,
+          Array.from({ length: splitCount }, () => splitTier.balance),
+        );
+        tx.transferObjects(
+          Array.from({ length: splitCount }, (_, j) => results[j]),
+          address,
+        );
+
+        const bytes = await tx.build({ client });
+        const { signature } = await signer.signTransaction(bytes);
+        inFlight = batch;
+        const response = await client.executeTransactionBlock({
+          transactionBlock: bytes,
+          signature,
+          options: { showEffects: true },
+        });
+        const effects = response.effects;
+        if (effects?.status.status !== "success") {
+          throw new Error(
+            `Rebalance transaction failed: ${effects?.status.error ?? "no effects returned"}`,
+          );
+        }
+
+        for (const coin of batch) {
+          this.coins.delete(coin.objectId);
+          report.merged.push(coin.objectId);
+        }
+        for (const entry of effects.created ?? []) {
+          const ref = entry.reference;
+          this.coins.set(ref.objectId, {
+            objectId: ref.objectId,
+            version: ref.version,
+            digest: ref.digest,
+            balance: splitTier.balance,
+            status: "available",
+            reservedAt: null,
+          });
+          report.created.push(ref.objectId);
+        }
+        report.transactionDigests.push(response.digest);
+        // Gas smashing left a single source coin
+        sourceRefs = [effects.gasObject.reference];
+        inFlight = [];
+        this.persist();
+
+        if (this.tiers.some((t) => counts.get(t)! > 0)) {
+          const more = await this.splitForTiers(
+            client,
+            signer,
+            sourceRefs,
+            counts,
+          );
+          report.created.push(...more.created);
+          report.transactionDigests.push(...more.digests);
+          sourceRefs = [more.source];
+        }
+        report.sourceCoin = { ...sourceRefs[0] };
+      }
+      return report;
+    } finally {
+      span.setAttributes({
+        "gas_station.pool.merged": report.merged.length,
+        "gas_station.pool.created": report.created.length,
+        "gas_station.transaction_digests": report.transactionDigests,
+      });
+      for (const coin of pending) {
+        if (coin.status !== "reserved") continue;
+        if (this.coins.get(coin.objectId) !== coin) continue; // settled or expired
+        if (inFlight.includes(coin)) {
+          this.coins.delete(coin.objectId);
+        } else {
+          coin.status = "available";
+          coin.reservedAt = null;
+        }
+      }
+      this.persist();
     }
   }
 
@@ -334,6 +1102,17 @@ export class CoinPool {
    * (their transactions are presumably still in-flight).
    */
   async close(client: SuiJsonRpcClient, signer: Signer): Promise<void> {
+    return this.trace(
+      "close",
+      { "gas_station.pool.size": this.coins.size },
+      () => this.doClose(client, signer),
+    );
+  }
+
+  private async doClose(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+  ): Promise<void> {
     // Recycle any expired reservations first (removes stale coins)
     this.recycleExpired(Date.now());
 
@@ -342,6 +1121,7 @@ export class CoinPool {
     );
     if (available.length <= 1) {
       this.coins.clear();
+      this.persist();
       return;
     }
 
@@ -381,6 +1161,17 @@ export class CoinPool {
     });
 
     this.coins.clear();
+    this.persist();
+  }
+
+  /**
+   * Forget all coins without touching the chain.
+   * Used instead of close() when coins are shared with other replicas —
+   * merging them here would pull coins out from under their reservations.
+   */
+  reset(): void {
+    this.coins.clear();
+    this.persist();
   }
 
   getStats(): {
@@ -402,12 +1193,244 @@ export class CoinPool {
     return { total: this.coins.size, available, reserved, totalBalance };
   }
 
+  /** Snapshot of a tracked coin, or undefined if the pool doesn't hold it. */
+  getCoin(objectId: string): CoinEntry | undefined {
+    const coin = this.coins.get(objectId);
+    return coin ? { ...coin } : undefined;
+  }
+
   get size(): number {
     return this.coins.size;
   }
 
+  /**
+   * Wait for pending store writes to land.
+   * Rethrows the most recent write failure, if any, then clears it.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+    if (this.writeError !== null) {
+      const err = this.writeError;
+      this.writeError = null;
+      throw err;
+    }
+  }
+
   // ─── Private Helpers ────────────────────────────────────────────────
 
+  private trace<T>(
+    op: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    return withSpan(this.tracer, `CoinPool.${op}`, attributes, fn);
+  }
+
+  private isExpired(coin: CoinEntry, now: number): boolean {
+    return (
+      coin.status === "reserved" &&
+      coin.reservedAt !== null &&
+      now - coin.reservedAt > this.reservationTimeoutMs
+    );
+  }
+
+  /**
+   * Reconcile a single expired reservation (see reconcileExpired()).
+   * Returns null if the lookup was inconclusive, or the coin was reported
+   * or released while we were waiting on the network.
+   */
+  private async reconcileCoin(
+    client: SuiJsonRpcClient,
+    objectId: string,
+    digest: string,
+    currentEpoch: string | undefined,
+  ): Promise<ReconciledReservation | null> {
+    const stillPending = () => {
+      const coin = this.coins.get(objectId);
+      return coin?.status === "reserved" && coin.transactionDigest === digest
+        ? coin
+        : null;
+    };
+
+    let effects: ExecutionEffects | null = null;
+    try {
+      const tx = await client.getTransactionBlock({
+        digest,
+        options: { showEffects: true },
+      });
+      effects = tx.effects ?? null;
+    } catch (err) {
+      // Not found — never submitted, or not indexed yet. The coin's
+      // current version below is authoritative either way. Any other
+      // failure tells us nothing, so the coin stays reserved.
+      if (!isTransactionNotFound(err)) throw err;
+    }
+
+    const pending = stillPending();
+    if (!pending) return null;
+    const mergedCoinIds = pending.mergedCoinIds ?? [];
+    const { sponsorship } = pending;
+    const group = {
+      ...(mergedCoinIds.length > 0 ? { mergedCoinIds } : {}),
+      ...(sponsorship ? { sponsorship } : {}),
+    };
+    if (effects) {
+      const gasCharged = this.updateFromEffects(effects, objectId);
+      return {
+        objectId,
+        outcome: "executed",
+        transactionDigest: digest,
+        effects,
+        gasCharged: gasCharged ?? undefined,
+        ...group,
+      };
+    }
+
+    const objects = await client.multiGetObjects({
+      ids: [objectId, ...mergedCoinIds],
+      options: { showContent: true },
+    });
+    const current = stillPending();
+    if (!current) return null;
+
+    // Version unchanged: the signed transaction has not executed yet, but
+    // the sender still holds it. Reusing the coin before it can no longer
+    // execute risks equivocation, so wait out its expiration epoch — or
+    // drop the coins when there is none. Version moved on: the signed
+    // transaction can never execute, take the chain's ref as truth.
+    const ids = [objectId, ...mergedCoinIds];
+    if (objects[0]?.data?.version === current.version) {
+      const expiration = current.transactionExpiration;
+      if (expiration === undefined) {
+        for (const id of ids) this.coins.delete(id);
+        this.persist();
+        return { objectId, outcome: "dropped", ...group };
+      }
+      if (
+        currentEpoch === undefined ||
+        BigInt(currentEpoch) <= BigInt(expiration)
+      ) {
+        return { objectId, outcome: "pending", ...group };
+      }
+    }
+
+    // Merged coins that no longer exist are dropped.
+    for (const [i, id] of ids.entries()) {
+      const coin = this.coins.get(id);
+      if (!coin) continue;
+      const obj = objects[i];
+      if (!obj?.data) {
+        this.coins.delete(id);
+        continue;
+      }
+      this.applyObjectState(coin, obj);
+      coin.status = "available";
+      coin.reservedAt = null;
+      coin.transactionDigest = undefined;
+      coin.transactionExpiration = undefined;
+      coin.mergedCoinIds = undefined;
+      coin.sponsorship = undefined;
+      if (coin.balance < this.minCoinBalance) this.coins.delete(id);
+    }
+    this.persist();
+    return {
+      objectId,
+      outcome: this.coins.has(objectId) ? "released" : "dropped",
+      ...group,
+    };
+  }
+
+  /**
+   * Queue a snapshot of the current pool for the store.
+   * Writes are chained so they land in mutation order; a failed write is
+   * remembered for flush() and superseded by the next snapshot.
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) return;
+    const snapshot = [...this.coins.values()].map((c) => ({ ...c }));
+    this.pendingWrite = this.pendingWrite
+      .then(() => store.save(snapshot))
+      .then(
+        () => {
+          this.writeError = null;
+        },
+        (err: unknown) => {
+          this.writeError = err;
+        },
+      );
+  }
+
+  /**
+   * Rebuild the pool from a saved snapshot, reconciling each entry with
+   * its current on-chain state:
+   * - Coin no longer exists → dropped
+   * - Available coin → ref and balance refreshed
+   * - Reserved coin whose version moved on → the in-flight transaction
+   *   landed; refresh and return it to "available"
+   * - Reserved coin at its saved version → kept reserved, so the client can
+   *   still reportExecution() or the reservation times out as usual
+   */
+  private async restore(
+    client: SuiJsonRpcClient,
+    saved: CoinEntry[],
+  ): Promise<void> {
+    const ids = saved.map((c) => c.objectId);
+    const objects = await client.multiGetObjects({
+      ids,
+      options: { showContent: true },
+    });
+
+    for (let i = 0; i < saved.length; i++) {
+      const coin = { ...saved[i] };
+      const obj = objects[i];
+      if (!obj?.data) continue;
+
+      if (coin.status === "reserved" && obj.data.version === coin.version) {
+        this.coins.set(coin.objectId, coin);
+        continue;
+      }
+
+      this.coins.set(coin.objectId, coin);
+      this.applyObjectState(coin, obj);
+      coin.status = "available";
+      coin.reservedAt = null;
+      coin.transactionDigest = undefined;
+      coin.transactionExpiration = undefined;
+      coin.mergedCoinIds = undefined;
+      coin.sponsorship = undefined;
+      if (coin.balance < this.minCoinBalance) {
+        this.coins.delete(coin.objectId);
+      }
+    }
+  }
+
+  /**
+   * Copy an object's on-chain ref and balance into a pool entry,
+   * or drop the entry if the object no longer exists.
+   */
+  private applyObjectState(
+    coin: CoinEntry,
+    obj: Awaited<ReturnType<SuiJsonRpcClient["multiGetObjects"]>>[number],
+  ): void {
+    if (obj.data) {
+      // Coin still exists — update ref
+      coin.version = obj.data.version;
+      coin.digest = obj.data.digest;
+      // Update balance from content if available
+      const content = obj.data.content;
+      if (content && "fields" in content) {
+        const fields = content.fields as Record<string, unknown>;
+        if (typeof fields.balance === "string") {
+          coin.balance = BigInt(fields.balance);
+        }
+      }
+    } else {
+      // Coin no longer exists (maybe merged by system)
+      this.coins.delete(coin.objectId);
+    }
+  }
+
   /**
    * Fetch all SUI coins owned by an address, handling pagination.
    */
@@ -445,8 +1468,83 @@ export class CoinPool {
     return allCoins;
   }
 
+  /** The smallest tier that covers `balance`, else the largest tier. */
+  private tierOf(balance: bigint): CoinTier {
+    return (
+      this.tiers.find((t) => balance <= t.balance) ??
+      this.tiers[this.tiers.length - 1]
+    );
+  }
+
+  /** How many coins each tier is short of its count, given `coins`. */
+  private tierDeficits(coins: Iterable<CoinEntry>): Map<CoinTier, number> {
+    const deficits = new Map(this.tiers.map((t) => [t, t.count]));
+    for (const coin of coins) {
+      const tier = this.tierOf(coin.balance);
+      deficits.set(tier, deficits.get(tier)! - 1);
+    }
+    return deficits;
+  }
+
   /**
-   * Split source coins into pool-sized pieces.
+   * Spread `total` new coins over the tiers' deficits, smallest tier first.
+   * Anything beyond the deficits goes to the largest tier.
+   */
+  private allocate(
+    total: number,
+    deficits: Map<CoinTier, number>,
+  ): Map<CoinTier, number> {
+    const counts = new Map<CoinTier, number>();
+    let left = total;
+    for (const tier of this.tiers) {
+      const n = Math.min(left, Math.max(deficits.get(tier) ?? 0, 0));
+      counts.set(tier, n);
+      left -= n;
+    }
+    const largest = this.tiers[this.tiers.length - 1];
+    counts.set(largest, counts.get(largest)! + Math.max(left, 0));
+    return counts;
+  }
+
+  /**
+   * Split `counts` new coins per tier from the source coins, one transaction
+   * per tier — the order of created objects in effects is unspecified, so a
+   * transaction only ever creates coins of one size. Each transaction is
+   * paid by the coin the previous one left behind.
+   */
+  private async splitForTiers(
+    client: SuiJsonRpcClient,
+    signer: Signer,
+    sourceRefs: Array<{ objectId: string; version: string; digest: string }>,
+    counts: Map<CoinTier, number>,
+  ): Promise<{
+    digests: string[];
+    created: string[];
+    source: { objectId: string; version: string; digest: string };
+  }> {
+    const result = { digests: [] as string[], created: [] as string[] };
+    let sources = sourceRefs;
+    for (const tier of this.tiers) {
+      const count = counts.get(tier) ?? 0;
+      if (count <= 0) continue;
+      const split = await this.trace(
+        "splitCoins",
+        {
+          "gas_station.split.count": count,
+          "gas_station.split.balance": tier.balance.toString(),
+        },
+        (span) =>
+          this.splitCoins(client, signer, sources, count, tier.balance, span),
+      );
+      result.digests.push(split.digest);
+      result.created.push(...split.created);
+      sources = [split.source];
+    }
+    return { ...result, source: sources[0] };
+  }
+
+  /**
+   * Split source coins into `count` coins of `balance` each.
    * Ported from ParallelTransactionExecutor.refillCoinPool.
    */
   private async splitCoins(
@@ -454,7 +1552,13 @@ export class CoinPool {
     signer: Signer,
     sourceRefs: Array<{ objectId: string; version: string; digest: string }>,
     count: number,
-  ): Promise<void> {
+    balance: bigint,
+    span: Span,
+  ): Promise<{
+    digest: string;
+    created: string[];
+    source: { objectId: string; version: string; digest: string };
+  }> {
     const tx = new Transaction();
     const address = signer.toSuiAddress();
     tx.setSender(address);
@@ -463,7 +1567,7 @@ export class CoinPool {
     tx.setGasPayment(sourceRefs);
 
     // Split gas coin into `count` pieces
-    const amounts = Array.from({ length: count }, () => this.targetCoinBalance);
+    const amounts = Array.from({ length: count }, () => balance);
     const results = tx.splitCoins(tx.gas, amounts);
 
     // Transfer split coins back to sponsor address
@@ -480,6 +1584,7 @@ export class CoinPool {
       signature,
       options: { showEffects: true, showObjectChanges: true },
     });
+    span.setAttribute("gas_station.transaction_digest", response.digest);
 
     // Extract created coin refs from the response
     const created = response.effects?.created;
@@ -495,10 +1600,57 @@ export class CoinPool {
         objectId: ref.objectId,
         version: ref.version,
         digest: ref.digest,
-        balance: this.targetCoinBalance,
+        balance,
         status: "available",
         reservedAt: null,
       });
     }
+    this.persist();
+    return {
+      digest: response.digest,
+      created: created.map((entry) => entry.reference.objectId),
+      // Gas smashing left the first source coin holding the remainder
+      source: { ...response.effects!.gasObject.reference },
+    };
+  }
+}
+
+/**
+ * Whether a getTransactionBlock() failure means the digest is unknown to
+ * the node, as opposed to a transport or server error.
+ */
+function isTransactionNotFound(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    /could not find the referenced transaction/i.test(err.message)
+  );
+}
+
+/**
+ * Validate coin tiers and sort them smallest first.
+ * Throws if a count is not a non-negative integer, a balance is below
+ * minCoinBalance, or two tiers share a balance.
+ */
+function resolveTiers(tiers: CoinTier[], minCoinBalance: bigint): CoinTier[] {
+  const sorted = tiers
+    .map((t) => ({ balance: t.balance, count: t.count }))
+    .sort((a, b) =>
+      a.balance < b.balance ? -1 : a.balance > b.balance ? 1 : 0,
+    );
+  for (const [i, tier] of sorted.entries()) {
+    if (!Number.isInteger(tier.count) || tier.count < 0) {
+      throw new Error(
+        `Invalid coin tier count ${tier.count}: must be a non-negative integer`,
+      );
+    }
+    if (tier.balance < minCoinBalance) {
+      throw new Error(
+        `Coin tier balance ${tier.balance} is below minCoinBalance (${minCoinBalance})`,
+      );
+    }
+    if (i > 0 && sorted[i - 1].balance === tier.balance) {
+      throw new Error(`Duplicate coin tier balance ${tier.balance}`);
+    }
   }
+  return sorted;
 }
@@ -9,9 +9,16 @@ export type GasStationErrorCode =
   | "POOL_EXHAUSTED" // No coins available — wait or add funds
   | "POOL_NOT_INITIALIZED" // initialize() not called yet
   | "POLICY_VIOLATION" // Sponsorship policy check failed
+  | "LOOKUP_FAILED" // Address group membership could not be checked — retry later
+  | "QUOTA_EXCEEDED" // Rate or spend quota used up — retry after the window
   | "BUILD_FAILED" // Transaction build/dry-run failed
+  | "SIMULATION_FAILED" // Transaction would fail on-chain (simulateTransactions)
   | "SIGN_FAILED" // Keypair signing failed
-  | "INVALID_EFFECTS"; // Bad effects data passed to reportExecution()
+  | "SIGN_TIMEOUT" // Sponsor signer too slow or overloaded (signTimeoutMs)
+  | "EXECUTION_FAILED" // Submitting a sponsored transaction failed
+  | "INVALID_EFFECTS" // Bad effects data passed to reportExecution()
+  | "INVALID_REQUEST" // Malformed HTTP request body (http-handler)
+  | "REQUEST_FAILED"; // GasStationClient could not reach the gas station, or got a bad response
 
 export class GasStationError extends Error {
   override readonly name = "GasStationError";
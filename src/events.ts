@@ -0,0 +1,117 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Typed events for observing the pool and sponsorship flow — logging,
+ * alerting, dashboards. Listeners are called synchronously and their errors
+ * are swallowed: an observer must never break sponsorship.
+ */
+import type { GasStationError } from "./errors.js";
+import type { SpendRecord } from "./spend-ledger.js";
+import type { ExecutionEffects, GasCoinReservation } from "./types.js";
+
+// ─── Event Maps ─────────────────────────────────────────────────────
+
+export interface CoinPoolEvents {
+  /** A coin was reserved */
+  reserved: { objectId: string; balance: bigint };
+  /** A reserved coin (and any coins merged into it) went back unused */
+  released: { objectId: string; mergedCoinIds?: string[] };
+  /**
+   * A reservation outlived reservationTimeoutMs and was settled: its
+   * transaction landed ("executed"), never ran ("released"), or the coin
+   * could not be trusted any more ("dropped")
+   */
+  expired: { objectId: string; outcome: "executed" | "released" | "dropped" };
+  /** Coins were added to the pool by replenish() or maintenance */
+  replenished: { adopted: number; created: number; total: number };
+}
+
+export interface GasSponsorEvents extends CoinPoolEvents {
+  /**
+   * sponsorTransaction() succeeded. `buildMs` and `signMs` time the
+   * transaction build and the sponsor signature.
+   */
+  sponsored: {
+    sender: string;
+    reservation: GasCoinReservation;
+    gasBudget: bigint;
+    buildMs: number;
+    signMs: number;
+  };
+  /**
+   * A sponsored transaction's effects were applied, from reportExecution()
+   * or reconciliation. `record` is missing for reservations this instance
+   * did not make (e.g. restored after a restart).
+   */
+  executed: {
+    objectId: string;
+    effects: ExecutionEffects;
+    record?: SpendRecord;
+  };
+  /** sponsorTransaction() refused a request */
+  rejected: { sender: string; error: GasStationError };
+  /** A new epoch began; the pool is revalidated against the chain */
+  epochChanged: { previousEpoch: string; epoch: string; gasPrice: bigint };
+  /** Pool revalidation after an epoch change failed; it is retried later */
+  revalidationFailed: { epoch: string; error: unknown };
+  /** addSponsor() added a sponsor key, its pool ready */
+  sponsorAdded: { address: string };
+  /** retireSponsor() was called; the sponsor takes no new requests */
+  sponsorRetiring: { address: string; reservedCoins: number };
+  /** A retiring sponsor's reservations all settled and its pool was closed */
+  sponsorRetired: { address: string };
+}
+
+// ─── Emitter ────────────────────────────────────────────────────────
+
+export type EventListener<T> = (event: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /** Subscribe to an event. Returns a function that unsubscribes. */
+  on<K extends keyof Events>(
+    name: K,
+    listener: EventListener<Events[K]>,
+  ): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /** Subscribe to the next occurrence of an event only. */
+  once<K extends keyof Events>(
+    name: K,
+    listener: EventListener<Events[K]>,
+  ): () => void {
+    const off = this.on(name, (event) => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(
+    name: K,
+    listener: EventListener<Events[K]>,
+  ): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+    for (const listener of [...set] as EventListener<Events[K]>[]) {
+      try {
+        listener(event);
+      } catch {
+        // Listener errors must not affect the pool or sponsorship flow
+      }
+    }
+  }
+}
@@ -10,64 +10,221 @@
  *   const result = await sponsor.sponsorTransaction({ sender, transactionKindBytes });
  *   // ... user signs and executes ...
  *   sponsor.reportExecution(result.reservation, response.effects);
+ *
+ * Or let the sponsor submit and report in one call:
+ *   const response = await sponsor.sponsorAndExecute({ sender, transactionKindBytes, signTransaction });
  */
-import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import type {
+  SuiJsonRpcClient,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/jsonRpc";
 import type { Signer } from "@mysten/sui/cryptography";
-import { Transaction } from "@mysten/sui/transactions";
-import { fromBase64, toBase64 } from "@mysten/sui/utils";
-import { CoinPool } from "./coin-pool.js";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import type { CoinLeaseCoordinator } from "./coin-lease.js";
+import { CoinPool, type CoinPoolOptions } from "./coin-pool.js";
 import { GasStationError } from "./errors.js";
-import { assertNoGasCoinUsage, validatePolicy } from "./policy.js";
+import {
+  type CoinPoolEvents,
+  type GasSponsorEvents,
+  TypedEventEmitter,
+} from "./events.js";
+import {
+  allowsGasCoinUsage,
+  assertNoGasCoinUsage,
+  changedObjectIds,
+  checkPolicy,
+  evaluatePolicy,
+  extractMoveTargetsFromCommands,
+  findSponsorAssetChanges,
+  ownerAddress,
+  protectsSponsorAssets,
+  restrictionsOnly,
+} from "./policy.js";
+import { InMemoryQuotaStore, QuotaTracker } from "./quota.js";
+import { SignQueue } from "./sign-queue.js";
+import { type SpendRecord, SpendLedger } from "./spend-ledger.js";
+import {
+  noopTracer,
+  type Span,
+  type SpanAttributes,
+  type Tracer,
+  withSpan,
+} from "./tracing.js";
 import type {
+  CoinEntry,
   ExecutionEffects,
   GasCoinReservation,
   GasPriceCache,
   GasSponsorOptions,
+  NamedPolicy,
+  MaintenanceScheduler,
+  PolicyDecision,
+  PoolMaintenanceOptions,
+  PoolMaintenanceReport,
   PoolStats,
+  QuotaPolicy,
+  RebalanceReport,
+  SimulationResult,
+  SpendHold,
   SponsoredTransaction,
+  SponsorOptions,
   SponsorPolicy,
+  SponsorRequest,
+  SponsorshipContext,
+  SponsorStats,
 } from "./types.js";
 
 // ─── Defaults (matching ParallelTransactionExecutor) ────────────────
 
 const DEFAULT_EPOCH_BOUNDARY_WINDOW = 1_000; // 1 second (matches PTE)
 const DEFAULT_TARGET_COIN_BALANCE = 500_000_000n; // 0.5 SUI
+const DEFAULT_RESERVATION_TIMEOUT_MS = 30_000; // 30 seconds
+const DEFAULT_LEASE_TTL_MS = 300_000; // 5 minutes
+const DEFAULT_MAX_GAS_COINS = 8; // well under the protocol limit of 256
+const DEFAULT_MAINTENANCE_INTERVAL_MS = 60_000; // 1 minute
+const DEFAULT_REPORT_LOOKUP_TIMEOUT_MS = 10_000; // 10 seconds
+const GAS_SAFE_OVERHEAD = 1_000n; // matches the SDK's own budget estimate
 
 // ─── GasSponsor ─────────────────────────────────────────────────────
 
 const MAX_EPOCH_BOUNDARY_WAIT = 30_000; // 30 second cap prevents clock-skew hangs
 const SUI_ADDRESS_RE = /^0x[0-9a-fA-F]{1,64}$/;
+/** Most object IDs a multiGetObjects call may ask for */
+const MAX_OBJECTS_PER_LOOKUP = 50;
+/** Lease key held by the replica running a maintenance pass */
+const MAINTENANCE_LEASE_ID = "pool-maintenance";
+const POOL_EVENTS: Array<keyof CoinPoolEvents> = [
+  "reserved",
+  "released",
+  "expired",
+  "replenished",
+];
+
+/** A sponsor key with its own coin pool and signing queue. */
+interface SponsorIdentity {
+  /** Normalized sponsor address */
+  address: string;
+  signer: Signer;
+  pool: CoinPool;
+  signQueue: SignQueue;
+  /** Named policies routed to this sponsor; none for general traffic */
+  policyNames: Set<string>;
+  /** Set by retireSponsor(); settles once the sponsor is drained and closed */
+  retirement?: {
+    done: Promise<void>;
+    resolve: () => void;
+    reject: (err: unknown) => void;
+  };
+}
 
-export class GasSponsor {
+/** Timers that don't keep the process alive just for maintenance. */
+const defaultScheduler: MaintenanceScheduler = {
+  setTimeout: (callback, ms) => {
+    const timer = setTimeout(callback, ms);
+    // Deno, Workers and browsers return a number with no unref()
+    if (typeof timer === "object") timer.unref?.();
+    return timer;
+  },
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export class GasSponsor extends TypedEventEmitter<GasSponsorEvents> {
   private readonly client: SuiJsonRpcClient;
-  private readonly signer: Signer;
   private readonly defaultPolicy?: SponsorPolicy;
-  private readonly pool: CoinPool;
+  /** Named policies with `extends` chains resolved into allOf */
+  private readonly policies: Map<string, SponsorPolicy>;
+  /** Sponsor keys by address, in the order they were added */
+  private readonly sponsors = new Map<string, SponsorIdentity>();
+  /** Pool settings shared by every sponsor's pool */
+  private readonly poolOptions: CoinPoolOptions;
+  private readonly maxConcurrentSigns?: number;
+  private readonly signTimeoutMs?: number;
+  private readonly reservationTimeoutMs: number;
   private readonly epochBoundaryWindow: number;
   private readonly defaultMaxBudget: bigint;
   private readonly onPoolDepleted?: (stats: PoolStats) => void;
+  private readonly leases?: CoinLeaseCoordinator;
+  private readonly instanceId: string;
+  private readonly leaseTtlMs: number;
+  private readonly quotas: QuotaTracker;
+  private readonly simulateTransactions: boolean;
+  private readonly maxGasCoins: number;
+  private readonly tracer: Tracer;
+
+  /** Per-transaction spend records, fed by reportExecution(). */
+  readonly ledger: SpendLedger;
 
   private gasPriceCache: GasPriceCache | null = null;
+  /** The reconciliation pass in flight, shared by overlapping callers. */
+  private reconciling: Promise<void> | null = null;
+  /** Tail of the pool lock queue (see withPoolLock()). */
+  private poolLock: Promise<void> = Promise.resolve();
   private needsRevalidation = false;
   private initialized = false;
+  private maintenance: {
+    scheduler: MaintenanceScheduler;
+    timer: unknown;
+    pass: Promise<void> | null;
+    stopped: boolean;
+  } | null = null;
 
   constructor(options: GasSponsorOptions) {
+    super();
     this.client = options.client;
-    this.signer = options.signer;
     this.defaultPolicy = options.policy;
+    this.policies = resolveNamedPolicies(options.policies ?? {});
     this.epochBoundaryWindow =
       options.epochBoundaryWindow ?? DEFAULT_EPOCH_BOUNDARY_WINDOW;
 
+    const largestTier = options.coinTiers?.reduce<bigint | undefined>(
+      (max, t) => (max === undefined || t.balance > max ? t.balance : max),
+      undefined,
+    );
     this.defaultMaxBudget =
-      options.targetCoinBalance ?? DEFAULT_TARGET_COIN_BALANCE;
+      largestTier ?? options.targetCoinBalance ?? DEFAULT_TARGET_COIN_BALANCE;
     this.onPoolDepleted = options.onPoolDepleted;
+    this.leases = options.leases;
+    this.instanceId = options.instanceId ?? crypto.randomUUID();
+    this.leaseTtlMs = options.leaseTtlMs ?? DEFAULT_LEASE_TTL_MS;
+    this.quotas = new QuotaTracker(
+      options.quotaStore ?? new InMemoryQuotaStore(),
+    );
+    this.ledger = options.ledger ?? new SpendLedger();
+    this.simulateTransactions = options.simulateTransactions ?? false;
+    this.maxGasCoins = options.maxGasCoins ?? DEFAULT_MAX_GAS_COINS;
+    this.tracer = options.tracer ?? noopTracer;
+
+    this.reservationTimeoutMs =
+      options.reservationTimeoutMs ?? DEFAULT_RESERVATION_TIMEOUT_MS;
+    if (
+      options.signTimeoutMs !== undefined &&
+      options.signTimeoutMs >= this.reservationTimeoutMs
+    ) {
+      // A slower signature would outlive the reservation it was made for
+      throw new Error(
+        `signTimeoutMs (${options.signTimeoutMs}) must be below reservationTimeoutMs (${this.reservationTimeoutMs})`,
+      );
+    }
+    this.maxConcurrentSigns = options.maxConcurrentSigns;
+    this.signTimeoutMs = options.signTimeoutMs;
 
-    this.pool = new CoinPool({
+    this.poolOptions = {
       targetPoolSize: options.targetPoolSize,
       targetCoinBalance: options.targetCoinBalance,
+      coinTiers: options.coinTiers,
       minCoinBalance: options.minCoinBalance,
       reservationTimeoutMs: options.reservationTimeoutMs,
-    });
+      tracer: this.tracer,
+    };
+    for (const sponsor of [
+      { signer: options.signer, store: options.store },
+      ...(options.sponsors ?? []),
+    ]) {
+      const identity = this.createIdentity(sponsor);
+      this.sponsors.set(identity.address, identity);
+    }
   }
 
   /**
@@ -75,17 +232,70 @@ export class GasSponsor {
    * Must be called before sponsorTransaction().
    */
   async initialize(): Promise<void> {
-    await this.pool.initialize(this.client, this.signer);
+    await this.withPoolLock(async () => {
+      for (const identity of this.sponsors.values()) {
+        await identity.pool.initialize(this.client, identity.signer);
+      }
+    });
     await this.refreshGasPrice();
     this.initialized = true;
   }
 
+  /**
+   * Add a sponsor key at runtime, e.g. the replacement for a key being
+   * rotated out. Once initialized, its pool is filled before it takes
+   * requests. Resolves to the sponsor's address.
+   */
+  async addSponsor(options: SponsorOptions): Promise<string> {
+    const identity = this.createIdentity(options);
+    if (this.initialized) {
+      await identity.pool.initialize(this.client, identity.signer);
+    }
+    // Checked again: another call may have added the key meanwhile
+    if (this.sponsors.has(identity.address)) {
+      throw new Error(`Duplicate sponsor address ${identity.address}`);
+    }
+    this.sponsors.set(identity.address, identity);
+    this.emit("sponsorAdded", { address: identity.address });
+    return identity.address;
+  }
+
+  /**
+   * Stop routing requests to a sponsor key and remove it once drained:
+   * when its last reservation is reported, released or reconciled, its
+   * pool is closed (coins merged, see close()) and the key forgotten.
+   * Resolves then. Expired reservations are settled on the next
+   * sponsorship or maintenance pass.
+   */
+  async retireSponsor(address: string): Promise<void> {
+    const identity = this.sponsors.get(normalizeSuiAddress(address));
+    if (!identity) {
+      throw new Error(`Unknown sponsor address ${address}`);
+    }
+    if (identity.retirement) return identity.retirement.done;
+
+    let resolve!: () => void;
+    let reject!: (err: unknown) => void;
+    const done = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    identity.retirement = { done, resolve, reject };
+    this.emit("sponsorRetiring", {
+      address: identity.address,
+      reservedCoins: identity.pool.getStats().reserved,
+    });
+    this.retireDrained();
+    return done;
+  }
+
   /**
    * Replenish the coin pool by fetching and splitting new coins.
    * Call this when the pool is depleted (e.g., from the onPoolDepleted callback).
    *
    * Safe to call while transactions are in-flight — reserved coins are preserved.
    * Only adds NEW coins from the network; does not disturb existing pool entries.
+   * Waits for a maintenance pass in progress, which splits from the same coins.
    */
   async replenish(): Promise<void> {
     if (!this.initialized) {
@@ -94,15 +304,223 @@ export class GasSponsor {
         "Call initialize() before replenish()",
       );
     }
-    await this.pool.replenish(this.client, this.signer);
+    await this.withPoolLock(async () => {
+      for (const identity of this.activeSponsors()) {
+        if (identity.retirement) continue; // Retired since the pass began
+        await identity.pool.replenish(this.client, identity.signer);
+      }
+    });
+  }
+
+  /**
+   * Run one pool maintenance pass: settle expired reservations, top up
+   * coins whose balance fell below `topUpThreshold`, refill the pool between
+   * the watermarks by adopting or splitting coins, and sweep dust. See
+   * startMaintenance() to run it on a timer.
+   *
+   * With a lease coordinator, one replica maintains at a time; the others
+   * resolve to null. With several sponsors, each active one is maintained
+   * in turn and the report adds them up.
+   */
+  async runMaintenance(
+    options: PoolMaintenanceOptions = {},
+  ): Promise<PoolMaintenanceReport | null> {
+    if (!this.initialized) {
+      throw new GasStationError(
+        "POOL_NOT_INITIALIZED",
+        "Call initialize() before runMaintenance()",
+      );
+    }
+    return this.withMaintenanceLease(async () => {
+      await this.reconcileExpired();
+      const report: PoolMaintenanceReport = {
+        adopted: 0,
+        created: 0,
+        toppedUp: [],
+        swept: 0,
+        transactionDigests: [],
+      };
+      for (const identity of this.activeSponsors()) {
+        if (identity.retirement) continue; // Retired since the pass began
+        let topUp: CoinEntry[] = [];
+        try {
+          topUp = await this.reserveLowBalanceCoins(
+            identity,
+            options.topUpThreshold,
+          );
+          const pass = await identity.pool.maintain(
+            this.client,
+            identity.signer,
+            {
+              topUp: topUp.map((c) => c.objectId),
+              lowWatermark: options.lowWatermark,
+              highWatermark: options.highWatermark,
+              sweepDust: options.sweepDust ?? true,
+            },
+          );
+          report.adopted += pass.adopted;
+          report.created += pass.created;
+          report.toppedUp.push(...pass.toppedUp);
+          report.swept += pass.swept;
+          report.transactionDigests.push(...pass.transactionDigests);
+        } finally {
+          // Publish topped-up refs so other replicas see the new balances
+          for (const { objectId } of topUp) {
+            this.releaseLease(objectId, identity.pool.getCoin(objectId));
+          }
+          // A sponsor retired meanwhile may be drained now
+          this.retireDrained();
+        }
+      }
+      return report;
+    });
+  }
+
+  /**
+   * Replace pool coins below `threshold` (default: 2 × minCoinBalance)
+   * with fresh coins at targetCoinBalance (or per tier, with coinTiers),
+   * merging the old ones into the
+   * sponsor's source coin. Reserved coins are left alone. Keeps the pool
+   * from shrinking as heavily used coins drop below minCoinBalance.
+   *
+   * With a lease coordinator, shares the maintenance lease with
+   * runMaintenance() and resolves to null if another replica holds it.
+   */
+  async rebalance(
+    options: { threshold?: bigint } = {},
+  ): Promise<RebalanceReport | null> {
+    if (!this.initialized) {
+      throw new GasStationError(
+        "POOL_NOT_INITIALIZED",
+        "Call initialize() before rebalance()",
+      );
+    }
+    return this.withMaintenanceLease(async () => {
+      const report: RebalanceReport = {
+        merged: [],
+        created: [],
+        transactionDigests: [],
+      };
+      for (const identity of this.activeSponsors()) {
+        if (identity.retirement) continue; // Retired since the pass began
+        const coins = await this.reserveLowBalanceCoins(
+          identity,
+          options.threshold,
+        );
+        let pass: RebalanceReport | undefined;
+        try {
+          pass = await identity.pool.rebalance(
+            this.client,
+            identity.signer,
+            coins.map((c) => c.objectId),
+          );
+        } finally {
+          // Merged coins are gone; an empty balance at the source coin's
+          // version makes other replicas drop them
+          const merged = new Set(pass?.merged);
+          const source = pass?.sourceCoin;
+          for (const { objectId } of coins) {
+            this.releaseLease(
+              objectId,
+              merged.has(objectId) && source
+                ? {
+                    version: source.version,
+                    digest: source.digest,
+                    balance: 0n,
+                  }
+                : identity.pool.getCoin(objectId),
+            );
+          }
+          this.retireDrained();
+        }
+        report.merged.push(...pass.merged);
+        report.created.push(...pass.created);
+        report.transactionDigests.push(...pass.transactionDigests);
+        if (pass.sourceCoin) report.sourceCoin = pass.sourceCoin;
+      }
+      return report;
+    });
+  }
+
+  /**
+   * Run runMaintenance() every `intervalMs` in the background until
+   * stopMaintenance() or close(). Passes never overlap: the next is
+   * scheduled once the previous finishes. Failed passes are reported to
+   * `onError` and retried on the next tick. No-op if already running.
+   */
+  startMaintenance(options: PoolMaintenanceOptions = {}): void {
+    if (this.maintenance) return;
+    const intervalMs = options.intervalMs ?? DEFAULT_MAINTENANCE_INTERVAL_MS;
+    const loop: NonNullable<GasSponsor["maintenance"]> = {
+      scheduler: options.scheduler ?? defaultScheduler,
+      timer: undefined,
+      pass: null,
+      stopped: false,
+    };
+    const schedule = () => {
+      loop.timer = loop.scheduler.setTimeout(() => {
+        loop.pass = this.runMaintenance(options)
+          .then(
+            () => undefined,
+            (err: unknown) => {
+              try {
+                options.onError?.(err);
+              } catch {
+                // Callback errors must not stop the loop
+              }
+            },
+          )
+          .finally(() => {
+            loop.pass = null;
+            if (!loop.stopped) schedule();
+          });
+      }, intervalMs);
+    };
+    this.maintenance = loop;
+    schedule();
+  }
+
+  /**
+   * Stop the maintenance loop, waiting for a pass in progress to finish.
+   */
+  async stopMaintenance(): Promise<void> {
+    const loop = this.maintenance;
+    if (!loop) return;
+    this.maintenance = null;
+    loop.stopped = true;
+    loop.scheduler.clearTimeout(loop.timer);
+    await loop.pass;
   }
 
   /**
    * Gracefully shut down: merge remaining pool coins.
+   * Waits for pending store writes so the saved snapshot matches the chain.
+   *
+   * With a lease coordinator, coins are shared with other replicas, so they
+   * are left unmerged and this instance just stops tracking them.
    */
   async close(): Promise<void> {
-    await this.pool.close(this.client, this.signer);
+    await this.stopMaintenance();
+    await this.reconciling?.catch(() => undefined);
+    await this.withPoolLock(async () => {
+      for (const identity of this.sponsors.values()) {
+        if (this.leases) {
+          identity.pool.reset();
+        } else {
+          await identity.pool.close(this.client, identity.signer);
+        }
+      }
+    });
     this.initialized = false;
+    for (const identity of this.sponsors.values()) {
+      await identity.pool.flush();
+      // Retiring sponsors are done: their pools are closed
+      if (identity.retirement) {
+        this.sponsors.delete(identity.address);
+        identity.retirement.resolve();
+        this.emit("sponsorRetired", { address: identity.address });
+      }
+    }
   }
 
   /**
@@ -111,15 +529,45 @@ export class GasSponsor {
    * @param options.sender - The sender's address (who signs as sender)
    * @param options.transactionKindBytes - Transaction kind bytes (base64 or Uint8Array)
    * @param options.gasBudget - Optional explicit gas budget (auto-estimated if omitted)
-   * @param options.policy - Optional per-request policy override
+   * @param options.policyName - Optional named policy to apply
+   * @param options.policy - Optional extra policy for this request
    * @returns SponsoredTransaction with bytes, signature, and reservation handle
    */
-  async sponsorTransaction(options: {
-    sender: string;
-    transactionKindBytes: string | Uint8Array;
-    gasBudget?: bigint;
-    policy?: SponsorPolicy;
-  }): Promise<SponsoredTransaction> {
+  async sponsorTransaction(
+    options: SponsorRequest,
+  ): Promise<SponsoredTransaction> {
+    const attributes = {
+      "gas_station.sender": options.sender,
+      "gas_station.policy_name": options.policyName,
+      "gas_station.requested_gas_budget": options.gasBudget?.toString(),
+    };
+    return this.trace("sponsorTransaction", attributes, async (span) => {
+      try {
+        const result = await this.sponsor(options);
+        span.setAttributes({
+          "gas_station.coin.object_id": result.reservation.objectId,
+          "gas_station.coin.count":
+            1 + (result.reservation.mergedCoinIds?.length ?? 0),
+          "gas_station.gas_budget": result.gasBudget.toString(),
+          "gas_station.gas_price": result.gasPrice.toString(),
+          "gas_station.sponsor_address": result.sponsorAddress,
+          "gas_station.transaction_digest":
+            result.reservation.transactionDigest,
+        });
+        return result;
+      } catch (err) {
+        if (err instanceof GasStationError) {
+          span.setAttribute("gas_station.error_code", err.code);
+          this.emit("rejected", { sender: options.sender, error: err });
+        }
+        throw err;
+      }
+    });
+  }
+
+  private async sponsor(
+    options: SponsorRequest,
+  ): Promise<SponsoredTransaction> {
     if (!this.initialized) {
       throw new GasStationError(
         "POOL_NOT_INITIALIZED",
@@ -128,8 +576,7 @@ export class GasSponsor {
     }
 
     const { sender, transactionKindBytes, gasBudget } = options;
-    const policy = options.policy ?? this.defaultPolicy;
-    const sponsorAddress = this.signer.toSuiAddress();
+    const policy = this.effectivePolicy(options);
 
     // 0. Validate sender address format
     if (!SUI_ADDRESS_RE.test(sender)) {
@@ -141,20 +588,91 @@ export class GasSponsor {
     }
 
     // 1. Check epoch freshness — reject during boundary window
-    const gasPrice = await this.getGasPrice();
+    const gasPrice = await this.trace("getGasPrice", {}, () =>
+      this.getGasPrice(),
+    );
 
-    // 2. Validate policy if provided
+    // 2. Validate policy if provided. The cap it returns (maxBudgetPerTx or
+    // a matching budgetCaps entry, tightest across composed policies)
+    // bounds the gas budget below.
+    let maxBudget: bigint | undefined;
+    let quotas: QuotaPolicy[] = [];
     if (policy) {
       const kindBytes =
         typeof transactionKindBytes === "string"
           ? fromBase64(transactionKindBytes)
           : transactionKindBytes;
-      await validatePolicy(policy, sender, kindBytes, gasBudget ?? 0n);
+      ({ maxBudget, quotas } = await this.trace(
+        "checkPolicy",
+        { "gas_station.sender": sender },
+        () => checkPolicy(policy, sender, kindBytes, gasBudget ?? 0n),
+      ));
+    }
+
+    // 2a. Count this request against the rate limits it was admitted under
+    if (quotas.length > 0) {
+      await this.trace("consumeQuota", { "gas_station.sender": sender }, () =>
+        this.quotas.consumeTransaction(quotas, sender),
+      );
+    }
+
+    // 2b. Settle expired reservations against the chain in the background,
+    // so the lookups stay off this request's path
+    this.reconcileExpired().catch(() => {
+      // Failed passes are retried on the next request or maintenance pass
+    });
+
+    // 2c. Sponsors that may take this request, most available coins first
+    const candidates = this.route(options.policyName);
+    if (candidates.length === 0) {
+      throw new GasStationError(
+        "POOL_EXHAUSTED",
+        "No active sponsor takes this request. Add one with addSponsor().",
+        { sender, policyName: options.policyName },
+      );
     }
 
-    // 3. Reserve a gas coin from the pool
-    const coin = this.pool.reserve(gasBudget);
-    if (!coin) {
+    // 2d. With tiered coins, estimate the budget up front so the smallest
+    // coin that covers it can be reserved
+    const estimatedBudget =
+      gasBudget === undefined && candidates[0].pool.tiered
+        ? await this.trace("estimateGasBudget", {}, async (span) => {
+            const estimate = await this.estimateGasBudget(
+              candidates[0],
+              transactionKindBytes,
+              sender,
+              gasPrice,
+              maxBudget ?? this.defaultMaxBudget,
+            );
+            span.setAttribute("gas_station.gas_budget", estimate.toString());
+            return estimate;
+          })
+        : undefined;
+
+    // 3. Reserve gas coins from the pool (and lease them, if coordinated).
+    // A budget no single coin covers is paid with several (gas smashing).
+    // An exhausted sponsor hands over to the next candidate.
+    const budget = gasBudget ?? estimatedBudget;
+    const reserved = await this.trace(
+      "reserveGasCoins",
+      {
+        "gas_station.gas_budget": budget?.toString(),
+      },
+      async (span) => {
+        for (const identity of candidates) {
+          const coins = await this.reserveGasCoins(identity, budget);
+          if (!coins) continue;
+          span.setAttributes({
+            "gas_station.sponsor_address": identity.address,
+            "gas_station.coin.object_id": coins[0].objectId,
+            "gas_station.coin.count": coins.length,
+          });
+          return { identity, coins };
+        }
+        return null;
+      },
+    );
+    if (!reserved) {
       // Fire depletion callback (non-blocking) before throwing
       if (this.onPoolDepleted) {
         try {
@@ -166,15 +684,20 @@ export class GasSponsor {
       throw new GasStationError(
         "POOL_EXHAUSTED",
         "No gas coins available. Wait for in-flight transactions to complete.",
-        { poolStats: this.pool.getStats() },
+        { poolStats: this.getStats() },
       );
     }
+    const { identity, coins } = reserved;
+    const sponsorAddress = identity.address;
 
     // Proactive low-pool warning: fire onPoolDepleted when the last coin
     // is taken, giving operators a chance to replenish before the next
     // request fails. This addresses silent pool depletion from expired
     // reservations (coins deleted by recycleExpired but never reported).
-    if (this.onPoolDepleted && this.pool.getStats().available === 0) {
+    if (
+      this.onPoolDepleted &&
+      candidates.every((c) => c.pool.getStats().available === 0)
+    ) {
       try {
         this.onPoolDepleted(this.getStats());
       } catch {
@@ -182,47 +705,61 @@ export class GasSponsor {
       }
     }
 
+    const [coin, ...mergedCoins] = coins;
+    const gasCoinIds = coins.map((c) => c.objectId);
+    let spendHold: SpendHold | undefined;
     try {
       // 4. Reconstruct transaction from kind bytes
-      let tx: Transaction;
-      try {
-        tx = Transaction.fromKind(transactionKindBytes);
-      } catch (err) {
-        throw new GasStationError(
-          "BUILD_FAILED",
-          `Invalid transaction kind bytes: ${err instanceof Error ? err.message : String(err)}`,
-          { sender },
-        );
-      }
+      const tx = await this.trace("decodeTransaction", {}, async () => {
+        let decoded: Transaction;
+        try {
+          decoded = Transaction.fromKind(transactionKindBytes);
+        } catch (err) {
+          throw new GasStationError(
+            "BUILD_FAILED",
+            `Invalid transaction kind bytes: ${err instanceof Error ? err.message : String(err)}`,
+            { sender },
+          );
+        }
 
-      // 4b. Reject gas coin manipulation (drain prevention).
-      // A malicious sender can craft kind bytes with SplitCoins(GasCoin, [amount])
-      // to extract value from the sponsor's gas coin. This check runs
-      // unconditionally unless the operator explicitly opts in via policy.
-      if (!policy?.allowGasCoinUsage) {
-        assertNoGasCoinUsage(tx.getData().commands, sender);
-      }
+        // 4b. Reject gas coin manipulation (drain prevention).
+        // A malicious sender can craft kind bytes with SplitCoins(GasCoin, [amount])
+        // to extract value from the sponsor's gas coin. This check runs
+        // unconditionally unless the operator explicitly opts in via policy.
+        if (!policy || !allowsGasCoinUsage(policy)) {
+          assertNoGasCoinUsage(decoded.getData().commands, sender);
+        }
+        return decoded;
+      });
 
       // 5. Attach gas data
       tx.setSender(sender);
       tx.setGasOwner(sponsorAddress);
-      tx.setGasPayment([
-        {
-          objectId: coin.objectId,
-          version: coin.version,
-          digest: coin.digest,
-        },
-      ]);
+      tx.setGasPayment(
+        coins.map((c) => ({
+          objectId: c.objectId,
+          version: c.version,
+          digest: c.digest,
+        })),
+      );
       tx.setGasPrice(gasPrice);
+      // The sender can only submit during this epoch, so an unreported
+      // reservation's coins can be reused safely once it has passed
+      const expirationEpoch = this.gasPriceCache?.epoch;
+      if (expirationEpoch !== undefined) {
+        tx.setExpiration({ Epoch: expirationEpoch });
+      }
 
       // 6. Set gas budget (defense-in-depth: always cap, matching PTE pattern)
       if (gasBudget !== undefined) {
         tx.setGasBudget(gasBudget);
-      } else if (policy?.maxBudgetPerTx !== undefined) {
+      } else if (estimatedBudget !== undefined) {
+        tx.setGasBudget(estimatedBudget);
+      } else if (maxBudget !== undefined) {
         // Use policy max as ceiling for auto-estimation. This prevents
         // the dry-run from estimating an arbitrarily high budget, and
         // avoids wasting RPC resources + signing before catching the violation.
-        tx.setGasBudget(policy.maxBudgetPerTx);
+        tx.setGasBudget(maxBudget);
       } else {
         // No explicit budget and no policy cap — fall back to targetCoinBalance.
         // Mirrors ParallelTransactionExecutor's setGasBudgetIfNotSet(minimumCoinBalance)
@@ -231,71 +768,257 @@ export class GasSponsor {
       }
 
       // 7. Build full transaction bytes
-      let txBytes: Uint8Array;
-      try {
-        txBytes = await tx.build({ client: this.client });
-      } catch (err) {
-        throw new GasStationError(
-          "BUILD_FAILED",
-          `Transaction build failed: ${err instanceof Error ? err.message : String(err)}`,
-          { sender, sponsorAddress },
-        );
-      }
+      const buildStart = performance.now();
+      const txBytes = await this.trace(
+        "buildTransaction",
+        { "gas_station.coin.object_id": coin.objectId },
+        async () => {
+          try {
+            return await tx.build({ client: this.client });
+          } catch (err) {
+            throw new GasStationError(
+              "BUILD_FAILED",
+              `Transaction build failed: ${err instanceof Error ? err.message : String(err)}`,
+              { sender, sponsorAddress },
+            );
+          }
+        },
+      );
+      const buildMs = performance.now() - buildStart;
 
-      // 8. Sign as sponsor
-      let sponsorSignature: string;
-      try {
-        const signed = await this.signer.signTransaction(txBytes);
-        sponsorSignature = signed.signature;
-      } catch (err) {
-        throw new GasStationError(
-          "SIGN_FAILED",
-          `Sponsor signing failed: ${err instanceof Error ? err.message : String(err)}`,
+      // 7b. Record the expected digest so an unreported reservation can be
+      // reconciled against the chain once it expires
+      const transactionDigest =
+        TransactionDataBuilder.getDigestFromBytes(txBytes);
+      identity.pool.setTransactionDigest(
+        coin.objectId,
+        transactionDigest,
+        expirationEpoch,
+      );
+
+      // 7c. Simulate (opt-in, or required by protectSponsorAssets) — don't
+      // pay gas for transactions that abort
+      const protectAssets = policy ? protectsSponsorAssets(policy) : false;
+      const simulation =
+        this.simulateTransactions || protectAssets
+          ? await this.trace("simulate", {}, () =>
+              this.simulate(txBytes, sender),
+            )
+          : undefined;
+
+      // 7d. Nothing but the gas fee may leave the sponsor
+      if (simulation && protectAssets) {
+        await this.trace("checkSponsorAssets", {}, () =>
+          this.assertSponsorAssetsUntouched(
+            simulation,
+            gasCoinIds,
+            sender,
+            sponsorAddress,
+          ),
         );
       }
 
-      // 9. Extract the actual gas budget from built transaction
+      // 8. Extract the actual gas budget from built transaction
       // (may differ from requested if auto-estimated)
       const builtTx = Transaction.from(txBytes);
       const builtBudget = BigInt(builtTx.getData().gasData.budget ?? 0);
 
-      // 10. Post-build budget check — catches auto-estimated budgets
-      // that exceed policy.maxBudgetPerTx (pre-build check only saw
+      // 9. Post-build budget check — catches auto-estimated budgets
+      // that exceed the policy cap (pre-build check only saw
       // the explicit gasBudget, which may have been omitted/0n).
-      if (
-        policy?.maxBudgetPerTx !== undefined &&
-        builtBudget > policy.maxBudgetPerTx
-      ) {
+      if (maxBudget !== undefined && builtBudget > maxBudget) {
         throw new GasStationError(
           "POLICY_VIOLATION",
-          `Auto-estimated gas budget ${builtBudget} exceeds policy max ${policy.maxBudgetPerTx}`,
-          { sender, builtBudget, maxBudgetPerTx: policy.maxBudgetPerTx },
+          `Auto-estimated gas budget ${builtBudget} exceeds policy max ${maxBudget}`,
+          { sender, builtBudget, maxBudgetPerTx: maxBudget },
+        );
+      }
+
+      // 10. Daily spend caps — hold the full budget, since actual gas used
+      // is only known once the transaction executes. Settled on report or
+      // expiry; returned if sponsorship fails from here on.
+      if (quotas.length > 0) {
+        spendHold = await this.trace(
+          "reserveSpend",
+          { "gas_station.gas_budget": builtBudget.toString() },
+          () => this.quotas.reserveSpend(quotas, sender, builtBudget),
+        );
+      }
+
+      // 11. Hold the coins' leases for as long as the signed transaction
+      // can execute, so no other replica signs over the same versions
+      if (this.leases) {
+        await this.trace(
+          "renewLeases",
+          { "gas_station.coin.count": gasCoinIds.length },
+          () => this.renewLeases(gasCoinIds),
+        );
+      }
+
+      // 12. Sign as sponsor. Slow signers are rate-limited by the sign
+      // queue; a timeout releases the coins like any other failure. The
+      // signature must also arrive before the reservation expires, or the
+      // coins could be handed out again while it is in use.
+      const reservationLeftMs =
+        this.reservationTimeoutMs -
+        (Date.now() - (coin.reservedAt ?? Date.now()));
+      if (reservationLeftMs <= 0) {
+        throw new GasStationError(
+          "SIGN_TIMEOUT",
+          "Gas coin reservation expired before signing",
+          { timeoutMs: this.reservationTimeoutMs, queued: false },
         );
       }
+      const signTimeoutMs =
+        this.signTimeoutMs !== undefined &&
+        this.signTimeoutMs < reservationLeftMs
+          ? this.signTimeoutMs
+          : reservationLeftMs;
+      const signStart = performance.now();
+      const sponsorSignature = await this.trace(
+        "signTransaction",
+        { "gas_station.transaction_digest": transactionDigest },
+        async () => {
+          try {
+            return await identity.signQueue.sign(txBytes, signTimeoutMs);
+          } catch (err) {
+            if (err instanceof GasStationError) throw err;
+            throw new GasStationError(
+              "SIGN_FAILED",
+              `Sponsor signing failed: ${err instanceof Error ? err.message : String(err)}`,
+            );
+          }
+        },
+      );
+      const signMs = performance.now() - signStart;
 
+      identity.pool.setSponsorship(coin.objectId, {
+        sender,
+        moveTargets: extractMoveTargetsFromCommands(tx.getData().commands),
+        ...(spendHold ? { spendHold } : {}),
+      });
+      const reservation: GasCoinReservation = {
+        objectId: coin.objectId,
+        reservedAt: coin.reservedAt ?? Date.now(),
+        transactionDigest,
+        ...(mergedCoins.length > 0
+          ? { mergedCoinIds: mergedCoins.map((c) => c.objectId) }
+          : {}),
+        ...(this.leases ? { leaseHolder: this.instanceId } : {}),
+      };
+      this.emit("sponsored", {
+        sender,
+        reservation,
+        gasBudget: builtBudget,
+        buildMs,
+        signMs,
+      });
       return {
         transactionBytes: toBase64(txBytes),
         sponsorSignature,
         gasBudget: builtBudget,
         gasPrice,
-        reservation: {
-          objectId: coin.objectId,
-          reservedAt: coin.reservedAt ?? Date.now(),
-        },
+        sponsorAddress,
+        reservation,
+        ...(simulation ? { simulation } : {}),
       };
     } catch (err) {
-      // On any error, release the reserved coin back to the pool
-      this.pool.release(coin.objectId);
+      // On any error, release the reserved coins back to the pool
+      this.releaseCoins(gasCoinIds);
+      if (spendHold) this.refundSpend(sender, spendHold);
       throw err;
     }
   }
 
+  /**
+   * Sponsor a transaction, collect the sender's signature, submit it, and
+   * recycle the gas coin from the effects — the client never has to call
+   * reportExecution().
+   *
+   * @param options.signTransaction - Produces the sender's signature over the
+   *   sponsored transaction bytes, e.g. `(bytes) => keypair.signTransaction(bytes)`
+   * @returns The execution response (with effects)
+   */
+  async sponsorAndExecute(
+    options: SponsorRequest & {
+      signTransaction: (
+        transactionBytes: Uint8Array,
+      ) => Promise<{ signature: string }>;
+    },
+  ): Promise<SuiTransactionBlockResponse> {
+    const { signTransaction, ...request } = options;
+    const sponsored = await this.sponsorTransaction(request);
+
+    let senderSignature: string;
+    try {
+      const signed = await signTransaction(
+        fromBase64(sponsored.transactionBytes),
+      );
+      senderSignature = signed.signature;
+    } catch (err) {
+      // Nothing was submitted — the coins can go straight back to the pool
+      const { objectId, mergedCoinIds = [] } = sponsored.reservation;
+      const sponsorship = this.poolOf(objectId)?.getCoin(objectId)?.sponsorship;
+      if (sponsorship?.spendHold) {
+        this.refundSpend(sponsorship.sender, sponsorship.spendHold);
+      }
+      this.releaseCoins([objectId, ...mergedCoinIds]);
+      throw new GasStationError(
+        "SIGN_FAILED",
+        `Sender signing failed: ${err instanceof Error ? err.message : String(err)}`,
+        { sender: request.sender },
+      );
+    }
+
+    return this.executeSponsoredTransaction(sponsored, senderSignature);
+  }
+
+  /**
+   * Submit a sponsored transaction with the sender's signature and report
+   * its effects to the pool.
+   *
+   * If submission fails, the reservation is left in place: the transaction
+   * may still have landed, so the coin is not reused until it is reported
+   * or its reservation expires.
+   */
+  async executeSponsoredTransaction(
+    sponsored: Pick<
+      SponsoredTransaction,
+      "transactionBytes" | "sponsorSignature" | "reservation"
+    >,
+    senderSignature: string,
+  ): Promise<SuiTransactionBlockResponse> {
+    let response: SuiTransactionBlockResponse;
+    try {
+      response = await this.client.executeTransactionBlock({
+        transactionBlock: sponsored.transactionBytes,
+        signature: [senderSignature, sponsored.sponsorSignature],
+        options: { showEffects: true },
+      });
+    } catch (err) {
+      throw new GasStationError(
+        "EXECUTION_FAILED",
+        `Transaction execution failed: ${err instanceof Error ? err.message : String(err)}`,
+        { reservation: sponsored.reservation },
+      );
+    }
+
+    // Failed transactions still consume gas and bump the coin's version,
+    // so effects are reported regardless of execution status.
+    this.reportExecution(sponsored.reservation, response.effects!);
+    return response;
+  }
+
   /**
    * Report transaction execution results.
    * Updates the pool coin with its new ObjectRef from the effects.
    *
    * MUST be called after every sponsored transaction executes.
    * Pass `response.effects` from executeTransactionBlock({ options: { showEffects: true } }).
+   *
+   * Throws INVALID_EFFECTS if the coin is no longer reserved for
+   * `reservation.transactionDigest` — e.g. a replayed report after the coin
+   * was reserved again — without touching the pool or the lease.
    */
   reportExecution(
     reservation: GasCoinReservation,
@@ -308,27 +1031,878 @@ export class GasSponsor {
           "Ensure executeTransactionBlock was called with { options: { showEffects: true } }.",
       );
     }
-    this.pool.updateFromEffects(effects, reservation.objectId);
+    const pool = this.poolOf(reservation.objectId);
+    const before = pool?.getCoin(reservation.objectId);
+    this.assertCurrentReport(reservation, before, effects);
+    const balanceBefore = before?.balance;
+    const mergedCoinIds =
+      before?.mergedCoinIds ?? reservation.mergedCoinIds ?? [];
+    const mergedBalance = mergedCoinIds.reduce(
+      (sum, id) => sum + (pool?.getCoin(id)?.balance ?? 0n),
+      0n,
+    );
+    const gasCharged =
+      pool?.updateFromEffects(effects, reservation.objectId) ?? null;
+
+    // Merged coins no longer exist; an empty balance at the transaction's
+    // version makes other replicas drop them.
+    // Releases only with a newer ref than the published one, so a replay
+    // cannot free a later reservation's lease on another replica
+    const gasRef = effects.gasObject.reference;
+    const holder = reservation.leaseHolder;
+    for (const id of mergedCoinIds) {
+      this.releaseLease(
+        id,
+        { version: gasRef.version, digest: gasRef.digest, balance: 0n },
+        holder,
+        { ifNewer: true },
+      );
+    }
+
+    // Publish the new ref so the next replica to lease this coin is current
+    if (balanceBefore !== undefined && gasCharged !== null) {
+      const remaining = balanceBefore + mergedBalance - gasCharged;
+      this.releaseLease(
+        reservation.objectId,
+        {
+          version: gasRef.version,
+          digest: gasRef.digest,
+          balance: remaining < 0n ? 0n : remaining,
+        },
+        holder,
+        { ifNewer: true },
+      );
+    } else {
+      this.releaseLease(reservation.objectId, undefined, holder);
+    }
+
+    // Only the reserving replica knows the sponsorship
+    const sponsorship =
+      before?.transactionDigest === reservation.transactionDigest
+        ? before.sponsorship
+        : undefined;
+    const record =
+      gasCharged !== null
+        ? this.recordSpend(
+            reservation.objectId,
+            reservation.transactionDigest,
+            sponsorship,
+            effects,
+          )
+        : undefined;
+    this.emit("executed", { objectId: reservation.objectId, effects, record });
+    this.retireDrained();
+  }
+
+  /**
+   * Check that a report is for the coin's current reservation. The coin
+   * must be reserved here for the reported transaction — or, for another
+   * replica's reservation, the effects must move the coin past the version
+   * this replica knows.
+   */
+  private assertCurrentReport(
+    reservation: GasCoinReservation,
+    coin: CoinEntry | undefined,
+    effects: ExecutionEffects,
+  ): void {
+    const foreign =
+      this.leases !== undefined &&
+      reservation.leaseHolder !== undefined &&
+      reservation.leaseHolder !== this.instanceId;
+    const current =
+      coin?.status === "reserved"
+        ? coin.transactionDigest === reservation.transactionDigest
+        : foreign &&
+          coin !== undefined &&
+          BigInt(effects.gasObject.reference.version) > BigInt(coin.version);
+    if (!current) {
+      throw new GasStationError(
+        "INVALID_EFFECTS",
+        `Coin ${reservation.objectId} is not reserved for transaction ${reservation.transactionDigest}`,
+        { reservation },
+      );
+    }
+  }
+
+  /**
+   * Report a sponsored transaction from its reservation alone. The effects
+   * are fetched from the chain by `reservation.transactionDigest` rather
+   * than taken from the caller, so an untrusted client (e.g. over HTTP)
+   * cannot fabricate gas usage. Waits up to `timeoutMs` (default 10s) for
+   * the transaction to be indexed.
+   *
+   * Throws INVALID_EFFECTS if the transaction is not found in time or did
+   * not pay gas with the reserved coin.
+   */
+  async reportTransaction(
+    reservation: GasCoinReservation,
+    options: { timeoutMs?: number } = {},
+  ): Promise<void> {
+    let effects: ExecutionEffects | null | undefined;
+    try {
+      const response = await this.client.waitForTransaction({
+        digest: reservation.transactionDigest,
+        options: { showEffects: true },
+        timeout: options.timeoutMs ?? DEFAULT_REPORT_LOOKUP_TIMEOUT_MS,
+      });
+      effects = response.effects;
+    } catch (err) {
+      throw new GasStationError(
+        "INVALID_EFFECTS",
+        `Transaction ${reservation.transactionDigest} not found: ${err instanceof Error ? err.message : String(err)}`,
+        { reservation },
+      );
+    }
+    const gasCoin = effects?.gasObject?.reference?.objectId;
+    if (
+      !gasCoin ||
+      normalizeSuiAddress(gasCoin) !== normalizeSuiAddress(reservation.objectId)
+    ) {
+      throw new GasStationError(
+        "INVALID_EFFECTS",
+        `Transaction ${reservation.transactionDigest} did not pay gas with coin ${reservation.objectId}`,
+        { reservation },
+      );
+    }
+    this.reportExecution(reservation, effects!);
   }
 
   /**
-   * Get current pool and gas price statistics for monitoring.
+   * Explain how the policies would treat a request, without sponsoring it:
+   * every rule of the default, named and per-request policies, pass or fail.
+   * No coin is reserved and no quota is consumed. protectSponsorAssets is
+   * checked with a dry run against an available coin.
+   */
+  async explainPolicy(request: SponsorRequest): Promise<PolicyDecision> {
+    const policy = this.effectivePolicy(request);
+    const kindBytes =
+      typeof request.transactionKindBytes === "string"
+        ? fromBase64(request.transactionKindBytes)
+        : request.transactionKindBytes;
+    return evaluatePolicy(
+      policy ?? {},
+      request.sender,
+      kindBytes,
+      request.gasBudget ?? 0n,
+      { checkSponsorAssets: () => this.explainSponsorAssets(request) },
+    );
+  }
+
+  /**
+   * Get current pool and gas price statistics for monitoring, summed over
+   * all sponsor keys and broken down per key in `sponsors`.
    */
   getStats(): PoolStats {
-    const poolStats = this.pool.getStats();
+    const sponsors: SponsorStats[] = [...this.sponsors.values()].map(
+      ({ address, pool, signQueue, retirement }) => {
+        const stats = pool.getStats();
+        return {
+          address,
+          status: retirement ? "draining" : "active",
+          totalCoins: stats.total,
+          availableCoins: stats.available,
+          reservedCoins: stats.reserved,
+          totalBalance: stats.totalBalance,
+          signsInFlight: signQueue.inFlight,
+          signsQueued: signQueue.queued,
+        };
+      },
+    );
+    const sum = (
+      key: "totalCoins" | "availableCoins" | "reservedCoins" | "signsInFlight",
+    ) => sponsors.reduce((total, s) => total + s[key], 0);
+    const active = sponsors.find((s) => s.status === "active");
     return {
-      totalCoins: poolStats.total,
-      availableCoins: poolStats.available,
-      reservedCoins: poolStats.reserved,
-      totalBalance: poolStats.totalBalance,
-      sponsorAddress: this.signer.toSuiAddress(),
+      totalCoins: sum("totalCoins"),
+      availableCoins: sum("availableCoins"),
+      reservedCoins: sum("reservedCoins"),
+      totalBalance: sponsors.reduce((total, s) => total + s.totalBalance, 0n),
+      ...(active ? { sponsorAddress: active.address } : {}),
       currentEpoch: this.gasPriceCache?.epoch ?? "unknown",
       gasPrice: this.gasPriceCache?.price ?? 0n,
+      signsInFlight: sum("signsInFlight"),
+      signsQueued: sponsors.reduce((total, s) => total + s.signsQueued, 0),
+      sponsors,
     };
   }
 
   // ─── Private Helpers ────────────────────────────────────────────────
 
+  /**
+   * Dry-run built transaction bytes. Throws SIMULATION_FAILED if the dry
+   * run errors or the transaction would fail on-chain.
+   */
+  private async simulate(
+    txBytes: Uint8Array,
+    sender: string,
+  ): Promise<SimulationResult> {
+    let response: Awaited<
+      ReturnType<SuiJsonRpcClient["dryRunTransactionBlock"]>
+    >;
+    try {
+      response = await this.client.dryRunTransactionBlock({
+        transactionBlock: txBytes,
+      });
+    } catch (err) {
+      throw new GasStationError(
+        "SIMULATION_FAILED",
+        `Transaction simulation failed: ${err instanceof Error ? err.message : String(err)}`,
+        { sender },
+      );
+    }
+
+    const simulation = {
+      effects: response.effects,
+      balanceChanges: response.balanceChanges ?? [],
+      objectChanges: response.objectChanges ?? [],
+    };
+    if (response.effects.status.status !== "success") {
+      const error = response.effects.status.error ?? "unknown error";
+      throw new GasStationError(
+        "SIMULATION_FAILED",
+        `Transaction would fail: ${error}`,
+        { sender, error, ...simulation },
+      );
+    }
+    return simulation;
+  }
+
+  /**
+   * Estimate the gas budget by dev-inspecting the transaction kind as the
+   * sender — no gas data to build and no coin to pick. Applies the SDK's
+   * own formula (computation + storage − rebate, plus a safety overhead),
+   * clamped to `ceiling`.
+   */
+  private async estimateGasBudget(
+    identity: SponsorIdentity,
+    transactionKindBytes: string | Uint8Array,
+    sender: string,
+    gasPrice: bigint,
+    ceiling: bigint,
+  ): Promise<bigint> {
+    // Empty pool — reserving fails with POOL_EXHAUSTED right after
+    if (!identity.pool.largestAvailable()) return ceiling;
+
+    try {
+      const response = await this.client.devInspectTransactionBlock({
+        sender,
+        transactionBlock: transactionKindBytes,
+        gasPrice,
+      });
+      const { status, gasUsed } = response.effects;
+      if (status.status !== "success") {
+        throw new Error(status.error ?? "dev inspect failed");
+      }
+
+      const base =
+        BigInt(gasUsed.computationCost) + GAS_SAFE_OVERHEAD * gasPrice;
+      const withStorage =
+        base + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+      const estimate = withStorage > base ? withStorage : base;
+      return estimate < ceiling ? estimate : ceiling;
+    } catch (err) {
+      throw new GasStationError(
+        "BUILD_FAILED",
+        `Gas estimation failed: ${err instanceof Error ? err.message : String(err)}`,
+        { sender },
+      );
+    }
+  }
+
+  /**
+   * Build a request for a dry run against a pool coin, without reserving
+   * it. The budget is capped by the coin's balance.
+   */
+  private buildDryRun(
+    identity: SponsorIdentity,
+    coin: CoinEntry,
+    transactionKindBytes: string | Uint8Array,
+    sender: string,
+    gasPrice: bigint,
+    budget: bigint,
+  ): Promise<Uint8Array> {
+    const tx = Transaction.fromKind(transactionKindBytes);
+    tx.setSender(sender);
+    tx.setGasOwner(identity.address);
+    tx.setGasPayment([
+      { objectId: coin.objectId, version: coin.version, digest: coin.digest },
+    ]);
+    tx.setGasPrice(gasPrice);
+    tx.setGasBudget(coin.balance < budget ? coin.balance : budget);
+    return tx.build({ client: this.client });
+  }
+
+  /**
+   * protectSponsorAssets for explainPolicy(): dry-run the request against
+   * the largest available coin of the sponsor it would be routed to, and
+   * report what it would take from that sponsor.
+   */
+  private async explainSponsorAssets(
+    request: SponsorRequest,
+  ): Promise<string[]> {
+    const [identity] = this.route(request.policyName);
+    const coin = identity?.pool.largestAvailable();
+    if (!identity || !coin) {
+      throw new Error("no gas coin available to simulate with");
+    }
+    const gasPrice = await this.getGasPrice();
+    const txBytes = await this.buildDryRun(
+      identity,
+      coin,
+      request.transactionKindBytes,
+      request.sender,
+      gasPrice,
+      request.gasBudget ?? this.defaultMaxBudget,
+    );
+    const simulation = await this.simulate(txBytes, request.sender);
+    return this.sponsorAssetChanges(
+      simulation,
+      [coin.objectId],
+      request.sender,
+      identity.address,
+    );
+  }
+
+  /**
+   * Reject a simulated transaction that takes sponsor assets beyond the gas
+   * fee.
+   */
+  private async assertSponsorAssetsUntouched(
+    simulation: SimulationResult,
+    gasCoinIds: string[],
+    sender: string,
+    sponsorAddress: string,
+  ): Promise<void> {
+    const findings = await this.sponsorAssetChanges(
+      simulation,
+      gasCoinIds,
+      sender,
+      sponsorAddress,
+    );
+    if (findings.length > 0) {
+      throw new GasStationError(
+        "POLICY_VIOLATION",
+        `Transaction would move sponsor assets: ${findings.join("; ")}`,
+        { sender, findings },
+      );
+    }
+  }
+
+  /**
+   * What a simulated transaction takes from the sponsor beyond the gas fee.
+   * Changed objects are looked up, MAX_OBJECTS_PER_LOOKUP at a time, to find
+   * those the sponsor owned before the transaction.
+   */
+  private async sponsorAssetChanges(
+    simulation: SimulationResult,
+    gasCoinIds: string[],
+    sender: string,
+    sponsorAddress: string,
+  ): Promise<string[]> {
+    const changed = changedObjectIds(simulation, gasCoinIds);
+
+    const objects: Awaited<ReturnType<SuiJsonRpcClient["multiGetObjects"]>> =
+      [];
+    try {
+      for (let i = 0; i < changed.length; i += MAX_OBJECTS_PER_LOOKUP) {
+        const batch = await this.client.multiGetObjects({
+          ids: changed.slice(i, i + MAX_OBJECTS_PER_LOOKUP),
+          options: { showOwner: true },
+        });
+        objects.push(...batch);
+      }
+    } catch (err) {
+      throw new GasStationError(
+        "SIMULATION_FAILED",
+        `Could not look up owners of changed objects: ${err instanceof Error ? err.message : String(err)}`,
+        { sender },
+      );
+    }
+    const sponsor = normalizeSuiAddress(sponsorAddress);
+    const sponsorObjectIds = changed.filter(
+      (_id, i) => ownerAddress(objects[i]?.data?.owner) === sponsor,
+    );
+
+    return findSponsorAssetChanges(
+      simulation,
+      sponsorAddress,
+      sponsorObjectIds,
+    );
+  }
+
+  /**
+   * Every policy that applies to a request, ANDed: the default policy, the
+   * named policy and the per-request policy. Selecting a policy can only
+   * add rules on top of the default, never replace it.
+   */
+  private effectivePolicy(request: SponsorRequest): SponsorPolicy | undefined {
+    let named: SponsorPolicy | undefined;
+    if (request.policyName !== undefined) {
+      named = this.policies.get(request.policyName);
+      if (!named) {
+        throw new GasStationError(
+          "POLICY_VIOLATION",
+          `Unknown policy: ${request.policyName}`,
+          { sender: request.sender, policyName: request.policyName },
+        );
+      }
+    }
+
+    const layers = [
+      this.defaultPolicy,
+      named,
+      request.policy && restrictionsOnly(request.policy),
+    ].filter((p): p is SponsorPolicy => p !== undefined);
+    if (layers.length <= 1) return layers[0];
+    return { allOf: layers };
+  }
+
+  /**
+   * Set up a sponsor key with its own pool and sign queue. Throws if the
+   * key is already in use or routes a policy that isn't registered.
+   */
+  private createIdentity(options: SponsorOptions): SponsorIdentity {
+    const address = normalizeSuiAddress(options.signer.toSuiAddress());
+    if (this.sponsors.has(address)) {
+      throw new Error(`Duplicate sponsor address ${address}`);
+    }
+    for (const name of options.policyNames ?? []) {
+      if (!this.policies.has(name)) {
+        throw new Error(`Sponsor ${address} routes unknown policy "${name}"`);
+      }
+    }
+
+    const pool = new CoinPool({ ...this.poolOptions, store: options.store });
+    // The pool is internal — its events surface on the sponsor
+    for (const name of POOL_EVENTS) {
+      pool.on(name, (event) => this.emit(name, event));
+    }
+    return {
+      address,
+      signer: options.signer,
+      pool,
+      signQueue: new SignQueue(options.signer, {
+        maxConcurrent: this.maxConcurrentSigns,
+        timeoutMs: this.signTimeoutMs,
+      }),
+      policyNames: new Set(options.policyNames),
+    };
+  }
+
+  /** Sponsors taking new requests — all but the retiring ones. */
+  private activeSponsors(): SponsorIdentity[] {
+    return [...this.sponsors.values()].filter((s) => !s.retirement);
+  }
+
+  /**
+   * Active sponsors that may take a request, most available coins first:
+   * those routed its named policy, or else the general ones (without
+   * policyNames).
+   */
+  private route(policyName?: string): SponsorIdentity[] {
+    const active = this.activeSponsors();
+    const dedicated =
+      policyName === undefined
+        ? []
+        : active.filter((s) => s.policyNames.has(policyName));
+    const candidates =
+      dedicated.length > 0
+        ? dedicated
+        : active.filter((s) => s.policyNames.size === 0);
+    const available = new Map(
+      candidates.map((s) => [s, s.pool.getStats().available]),
+    );
+    return candidates.sort((a, b) => available.get(b)! - available.get(a)!);
+  }
+
+  /** The pool tracking a coin, if any sponsor's does. */
+  private poolOf(objectId: string): CoinPool | undefined {
+    for (const { pool } of this.sponsors.values()) {
+      if (pool.getCoin(objectId)) return pool;
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove retiring sponsors with no reservations left and close their
+   * pools in the background; retireSponsor() callers get the outcome.
+   * Closing waits for the pool lock, so a pass already working on the pool
+   * finishes first.
+   */
+  private retireDrained(): void {
+    for (const identity of this.sponsors.values()) {
+      const { retirement, pool, signer, address } = identity;
+      if (!retirement || pool.getStats().reserved > 0) continue;
+      this.sponsors.delete(address);
+
+      this.withPoolLock(async () => {
+        if (this.leases) {
+          pool.reset();
+        } else {
+          await pool.close(this.client, signer);
+        }
+        await pool.flush();
+      }).then(
+        () => {
+          retirement.resolve();
+          this.emit("sponsorRetired", { address });
+        },
+        (err: unknown) => retirement.reject(err),
+      );
+    }
+  }
+
+  /** Re-fetch every sponsor's coin refs, e.g. after an epoch change. */
+  private async revalidatePools(): Promise<void> {
+    for (const { pool } of this.sponsors.values()) {
+      await pool.revalidatePool(this.client);
+    }
+  }
+
+  /**
+   * Reserve a coin from the pool. With a lease coordinator, each candidate
+   * must also be leased; coins leased by another replica are skipped.
+   * A lease carrying a newer ref (published by the previous holder) is
+   * applied to the pool before the coin is used.
+   */
+  private async reserveCoin(
+    { pool }: SponsorIdentity,
+    minBalance?: bigint,
+  ): Promise<CoinEntry | null> {
+    if (!this.leases) return pool.reserve(minBalance);
+
+    // Skipped coins stay reserved locally until we're done, so the loop
+    // doesn't pick them again.
+    const skipped: string[] = [];
+    try {
+      for (;;) {
+        const coin = pool.reserve(minBalance);
+        if (!coin) return null;
+
+        let lease;
+        try {
+          lease = await this.leases.acquire(
+            coin.objectId,
+            this.instanceId,
+            this.leaseTtlMs,
+          );
+        } catch (err) {
+          skipped.push(coin.objectId);
+          throw new GasStationError(
+            "POOL_EXHAUSTED",
+            `Coin lease coordinator unavailable: ${err instanceof Error ? err.message : String(err)}`,
+            { objectId: coin.objectId },
+          );
+        }
+        if (!lease) {
+          skipped.push(coin.objectId);
+          continue;
+        }
+
+        const current = lease.latest
+          ? pool.syncRef(coin.objectId, lease.latest)
+          : coin;
+        if (!current || current.balance < (minBalance ?? 0n)) {
+          if (current) skipped.push(coin.objectId);
+          this.releaseLease(coin.objectId);
+          continue;
+        }
+        return current;
+      }
+    } finally {
+      for (const id of skipped) pool.release(id);
+    }
+  }
+
+  /**
+   * Reserve gas coins covering `budget`: a single coin if one is large
+   * enough, otherwise up to maxGasCoins coins whose balances add up to it.
+   * The extra coins are linked to the first so the pool settles them as
+   * one reservation. Returns null if the pool cannot cover the budget.
+   */
+  private async reserveGasCoins(
+    identity: SponsorIdentity,
+    budget?: bigint,
+  ): Promise<CoinEntry[] | null> {
+    const coin = await this.reserveCoin(identity, budget);
+    if (coin) return [coin];
+    if (budget === undefined || this.maxGasCoins < 2) return null;
+
+    const coins: CoinEntry[] = [];
+    let total = 0n;
+    try {
+      // Largest coins first, to cover the budget with as few as possible
+      while (total < budget && coins.length < this.maxGasCoins) {
+        const next = await this.reserveCoin(
+          identity,
+          identity.pool.largestAvailable()?.balance,
+        );
+        if (!next) break;
+        coins.push(next);
+        total += next.balance;
+      }
+    } catch (err) {
+      this.releaseCoins(coins.map((c) => c.objectId));
+      throw err;
+    }
+    if (total < budget) {
+      this.releaseCoins(coins.map((c) => c.objectId));
+      return null;
+    }
+
+    const [primary, ...merged] = coins;
+    identity.pool.linkMergedCoins(
+      primary.objectId,
+      merged.map((c) => c.objectId),
+    );
+    return coins;
+  }
+
+  /** Run a step in a tracing span named `GasSponsor.<step>`. */
+  private trace<T>(
+    step: string,
+    attributes: SpanAttributes,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    return withSpan(this.tracer, `GasSponsor.${step}`, attributes, fn);
+  }
+
+  /** Return reserved coins to their pools and release their leases. */
+  private releaseCoins(objectIds: string[]): void {
+    for (const id of objectIds) {
+      this.poolOf(id)?.release(id);
+      this.releaseLease(id);
+    }
+    this.retireDrained();
+  }
+
+  /**
+   * Run `fn` once every earlier holder of the pool lock is done. Pool
+   * passes (initialize, maintenance, rebalance, close) build transactions
+   * over the same source coins, which the pool does not track — two at
+   * once would sign conflicting transactions for them.
+   */
+  private withPoolLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.poolLock.then(fn);
+    this.poolLock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  /**
+   * Run `fn` under the pool lock while holding the maintenance lease, so
+   * only one replica reshapes the pool at a time. Resolves to null if
+   * another replica holds the lease. Without a lease coordinator, the pool
+   * lock alone serializes passes within this process.
+   */
+  private withMaintenanceLease<T>(fn: () => Promise<T>): Promise<T | null> {
+    return this.withPoolLock(async () => {
+      if (!this.leases) return fn();
+      const lock = await this.leases.acquire(
+        MAINTENANCE_LEASE_ID,
+        this.instanceId,
+        this.leaseTtlMs,
+      );
+      if (!lock) return null;
+      try {
+        return await fn();
+      } finally {
+        this.releaseLease(MAINTENANCE_LEASE_ID);
+      }
+    });
+  }
+
+  /**
+   * Reserve pool coins below a balance threshold, for a top-up or
+   * rebalance. With a lease coordinator, only coins this replica can lease
+   * are kept, synced to their latest ref.
+   */
+  private async reserveLowBalanceCoins(
+    { pool }: SponsorIdentity,
+    threshold?: bigint,
+  ): Promise<CoinEntry[]> {
+    const coins = pool.reserveLowBalance(threshold);
+    if (!this.leases) return coins;
+
+    const leased: CoinEntry[] = [];
+    for (const coin of coins) {
+      let lease;
+      try {
+        lease = await this.leases.acquire(
+          coin.objectId,
+          this.instanceId,
+          this.leaseTtlMs,
+        );
+      } catch {
+        lease = null; // Coordinator unavailable — skip this coin
+      }
+      if (!lease) {
+        pool.release(coin.objectId);
+        continue;
+      }
+      const current = lease.latest
+        ? pool.syncRef(coin.objectId, lease.latest)
+        : coin;
+      if (!current) {
+        this.releaseLease(coin.objectId);
+        continue;
+      }
+      leased.push(current);
+    }
+    return leased;
+  }
+
+  /**
+   * Resolve expired reservations by looking up their transaction digests,
+   * returning unused coins to the pool instead of leaking them.
+   * Leases on settled coins are released with the coin's current ref.
+   * Overlapping calls share one pass.
+   */
+  private reconcileExpired(): Promise<void> {
+    this.reconciling ??= this.settleExpired().finally(() => {
+      this.reconciling = null;
+    });
+    return this.reconciling;
+  }
+
+  private async settleExpired(): Promise<void> {
+    for (const { pool } of this.sponsors.values()) {
+      const settled = await pool.reconcileExpired(
+        this.client,
+        Date.now(),
+        this.gasPriceCache?.epoch,
+      );
+      for (const {
+        objectId,
+        outcome,
+        transactionDigest,
+        effects,
+        gasCharged,
+        mergedCoinIds = [],
+        sponsorship,
+      } of settled) {
+        if (outcome === "pending") {
+          // Retried on the next pass; the lease outlives the epoch by
+          // leaseTtlMs in the meantime
+          this.renewLeases([objectId, ...mergedCoinIds]).catch(() => {});
+          continue;
+        }
+        const coin = pool.getCoin(objectId);
+        this.releaseLease(objectId, coin);
+        for (const id of mergedCoinIds) {
+          // Merged coins are gone once the transaction has executed
+          const gasRef = effects?.gasObject.reference;
+          this.releaseLease(
+            id,
+            gasRef
+              ? { version: gasRef.version, digest: gasRef.digest, balance: 0n }
+              : pool.getCoin(id),
+          );
+        }
+        if (effects) {
+          const record =
+            gasCharged !== undefined
+              ? this.recordSpend(
+                  objectId,
+                  transactionDigest!,
+                  sponsorship,
+                  effects,
+                )
+              : undefined;
+          this.emit("executed", { objectId, effects, record });
+        } else if (outcome === "released" && sponsorship?.spendHold) {
+          // Released coins never paid for the transaction; a dropped one
+          // may yet, so its held budget stays counted
+          this.refundSpend(sponsorship.sender, sponsorship.spendHold);
+        }
+      }
+    }
+    this.retireDrained();
+  }
+
+  /**
+   * Record a settled sponsorship in the ledger and settle its gas against
+   * the sender's spend quota. Quota settlement happens in the background —
+   * store errors must not fail reporting, the spend stays counted at the
+   * held budget (or uncounted without one).
+   */
+  private recordSpend(
+    objectId: string,
+    transactionDigest: string,
+    sponsorship: SponsorshipContext | undefined,
+    effects: ExecutionEffects,
+  ): SpendRecord | undefined {
+    if (!sponsorship) return undefined;
+    const { sender, moveTargets, spendHold } = sponsorship;
+    const record = this.ledger.record({
+      transactionDigest,
+      objectId,
+      sender,
+      moveTargets,
+      effects,
+    });
+    this.quotas
+      .recordSpend(sender, record.gasCharged, spendHold)
+      .catch(() => {});
+    return record;
+  }
+
+  /** Return a spend hold in the background; a failed refund over-counts. */
+  private refundSpend(sender: string, hold: SpendHold): void {
+    this.quotas.recordSpend(sender, 0n, hold).catch(() => {});
+  }
+
+  /**
+   * Extend this replica's leases on coins whose signed transaction may
+   * still execute: to the end of the current epoch — its expiration epoch
+   * — plus leaseTtlMs for the epoch change to be observed.
+   * Throws POOL_EXHAUSTED if a lease was lost or could not be renewed;
+   * another replica may be using the coin.
+   */
+  private async renewLeases(objectIds: string[]): Promise<void> {
+    if (!this.leases) return;
+    const epochEnd = this.gasPriceCache?.expiration ?? Date.now();
+    const ttlMs = Math.max(epochEnd - Date.now(), 0) + this.leaseTtlMs;
+    for (const objectId of objectIds) {
+      let renewed: boolean;
+      try {
+        renewed = await this.leases.renew(objectId, this.instanceId, ttlMs);
+      } catch (err) {
+        throw new GasStationError(
+          "POOL_EXHAUSTED",
+          `Could not renew the lease on gas coin ${objectId}: ${err instanceof Error ? err.message : String(err)}`,
+          { objectId },
+        );
+      }
+      if (!renewed) {
+        throw new GasStationError(
+          "POOL_EXHAUSTED",
+          `Lost the lease on gas coin ${objectId}`,
+          { objectId },
+        );
+      }
+    }
+  }
+
+  /**
+   * Release a coin lease in the background. Lease errors must not fail the
+   * caller — an unreleased lease simply expires after leaseTtlMs. `holder`
+   * defaults to this replica; reports pass the reserving replica's.
+   */
+  private releaseLease(
+    objectId: string,
+    latest?: { version: string; digest: string; balance: bigint },
+    holder = this.instanceId,
+    options?: { ifNewer?: boolean },
+  ): void {
+    if (!this.leases) return;
+    this.leases.release(objectId, holder, latest, options).catch(() => {
+      // Lease expires on its own
+    });
+  }
+
   /**
    * Get the current gas price, refreshing cache if needed.
    * Detects epoch changes and handles boundary window.
@@ -339,10 +1913,14 @@ export class GasSponsor {
     // If a previous revalidation failed, retry it now
     if (this.needsRevalidation) {
       try {
-        await this.pool.revalidatePool(this.client);
+        await this.revalidatePools();
         this.needsRevalidation = false;
-      } catch {
+      } catch (error) {
         // Still can't revalidate — continue with potentially stale pool
+        this.emit("revalidationFailed", {
+          epoch: this.gasPriceCache?.epoch ?? "unknown",
+          error,
+        });
       }
     }
 
@@ -391,13 +1969,58 @@ export class GasSponsor {
 
     // If epoch changed, revalidate pool (coin versions may have shifted)
     if (previousEpoch && previousEpoch !== currentEpoch) {
+      this.emit("epochChanged", {
+        previousEpoch,
+        epoch: currentEpoch,
+        gasPrice: this.gasPriceCache.price,
+      });
       try {
-        await this.pool.revalidatePool(this.client);
-      } catch {
+        await this.revalidatePools();
+      } catch (error) {
         // Revalidation failed — flag for retry on next getGasPrice() call.
         // Continue operating with potentially stale pool rather than crashing.
         this.needsRevalidation = true;
+        this.emit("revalidationFailed", { epoch: currentEpoch, error });
       }
     }
   }
 }
+
+// ─── Policy Registry ────────────────────────────────────────────────
+
+/**
+ * Flatten `extends` chains: a policy extending a base becomes
+ * `{ allOf: [base, own rules] }`. Throws on unknown bases and cycles, so a
+ * misconfigured registry fails at construction rather than per request.
+ */
+function resolveNamedPolicies(
+  policies: Record<string, NamedPolicy>,
+): Map<string, SponsorPolicy> {
+  const resolved = new Map<string, SponsorPolicy>();
+
+  const resolve = (name: string, chain: string[]): SponsorPolicy => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+    if (chain.includes(name)) {
+      throw new Error(
+        `Policy inheritance cycle: ${[...chain, name].join(" -> ")}`,
+      );
+    }
+    if (!Object.hasOwn(policies, name)) {
+      throw new Error(
+        `Policy "${chain[chain.length - 1]}" extends unknown policy "${name}"`,
+      );
+    }
+
+    const { extends: base, ...rules } = policies[name]!;
+    const policy =
+      base === undefined
+        ? rules
+        : { allOf: [resolve(base, [...chain, name]), rules] };
+    resolved.set(name, policy);
+    return policy;
+  };
+
+  for (const name of Object.keys(policies)) resolve(name, []);
+  return resolved;
+}
@@ -0,0 +1,293 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * GasStationClient — sender-side companion to createGasStationHandler().
+ *
+ * Wraps the full sponsored round trip: build kind bytes, request
+ * sponsorship, sign as sender, execute with both signatures, and report
+ * the transaction back so the gas coin is recycled.
+ *
+ * Usage:
+ *   const gasStation = new GasStationClient({ url: "https://gas.example.com", client });
+ *   const response = await gasStation.signAndExecuteTransaction({ transaction: tx, signer: keypair });
+ */
+import type {
+  SuiJsonRpcClient,
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from "@mysten/sui/jsonRpc";
+import type { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import { GasStationError, type GasStationErrorCode } from "./errors.js";
+import type {
+  ErrorResponseBody,
+  ReportRequestBody,
+  SponsorRequestBody,
+  SponsorResponseBody,
+} from "./http-handler.js";
+import type { GasCoinReservation } from "./types.js";
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export interface GasStationClientOptions {
+  /** Base URL the gas station handler is mounted at, e.g. "https://gas.example.com/gas" */
+  url: string;
+  /** Sui client used to build kind bytes and execute transactions */
+  client: SuiJsonRpcClient;
+  /** Extra request headers (e.g. auth), or a function producing them per request */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Retries after POOL_EXHAUSTED or SIGN_TIMEOUT before giving up. Default: 3 */
+  retries?: number;
+  /** Delay before the first retry, doubled on each further retry (ms). Default: 500 */
+  retryDelayMs?: number;
+  /** Fetch implementation. Default: global fetch */
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+}
+
+export class GasStationClient {
+  private readonly url: string;
+  private readonly client: SuiJsonRpcClient;
+  private readonly headers: GasStationClientOptions["headers"];
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly fetch: (
+    input: string,
+    init: RequestInit,
+  ) => Promise<Response>;
+
+  constructor(options: GasStationClientOptions) {
+    this.url = options.url.replace(/\/+$/, "");
+    this.client = options.client;
+    this.headers = options.headers;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Sponsor, sign, execute and report a transaction.
+   *
+   * The transaction is reported even when it fails on-chain — the gas
+   * coin's version changes regardless. If reporting itself fails, the
+   * response is still returned; the station reconciles the reservation once
+   * it expires.
+   *
+   * @param options.transaction - The transaction to sponsor (no gas data needed)
+   * @param options.signer - The sender's signer
+   * @param options.gasBudget - Optional explicit gas budget (auto-estimated if omitted)
+   * @param options.policyName - Optional named policy to request
+   * @param options.options - Response options for executeTransactionBlock (effects are always included)
+   */
+  async signAndExecuteTransaction(options: {
+    transaction: Transaction;
+    signer: Signer;
+    gasBudget?: bigint;
+    policyName?: string;
+    options?: SuiTransactionBlockResponseOptions;
+  }): Promise<SuiTransactionBlockResponse> {
+    const { transaction, signer, gasBudget, policyName } = options;
+    const sender = signer.toSuiAddress();
+
+    // 1. Build kind bytes (no gas data — the sponsor supplies it)
+    const kindBytes = await transaction.build({
+      client: this.client,
+      onlyTransactionKind: true,
+    });
+
+    // 2. Request sponsorship
+    const sponsored = await this.sponsor({
+      sender,
+      transactionKindBytes: toBase64(kindBytes),
+      gasBudget: gasBudget?.toString(),
+      policyName,
+    });
+
+    // 3. Sign as sender — only what was asked for
+    const transactionBytes = fromBase64(sponsored.transactionBytes);
+    await assertSponsoredAsRequested(transactionBytes, sponsored, {
+      kindBytes,
+      sender,
+      gasBudget,
+    });
+    let signature: string;
+    try {
+      const signed = await signer.signTransaction(transactionBytes);
+      signature = signed.signature;
+    } catch (err) {
+      throw new GasStationError(
+        "SIGN_FAILED",
+        `Sender signing failed: ${err instanceof Error ? err.message : String(err)}`,
+        { sender },
+      );
+    }
+
+    // 4. Execute with both signatures
+    let response: SuiTransactionBlockResponse;
+    try {
+      response = await this.client.executeTransactionBlock({
+        transactionBlock: sponsored.transactionBytes,
+        signature: [signature, sponsored.sponsorSignature],
+        options: { ...options.options, showEffects: true },
+      });
+    } catch (err) {
+      throw new GasStationError(
+        "EXECUTION_FAILED",
+        `Transaction execution failed: ${err instanceof Error ? err.message : String(err)}`,
+        { reservation: sponsored.reservation },
+      );
+    }
+
+    // 5. Report so the gas coin is recycled
+    try {
+      await this.reportExecution(sponsored.reservation);
+    } catch {
+      // The station reconciles the reservation by digest once it expires
+    }
+    return response;
+  }
+
+  /**
+   * POST /sponsor, retrying with exponential backoff while the pool is
+   * exhausted or the sponsor signer is overloaded. Other errors are thrown
+   * immediately.
+   */
+  async sponsor(body: SponsorRequestBody): Promise<SponsorResponseBody> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.post<SponsorResponseBody>("/sponsor", body);
+      } catch (err) {
+        const retryable =
+          err instanceof GasStationError &&
+          (err.code === "POOL_EXHAUSTED" || err.code === "SIGN_TIMEOUT");
+        if (!retryable || attempt >= this.retries) throw err;
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryDelayMs * 2 ** attempt),
+        );
+      }
+    }
+  }
+
+  /**
+   * POST /report — return the gas coin to the station's pool. The station
+   * looks the transaction's effects up on-chain by the reservation's digest.
+   */
+  async reportExecution(reservation: GasCoinReservation): Promise<void> {
+    await this.post<{ ok: true }>("/report", {
+      reservation,
+    } satisfies ReportRequestBody);
+  }
+
+  // ─── Private Helpers ────────────────────────────────────────────────
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const extraHeaders =
+      typeof this.headers === "function"
+        ? await this.headers()
+        : (this.headers ?? {});
+
+    let res: Response;
+    try {
+      res = await this.fetch(this.url + path, {
+        method: "POST",
+        headers: { ...extraHeaders, "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new GasStationError(
+        "REQUEST_FAILED",
+        `Gas station request to ${path} failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = await res.json();
+    } catch {
+      payload = undefined;
+    }
+
+    if (!res.ok) {
+      const error = payload as Partial<ErrorResponseBody> | undefined;
+      const code =
+        error?.error && error.error !== "INTERNAL_ERROR"
+          ? error.error
+          : "REQUEST_FAILED";
+      throw new GasStationError(
+        code as GasStationErrorCode,
+        error?.message ?? `Gas station returned HTTP ${res.status}`,
+        { status: res.status },
+      );
+    }
+    if (payload === undefined) {
+      throw new GasStationError(
+        "REQUEST_FAILED",
+        `Gas station returned an invalid JSON body for ${path}`,
+        { status: res.status },
+      );
+    }
+    return payload as T;
+  }
+}
+
+/**
+ * Reject sponsored bytes that differ from the request. The sender's
+ * signature authorizes whatever the station returns, so a compromised or
+ * buggy station must not swap in other commands, another sender, a gas
+ * owner other than the sponsor it names, or another budget.
+ */
+async function assertSponsoredAsRequested(
+  transactionBytes: Uint8Array,
+  sponsored: SponsorResponseBody,
+  request: { kindBytes: Uint8Array; sender: string; gasBudget?: bigint },
+): Promise<void> {
+  const mismatch = (field: string) =>
+    new GasStationError(
+      "REQUEST_FAILED",
+      `Gas station returned a transaction with a different ${field} than requested`,
+      { sender: request.sender, field },
+    );
+
+  let tx: Transaction;
+  let kindBytes: Uint8Array;
+  try {
+    tx = Transaction.from(transactionBytes);
+    kindBytes = await tx.build({ onlyTransactionKind: true });
+  } catch (err) {
+    throw new GasStationError(
+      "REQUEST_FAILED",
+      `Gas station returned undecodable transaction bytes: ${err instanceof Error ? err.message : String(err)}`,
+      { sender: request.sender },
+    );
+  }
+  const { sender, gasData } = tx.getData();
+
+  if (toBase64(kindBytes) !== toBase64(request.kindBytes)) {
+    throw mismatch("transaction kind");
+  }
+  if (
+    !sender ||
+    normalizeSuiAddress(sender) !== normalizeSuiAddress(request.sender)
+  ) {
+    throw mismatch("sender");
+  }
+  if (
+    !gasData.owner ||
+    normalizeSuiAddress(gasData.owner) !==
+      normalizeSuiAddress(sponsored.sponsorAddress)
+  ) {
+    throw mismatch("gas owner");
+  }
+  const budget = gasData.budget == null ? undefined : BigInt(gasData.budget);
+  if (
+    budget === undefined ||
+    budget !== BigInt(sponsored.gasBudget) ||
+    (request.gasBudget !== undefined && budget !== request.gasBudget)
+  ) {
+    throw mismatch("gas budget");
+  }
+}
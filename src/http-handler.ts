@@ -0,0 +1,420 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Framework-agnostic HTTP adapter around GasSponsor.
+ *
+ * Speaks the Fetch API (Request → Response), so it plugs into Bun, Deno,
+ * Cloudflare Workers, Hono, Next.js route handlers, or Node via any
+ * Request/Response bridge:
+ *
+ *   const handler = createGasStationHandler(sponsor);
+ *   export default { fetch: handler }; // Bun / Deno
+ *
+ * Routes:
+ *   POST /sponsor — SponsorRequestBody → SponsorResponseBody
+ *   POST /report  — ReportRequestBody  → { ok: true } (effects are fetched
+ *                   from the chain, never taken from the client)
+ *   GET  /stats   — PoolStats (bigints as decimal strings)
+ *   POST /explain — SponsorRequestBody → PolicyDecision (opt-in, see options)
+ *   GET  /metrics — OpenMetrics text (when `metrics` is given)
+ *
+ * Request bodies are validated against JSON Schemas (SPONSOR_REQUEST_SCHEMA,
+ * REPORT_REQUEST_SCHEMA). Errors are returned as
+ * `{ error: GasStationErrorCode, message }` with an HTTP status per code
+ * (see ERROR_STATUS). bigint values travel as decimal strings and byte
+ * arrays as base64.
+ */
+import { GasStationError, type GasStationErrorCode } from "./errors.js";
+import type { GasSponsor } from "./gas-sponsor.js";
+import type { GasStationMetrics } from "./metrics.js";
+import type {
+  GasCoinReservation,
+  SimulationResult,
+  SponsorRequest,
+} from "./types.js";
+
+// ─── Wire Types ─────────────────────────────────────────────────────
+
+export interface SponsorRequestBody {
+  sender: string;
+  /** Base64-encoded transaction kind bytes */
+  transactionKindBytes: string;
+  /** Optional gas budget in MIST, as a decimal string */
+  gasBudget?: string;
+  /** Optional named policy (GasSponsorOptions.policies) to apply */
+  policyName?: string;
+}
+
+export interface SponsorResponseBody {
+  /** Base64-encoded transaction bytes — the sender signs these */
+  transactionBytes: string;
+  sponsorSignature: string;
+  /** Gas budget in MIST, as a decimal string */
+  gasBudget: string;
+  /** Reference gas price in MIST, as a decimal string */
+  gasPrice: string;
+  /** Address of the sponsor paying for gas */
+  sponsorAddress: string;
+  reservation: GasCoinReservation;
+  /** Dry-run result, when the sponsor has `simulateTransactions` enabled */
+  simulation?: SimulationResult;
+}
+
+export interface ReportRequestBody {
+  reservation: GasCoinReservation;
+}
+
+export interface ErrorResponseBody {
+  error: GasStationErrorCode | "INTERNAL_ERROR";
+  message: string;
+}
+
+export interface GasStationHandlerOptions {
+  /** Path prefix the routes are mounted under, e.g. "/gas". Default: "" */
+  basePath?: string;
+  /**
+   * Serve POST /explain, returning the full policy decision for a request.
+   * The report reveals policy contents (allowlists, caps) — enable it only
+   * behind admin authentication. Default: false
+   */
+  explain?: boolean;
+  /** Serve GET /metrics from this exporter, for Prometheus to scrape */
+  metrics?: GasStationMetrics;
+}
+
+/** HTTP status returned for each error code. */
+const ERROR_STATUS: Record<GasStationErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  POLICY_VIOLATION: 403,
+  LOOKUP_FAILED: 503,
+  QUOTA_EXCEEDED: 429,
+  BUILD_FAILED: 422,
+  SIMULATION_FAILED: 422,
+  INVALID_EFFECTS: 400,
+  POOL_EXHAUSTED: 503,
+  POOL_NOT_INITIALIZED: 503,
+  SIGN_FAILED: 500,
+  SIGN_TIMEOUT: 504,
+  EXECUTION_FAILED: 502,
+  REQUEST_FAILED: 502,
+};
+
+// ─── Schemas ────────────────────────────────────────────────────────
+
+/** The subset of JSON Schema that request validation understands. */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer";
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: readonly JsonSchema[];
+  /** Used in error messages: "<field> must be <description>" */
+  description?: string;
+}
+
+const NON_EMPTY_STRING = {
+  type: "string",
+  minLength: 1,
+  description: "a non-empty string",
+} as const;
+
+/** Non-negative integer amount, as a decimal string or a safe integer. */
+const AMOUNT = {
+  description: "a non-negative integer or decimal string",
+  anyOf: [
+    { type: "string", pattern: "^\\d+$" },
+    { type: "integer", minimum: 0, maximum: Number.MAX_SAFE_INTEGER },
+  ],
+} as const;
+
+/** JSON Schema for POST /sponsor and POST /explain bodies. */
+export const SPONSOR_REQUEST_SCHEMA = {
+  type: "object",
+  required: ["sender", "transactionKindBytes"],
+  properties: {
+    sender: NON_EMPTY_STRING,
+    transactionKindBytes: {
+      type: "string",
+      pattern: "^[A-Za-z0-9+/]+={0,2}$",
+      description: "base64",
+    },
+    gasBudget: AMOUNT,
+    policyName: NON_EMPTY_STRING,
+  },
+} as const satisfies JsonSchema;
+
+/** JSON Schema for POST /report bodies. */
+export const REPORT_REQUEST_SCHEMA = {
+  type: "object",
+  required: ["reservation"],
+  properties: {
+    reservation: {
+      type: "object",
+      description: "an object",
+      required: ["objectId", "reservedAt", "transactionDigest"],
+      properties: {
+        objectId: NON_EMPTY_STRING,
+        reservedAt: { type: "number", description: "a number" },
+        transactionDigest: NON_EMPTY_STRING,
+        mergedCoinIds: {
+          type: "array",
+          items: NON_EMPTY_STRING,
+          description: "an array",
+        },
+        leaseHolder: NON_EMPTY_STRING,
+      },
+    },
+  },
+} as const satisfies JsonSchema;
+
+// ─── Handler ────────────────────────────────────────────────────────
+
+/**
+ * Create a Fetch API request handler exposing /sponsor, /report and /stats.
+ *
+ * The handler performs no authentication — wrap it with your own checks
+ * before exposing it publicly, or anyone can drain the pool with
+ * fabricated requests.
+ */
+export function createGasStationHandler(
+  sponsor: GasSponsor,
+  options: GasStationHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  return async (request) => {
+    const { pathname } = new URL(request.url);
+    const route = pathname.startsWith(basePath)
+      ? pathname.slice(basePath.length)
+      : "";
+
+    if (
+      !Object.hasOwn(ROUTE_METHODS, route) ||
+      (route === "/explain" && !options.explain) ||
+      (route === "/metrics" && !options.metrics)
+    ) {
+      return json(404, {
+        error: "INVALID_REQUEST",
+        message: `No route for ${pathname}`,
+      } satisfies ErrorResponseBody);
+    }
+    const method = ROUTE_METHODS[route as Route];
+    if (request.method !== method) {
+      return json(
+        405,
+        {
+          error: "INVALID_REQUEST",
+          message: `Method ${request.method} not allowed, use ${method}`,
+        } satisfies ErrorResponseBody,
+        { allow: method },
+      );
+    }
+
+    try {
+      switch (route as Route) {
+        case "/sponsor":
+          return json(200, await handleSponsor(sponsor, request));
+        case "/report":
+          return json(200, await handleReport(sponsor, request));
+        case "/stats":
+          return json(200, sponsor.getStats());
+        case "/explain":
+          return json(
+            200,
+            await sponsor.explainPolicy(await readSponsorRequest(request)),
+          );
+        case "/metrics":
+          return new Response(options.metrics!.render(), {
+            status: 200,
+            headers: { "content-type": options.metrics!.contentType },
+          });
+      }
+    } catch (err) {
+      return errorResponse(err);
+    }
+  };
+}
+
+const ROUTE_METHODS = {
+  "/sponsor": "POST",
+  "/report": "POST",
+  "/stats": "GET",
+  "/explain": "POST",
+  "/metrics": "GET",
+} as const;
+
+type Route = keyof typeof ROUTE_METHODS;
+
+// ─── Routes ─────────────────────────────────────────────────────────
+
+async function handleSponsor(
+  sponsor: GasSponsor,
+  request: Request,
+): Promise<SponsorResponseBody> {
+  const result = await sponsor.sponsorTransaction(
+    await readSponsorRequest(request),
+  );
+  return {
+    transactionBytes: result.transactionBytes,
+    sponsorSignature: result.sponsorSignature,
+    gasBudget: result.gasBudget.toString(),
+    gasPrice: result.gasPrice.toString(),
+    sponsorAddress: result.sponsorAddress,
+    reservation: result.reservation,
+    ...(result.simulation ? { simulation: result.simulation } : {}),
+  };
+}
+
+async function handleReport(
+  sponsor: GasSponsor,
+  request: Request,
+): Promise<{ ok: true }> {
+  const body = await readJson(request);
+  validate(REPORT_REQUEST_SCHEMA, body, "");
+  const { reservation } = body as unknown as ReportRequestBody;
+  await sponsor.reportTransaction({
+    objectId: reservation.objectId,
+    reservedAt: reservation.reservedAt,
+    transactionDigest: reservation.transactionDigest,
+    ...(reservation.mergedCoinIds
+      ? { mergedCoinIds: reservation.mergedCoinIds }
+      : {}),
+    ...(reservation.leaseHolder
+      ? { leaseHolder: reservation.leaseHolder }
+      : {}),
+  });
+  return { ok: true };
+}
+
+/**
+ * Parse a SponsorRequestBody. Policy objects are deliberately not accepted
+ * from the wire — clients may only pick a named policy, which applies on
+ * top of the default.
+ */
+async function readSponsorRequest(request: Request): Promise<SponsorRequest> {
+  const body = await readJson(request);
+  validate(SPONSOR_REQUEST_SCHEMA, body, "");
+  const { sender, transactionKindBytes, gasBudget, policyName } =
+    body as unknown as SponsorRequestBody;
+  return {
+    sender,
+    transactionKindBytes,
+    gasBudget: gasBudget === undefined ? undefined : BigInt(gasBudget),
+    policyName,
+  };
+}
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+function invalid(message: string): GasStationError {
+  return new GasStationError("INVALID_REQUEST", message);
+}
+
+async function readJson(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw invalid("Request body must be valid JSON");
+  }
+  validate({ type: "object", description: "an object" }, body, "");
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Check `value` against `schema`, throwing INVALID_REQUEST naming the first
+ * offending field (e.g. "reservation.objectId must be a non-empty string").
+ */
+function validate(schema: JsonSchema, value: unknown, path: string): void {
+  if (!matches(schema, value)) {
+    throw invalid(
+      `${path || "body"} must be ${schema.description ?? `a ${schema.type}`}`,
+    );
+  }
+  const at = (field: string | number) =>
+    typeof field === "number"
+      ? `${path}[${field}]`
+      : path
+        ? `${path}.${field}`
+        : field;
+  if (schema.type === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const field of schema.required ?? []) {
+      if (obj[field] === undefined) throw invalid(`${at(field)} is required`);
+    }
+    for (const [field, property] of Object.entries(schema.properties ?? {})) {
+      if (obj[field] !== undefined) validate(property, obj[field], at(field));
+    }
+  } else if (schema.type === "array" && schema.items) {
+    for (const [i, item] of (value as unknown[]).entries()) {
+      validate(schema.items, item, at(i));
+    }
+  }
+}
+
+/** Whether `value` satisfies `schema`'s own keywords, not nested ones. */
+function matches(schema: JsonSchema, value: unknown): boolean {
+  if (schema.anyOf) {
+    return schema.anyOf.some((option) => matches(option, value));
+  }
+  switch (schema.type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return (
+        typeof value === "string" &&
+        value.length >= (schema.minLength ?? 0) &&
+        (schema.pattern === undefined || new RegExp(schema.pattern).test(value))
+      );
+    case "number":
+    case "integer":
+      return (
+        typeof value === "number" &&
+        (schema.type === "integer"
+          ? Number.isSafeInteger(value)
+          : Number.isFinite(value)) &&
+        value >= (schema.minimum ?? -Infinity) &&
+        value <= (schema.maximum ?? Infinity)
+      );
+    default:
+      return true;
+  }
+}
+
+// ─── Responses ──────────────────────────────────────────────────────
+
+function json(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(
+    JSON.stringify(body, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value,
+    ),
+    { status, headers: { "content-type": "application/json", ...headers } },
+  );
+}
+
+function errorResponse(err: unknown): Response {
+  if (err instanceof GasStationError) {
+    return json(ERROR_STATUS[err.code] ?? 500, {
+      error: err.code,
+      message: err.message,
+    } satisfies ErrorResponseBody);
+  }
+  // Unexpected errors are not echoed — they may carry RPC or key details
+  return json(500, {
+    error: "INTERNAL_ERROR",
+    message: "Internal server error",
+  } satisfies ErrorResponseBody);
+}
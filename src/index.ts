@@ -7,19 +7,98 @@ export { GasStationError } from "./errors.js";
 export type { GasStationErrorCode } from "./errors.js";
 export {
   validatePolicy,
+  evaluatePolicy,
   extractMoveTargets,
   assertNoGasCoinUsage,
+  resolveMaxBudget,
 } from "./policy.js";
+export {
+  InMemoryCoinPoolStore,
+  FileCoinPoolStore,
+  SqliteCoinPoolStore,
+} from "./coin-pool-store.js";
+export type { CoinPoolStore, SqliteDatabase } from "./coin-pool-store.js";
+export {
+  InMemoryCoinLeaseCoordinator,
+  RedisCoinLeaseCoordinator,
+} from "./coin-lease.js";
+export type {
+  CoinLeaseCoordinator,
+  CoinLease,
+  CoinRef,
+  RedisLeaseClient,
+} from "./coin-lease.js";
+export {
+  StaticAddressGroup,
+  FileAddressGroup,
+  LookupAddressGroup,
+} from "./address-groups.js";
+export type { AddressGroup } from "./address-groups.js";
+export { InMemoryQuotaStore } from "./quota.js";
+export type { QuotaStore } from "./quota.js";
+export { TypedEventEmitter } from "./events.js";
+export { GasStationMetrics } from "./metrics.js";
+export type { GasStationMetricsOptions } from "./metrics.js";
+export type {
+  CoinPoolEvents,
+  GasSponsorEvents,
+  EventListener,
+} from "./events.js";
+export type {
+  Tracer,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+} from "./tracing.js";
+export { SpendLedger } from "./spend-ledger.js";
+export type { SpendRecord, SpendQuery } from "./spend-ledger.js";
+export {
+  createGasStationHandler,
+  SPONSOR_REQUEST_SCHEMA,
+  REPORT_REQUEST_SCHEMA,
+} from "./http-handler.js";
+export type {
+  GasStationHandlerOptions,
+  JsonSchema,
+  SponsorRequestBody,
+  SponsorResponseBody,
+  ReportRequestBody,
+  ErrorResponseBody,
+} from "./http-handler.js";
+export { GasStationClient } from "./gas-station-client.js";
+export type { GasStationClientOptions } from "./gas-station-client.js";
 
 // ─── Public Types ───────────────────────────────────────────────────
 export type {
   GasSponsorOptions,
+  SponsorOptions,
+  SponsorRequest,
   SponsoredTransaction,
+  SimulationResult,
   GasCoinReservation,
   PoolStats,
+  SponsorStats,
+  PoolMaintenanceOptions,
+  PoolMaintenanceReport,
+  RebalanceReport,
+  CoinTier,
+  MaintenanceScheduler,
   SponsorPolicy,
+  NamedPolicy,
+  BudgetCaps,
+  MoveCallConstraint,
+  MoveArgumentConstraint,
+  QuotaPolicy,
+  PolicyDecision,
+  PolicyRule,
+  PolicyRuleResult,
+  GasCoinUsage,
   ExecutionEffects,
+  CoinEntry,
+  SponsorshipContext,
+  SpendHold,
 } from "./types.js";
 
-// NOTE: CoinPool and CoinEntry are intentionally NOT exported.
-// The pool is an implementation detail of GasSponsor.
+// NOTE: CoinPool is intentionally NOT exported.
+// The pool is an implementation detail of GasSponsor. CoinEntry is exported
+// as a type only, for custom CoinPoolStore implementations.
@@ -0,0 +1,332 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Prometheus/OpenMetrics exporter for a GasSponsor.
+ *
+ * Counters and histograms are fed by the sponsor's events; pool gauges are
+ * read from getStats() at scrape time. render() produces the OpenMetrics
+ * text exposition format:
+ *
+ *   const metrics = new GasStationMetrics(sponsor);
+ *   const body = metrics.render(); // serve with metrics.contentType
+ *
+ * createGasStationHandler(sponsor, { metrics }) serves it at GET /metrics.
+ */
+import type { GasSponsor } from "./gas-sponsor.js";
+import type { ExecutionEffects } from "./types.js";
+
+const DEFAULT_LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const DEFAULT_HOLD_TIME_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export interface GasStationMetricsOptions {
+  /** Metric name prefix. Default: "gas_station" */
+  prefix?: string;
+  /** Bucket bounds (seconds) for build and sign latency */
+  latencyBuckets?: number[];
+  /** Bucket bounds (seconds) for how long coins stay reserved */
+  holdTimeBuckets?: number[];
+  /** Clock for reservation hold times — inject for deterministic tests */
+  now?: () => number;
+}
+
+type Labels = Record<string, string>;
+
+// ─── Metric Families ────────────────────────────────────────────────
+
+class Counter {
+  private values = new Map<string, number | bigint>();
+
+  /** `zero` exposes an unlabelled counter before its first increment. */
+  constructor(zero?: number | bigint) {
+    if (zero !== undefined) this.values.set("", zero);
+  }
+
+  inc(labels: Labels = {}, amount: number | bigint = 1): void {
+    const key = formatLabels(labels);
+    const current =
+      this.values.get(key) ?? (typeof amount === "bigint" ? 0n : 0);
+    this.values.set(
+      key,
+      typeof amount === "bigint"
+        ? (current as bigint) + amount
+        : (current as number) + amount,
+    );
+  }
+
+  lines(name: string): string[] {
+    return [...this.values].map(
+      ([labels, value]) => `${name}_total${labels} ${value}`,
+    );
+  }
+}
+
+class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(private readonly buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  lines(name: string): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`,
+        );
+      });
+      lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+// ─── Exporter ───────────────────────────────────────────────────────
+
+export class GasStationMetrics {
+  /** Content-Type for responses carrying render() output */
+  readonly contentType =
+    "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+  private readonly prefix: string;
+  private readonly now: () => number;
+  private readonly unsubscribe: Array<() => void>;
+  /** When each currently reserved coin was reserved */
+  private readonly reservedAt = new Map<string, number>();
+
+  private readonly sponsorships = new Counter();
+  private readonly executions = new Counter(0);
+  private readonly gasSpent = new Counter(0n);
+  private readonly storageRebate = new Counter(0n);
+  private readonly expirations = new Counter();
+  private readonly coinsAdded = new Counter();
+  private readonly epochChanges = new Counter(0);
+  private readonly revalidationFailures = new Counter(0);
+  private readonly buildDuration: Histogram;
+  private readonly signDuration: Histogram;
+  private readonly holdTime: Histogram;
+
+  constructor(
+    private readonly sponsor: GasSponsor,
+    options: GasStationMetricsOptions = {},
+  ) {
+    this.prefix = options.prefix ?? "gas_station";
+    this.now = options.now ?? Date.now;
+    const latencyBuckets = options.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS;
+    this.buildDuration = new Histogram(latencyBuckets);
+    this.signDuration = new Histogram(latencyBuckets);
+    this.holdTime = new Histogram(
+      options.holdTimeBuckets ?? DEFAULT_HOLD_TIME_BUCKETS,
+    );
+
+    this.unsubscribe = [
+      sponsor.on("reserved", ({ objectId }) => {
+        this.reservedAt.set(objectId, this.now());
+      }),
+      sponsor.on("sponsored", ({ reservation, buildMs, signMs }) => {
+        this.sponsorships.inc({ outcome: "sponsored" });
+        this.buildDuration.observe(buildMs / 1000);
+        this.signDuration.observe(signMs / 1000);
+        // Merged coins settle with the gas coin; time the reservation once
+        for (const id of reservation.mergedCoinIds ?? []) {
+          this.reservedAt.delete(id);
+        }
+      }),
+      sponsor.on("rejected", ({ error }) => {
+        this.sponsorships.inc({ outcome: "rejected", code: error.code });
+      }),
+      sponsor.on("released", ({ objectId, mergedCoinIds = [] }) => {
+        this.settle(objectId, "released");
+        for (const id of mergedCoinIds) this.reservedAt.delete(id);
+      }),
+      sponsor.on("executed", ({ objectId, effects }) => {
+        this.executions.inc();
+        this.recordGas(effects);
+        this.settle(objectId, "executed");
+      }),
+      sponsor.on("expired", ({ objectId, outcome }) => {
+        this.expirations.inc({ outcome });
+        this.settle(objectId, "expired");
+      }),
+      sponsor.on("replenished", ({ adopted, created }) => {
+        if (adopted > 0) this.coinsAdded.inc({ source: "adopted" }, adopted);
+        if (created > 0) this.coinsAdded.inc({ source: "created" }, created);
+      }),
+      sponsor.on("epochChanged", () => this.epochChanges.inc()),
+      sponsor.on("revalidationFailed", () => this.revalidationFailures.inc()),
+    ];
+  }
+
+  /** Render every metric in the OpenMetrics text format. */
+  render(): string {
+    const stats = this.sponsor.getStats();
+    const lines: string[] = [];
+    const family = (
+      name: string,
+      type: "counter" | "gauge" | "histogram",
+      help: string,
+      samples: Counter | Histogram | string[],
+      unit?: string,
+    ) => {
+      const full = `${this.prefix}_${name}`;
+      lines.push(`# TYPE ${full} ${type}`);
+      if (unit) lines.push(`# UNIT ${full} ${unit}`);
+      lines.push(`# HELP ${full} ${help}`);
+      lines.push(
+        ...(Array.isArray(samples)
+          ? samples.map((sample) => `${full}${sample}`)
+          : samples.lines(full)),
+      );
+    };
+
+    family(
+      "sponsorships",
+      "counter",
+      "Sponsorship requests by outcome, and error code when rejected.",
+      this.sponsorships,
+    );
+    family(
+      "executions",
+      "counter",
+      "Sponsored transactions whose effects were applied.",
+      this.executions,
+    );
+    family(
+      "gas_spent_mist",
+      "counter",
+      "Computation, storage and non-refundable storage fees paid by the sponsor.",
+      this.gasSpent,
+      "mist",
+    );
+    family(
+      "storage_rebate_mist",
+      "counter",
+      "Storage rebates returned to the sponsor.",
+      this.storageRebate,
+      "mist",
+    );
+    family(
+      "reservations_expired",
+      "counter",
+      "Reservations settled after timing out, by outcome.",
+      this.expirations,
+    );
+    family(
+      "pool_coins_added",
+      "counter",
+      "Coins added to the pool, adopted as they are or split off.",
+      this.coinsAdded,
+    );
+    family(
+      "epoch_changes",
+      "counter",
+      "Epoch changes observed.",
+      this.epochChanges,
+    );
+    family(
+      "revalidation_failures",
+      "counter",
+      "Failed pool revalidations after an epoch change.",
+      this.revalidationFailures,
+    );
+    family(
+      "build_duration_seconds",
+      "histogram",
+      "Time to build a sponsored transaction.",
+      this.buildDuration,
+      "seconds",
+    );
+    family(
+      "sign_duration_seconds",
+      "histogram",
+      "Time to sign a sponsored transaction.",
+      this.signDuration,
+      "seconds",
+    );
+    family(
+      "reservation_hold_seconds",
+      "histogram",
+      "How long gas coins stay reserved, by how the reservation ended.",
+      this.holdTime,
+      "seconds",
+    );
+    family("pool_coins", "gauge", "Coins in the pool by state.", [
+      `${formatLabels({ state: "available" })} ${stats.availableCoins}`,
+      `${formatLabels({ state: "reserved" })} ${stats.reservedCoins}`,
+    ]);
+    family(
+      "pool_balance_mist",
+      "gauge",
+      "Total balance of the pool coins.",
+      [` ${stats.totalBalance}`],
+      "mist",
+    );
+    family("signs", "gauge", "Sponsorship signatures by state.", [
+      `${formatLabels({ state: "in_flight" })} ${stats.signsInFlight}`,
+      `${formatLabels({ state: "queued" })} ${stats.signsQueued}`,
+    ]);
+    family(
+      "gas_price_mist",
+      "gauge",
+      "Cached reference gas price.",
+      [` ${stats.gasPrice}`],
+      "mist",
+    );
+    lines.push("# EOF");
+    return lines.join("\n") + "\n";
+  }
+
+  /** Stop listening to the sponsor's events. */
+  detach(): void {
+    for (const off of this.unsubscribe) off();
+  }
+
+  private recordGas(effects: ExecutionEffects): void {
+    const gas = effects.gasUsed;
+    this.gasSpent.inc(
+      {},
+      BigInt(gas.computationCost) +
+        BigInt(gas.storageCost) +
+        BigInt(gas.nonRefundableStorageFee ?? "0"),
+    );
+    this.storageRebate.inc({}, BigInt(gas.storageRebate));
+  }
+
+  private settle(objectId: string, ended: string): void {
+    const start = this.reservedAt.get(objectId);
+    if (start === undefined) return;
+    this.reservedAt.delete(objectId);
+    this.holdTime.observe((this.now() - start) / 1000, { ended });
+  }
+}
+
+/** `{a="1",b="2"}`, or "" without labels. Values are escaped per spec. */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
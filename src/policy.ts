@@ -1,14 +1,36 @@
 // Copyright (c) Danny Devs
 // SPDX-License-Identifier: Apache-2.0
 
+import { bcs, TypeTagSerializer } from "@mysten/sui/bcs";
+import type { ObjectOwner } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
-import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+} from "@mysten/sui/utils";
+import type { AddressGroup } from "./address-groups.js";
 import { GasStationError } from "./errors.js";
-import type { SponsorPolicy } from "./types.js";
+import type {
+  GasCoinUsage,
+  MoveArgumentConstraint,
+  MoveCallConstraint,
+  PolicyDecision,
+  PolicyRule,
+  PolicyRuleResult,
+  QuotaPolicy,
+  SimulationResult,
+  SponsorPolicy,
+} from "./types.js";
+
+type TransactionData = ReturnType<Transaction["getData"]>;
+type Command = TransactionData["commands"][number];
 
 /**
- * Validates a sponsorship request against a policy.
- * Pure function — no state, no rate limiting (that belongs in server middleware).
+ * Validates a sponsorship request against a policy, including its `allOf`
+ * and `anyOf` sub-policies.
+ * Pure function — no state. Stateful limits (`policy.quota`) are enforced
+ * by GasSponsor against its QuotaStore, not here.
  * Throws GasStationError with code 'POLICY_VIOLATION' on failure.
  */
 export async function validatePolicy(
@@ -17,17 +39,342 @@ export async function validatePolicy(
   kindBytes: Uint8Array,
   estimatedBudget: bigint,
 ): Promise<void> {
-  // Budget cap
-  if (
-    policy.maxBudgetPerTx !== undefined &&
-    estimatedBudget > policy.maxBudgetPerTx
-  ) {
+  await checkPolicy(policy, sender, kindBytes, estimatedBudget);
+}
+
+/**
+ * Evaluates every rule of a policy without stopping at the first violation
+ * and returns the full decision: each rule's outcome, the transaction's
+ * Move targets and its gas coin references. Never throws on a violation —
+ * rules that cannot be evaluated (unparseable kind bytes, a failing group
+ * lookup or custom validator) are reported as failed.
+ *
+ * Also checks gas coin usage and protectSponsorAssets, which
+ * sponsorTransaction() enforces separately from validatePolicy(). The
+ * asset check needs a simulation: pass `options.checkSponsorAssets` to run
+ * one (GasSponsor.explainPolicy() does). Without it, the rule is reported
+ * as failed.
+ *
+ * @param options.checkSponsorAssets - Simulates the transaction and
+ *   resolves to its sponsor asset findings (empty if untouched)
+ */
+export async function evaluatePolicy(
+  policy: SponsorPolicy,
+  sender: string,
+  kindBytes: Uint8Array,
+  estimatedBudget: bigint,
+  options: { checkSponsorAssets?: () => Promise<string[]> } = {},
+): Promise<PolicyDecision> {
+  const rules: PolicyRuleResult[] = [];
+
+  let data: TransactionData | undefined;
+  let parseError: string | undefined;
+  try {
+    data = Transaction.fromKind(kindBytes).getData();
+  } catch (err) {
+    parseError = err instanceof Error ? err.message : String(err);
+    rules.push({
+      rule: "transaction",
+      path: "",
+      passed: false,
+      message: `Invalid transaction kind bytes: ${parseError}`,
+    });
+  }
+
+  const { passed, cap } = await checkPolicyNode(
+    policy,
+    {
+      sender,
+      kindBytes,
+      estimatedBudget,
+      failFast: false,
+      rules,
+      getData: () => {
+        if (!data)
+          throw new Error(`Invalid transaction kind bytes: ${parseError}`);
+        return data;
+      },
+    },
+    "",
+  );
+
+  const gasCoinUsage = data ? findGasCoinUsage(data.commands) : [];
+  const gasCoinAllowed =
+    gasCoinUsage.length === 0 || allowsGasCoinUsage(policy);
+  rules.push({
+    rule: "gasCoinUsage",
+    path: "",
+    passed: gasCoinAllowed,
+    ...(gasCoinAllowed
+      ? {}
+      : { message: gasCoinUsageMessage(gasCoinUsage[0]!.commandKind) }),
+    details: { commands: gasCoinUsage },
+  });
+
+  let assetsSafe = true;
+  if (protectsSponsorAssets(policy)) {
+    let findings: string[] = [];
+    let message: string | undefined;
+    if (!options.checkSponsorAssets) {
+      message =
+        "Sponsor assets not checked: protectSponsorAssets needs a simulation";
+    } else {
+      try {
+        findings = await options.checkSponsorAssets();
+        if (findings.length > 0) {
+          message = `Transaction would move sponsor assets: ${findings.join("; ")}`;
+        }
+      } catch (err) {
+        message = `Sponsor assets not checked: ${err instanceof Error ? err.message : String(err)}`;
+      }
+    }
+    assetsSafe = message === undefined;
+    rules.push({
+      rule: "protectSponsorAssets",
+      path: "",
+      passed: assetsSafe,
+      ...(message ? { message } : {}),
+      details: { findings },
+    });
+  }
+
+  return {
+    allowed: data !== undefined && passed && gasCoinAllowed && assetsSafe,
+    sender,
+    moveTargets: data ? extractMoveTargetsFromCommands(data.commands) : [],
+    gasCoinUsage,
+    maxBudget: cap,
+    rules,
+  };
+}
+
+/** Shared state for one evaluation. */
+interface PolicyContext {
+  sender: string;
+  kindBytes: Uint8Array;
+  estimatedBudget: bigint;
+  /** Throw on the first failed rule (validatePolicy) instead of reporting it */
+  failFast: boolean;
+  /** Outcomes recorded so far, in evaluation order */
+  rules: PolicyRuleResult[];
+  /** The lazily deserialized kind bytes */
+  getData(): TransactionData;
+}
+
+/**
+ * Internal: validatePolicy() that also returns what the request was
+ * admitted under: the gas budget cap (undefined if uncapped), which
+ * GasSponsor uses to bound auto-estimation and for the post-build budget
+ * check, and the quotas to enforce.
+ */
+export async function checkPolicy(
+  policy: SponsorPolicy,
+  sender: string,
+  kindBytes: Uint8Array,
+  estimatedBudget: bigint,
+): Promise<{ maxBudget: bigint | undefined; quotas: QuotaPolicy[] }> {
+  // Command-level checks share one (lazy) deserialization of the kind bytes
+  let data: TransactionData | undefined;
+  const { cap, quotas } = await checkPolicyNode(
+    policy,
+    {
+      sender,
+      kindBytes,
+      estimatedBudget,
+      failFast: true,
+      rules: [],
+      getData: () => (data ??= Transaction.fromKind(kindBytes).getData()),
+    },
+    "",
+  );
+  return { maxBudget: cap, quotas };
+}
+
+async function checkPolicyNode(
+  policy: SponsorPolicy,
+  ctx: PolicyContext,
+  path: string,
+): Promise<{
+  passed: boolean;
+  cap: bigint | undefined;
+  quotas: QuotaPolicy[];
+}> {
+  let { passed, cap } = await checkRules(policy, ctx, path);
+  const quotas = policy.quota ? [policy.quota] : [];
+
+  // allOf — every sub-policy must pass; the tightest cap wins and every
+  // quota applies
+  for (const [i, child] of (policy.allOf ?? []).entries()) {
+    const result = await checkPolicyNode(child, ctx, subPath(path, "allOf", i));
+    passed &&= result.passed;
+    cap = tighter(cap, result.cap);
+    quotas.push(...result.quotas);
+  }
+
+  // anyOf — at least one sub-policy must pass; the first passing branch
+  // admits the request, and its cap and quotas apply
+  if (policy.anyOf && policy.anyOf.length > 0) {
+    const matched: number[] = [];
+    let branchCap: bigint | undefined;
+    let branchQuotas: QuotaPolicy[] = [];
+    const reasons: string[] = [];
+    for (const [i, branch] of policy.anyOf.entries()) {
+      const start = ctx.rules.length;
+      try {
+        const result = await checkPolicyNode(
+          branch,
+          ctx,
+          subPath(path, "anyOf", i),
+        );
+        if (result.passed) {
+          if (matched.length === 0) {
+            branchCap = result.cap;
+            branchQuotas = result.quotas;
+          }
+          matched.push(i);
+        } else {
+          const failure = ctx.rules.slice(start).find((r) => !r.passed);
+          reasons.push(failure?.message ?? "rejected");
+        }
+      } catch (err) {
+        // Only a rejection moves on to the next branch; a failed lookup
+        // must not be mistaken for one
+        if (!(err instanceof GasStationError)) throw err;
+        if (err.code !== "POLICY_VIOLATION") throw err;
+        reasons.push(err.message);
+      }
+    }
+
+    const anyPassed = matched.length > 0;
+    record(ctx, {
+      rule: "anyOf",
+      path,
+      passed: anyPassed,
+      ...(anyPassed
+        ? {}
+        : {
+            message: `No anyOf policy allowed the request: ${reasons.join("; ")}`,
+          }),
+      details: { sender: ctx.sender, matched, reasons },
+    });
+    passed &&= anyPassed;
+    cap = tighter(cap, branchCap);
+    quotas.push(...branchQuotas);
+  }
+  return { passed, cap, quotas };
+}
+
+/**
+ * Record a rule outcome. In fail-fast mode a failure is thrown as a
+ * POLICY_VIOLATION carrying the rule's message and details.
+ */
+function record(ctx: PolicyContext, result: PolicyRuleResult): void {
+  ctx.rules.push(result);
+  if (!result.passed && ctx.failFast) {
     throw new GasStationError(
       "POLICY_VIOLATION",
-      `Budget ${estimatedBudget} exceeds max ${policy.maxBudgetPerTx}`,
-      { sender, estimatedBudget, maxBudgetPerTx: policy.maxBudgetPerTx },
+      result.message ?? `Policy rule ${result.rule} failed`,
+      result.details,
+    );
+  }
+}
+
+function subPath(path: string, key: "allOf" | "anyOf", index: number) {
+  return `${path ? `${path}.` : ""}${key}[${index}]`;
+}
+
+/** Smaller of two caps, where undefined means uncapped. */
+function tighter(a: bigint | undefined, b: bigint | undefined) {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return a < b ? a : b;
+}
+
+/** Larger of two caps, where undefined means uncapped. */
+function looser(a: bigint | undefined, b: bigint | undefined) {
+  if (a === undefined || b === undefined) return undefined;
+  return a > b ? a : b;
+}
+
+/**
+ * Ask a group about a sender. A failed lookup (file, database, API) is
+ * thrown as LOOKUP_FAILED, so callers can retry instead of seeing a bare
+ * internal error.
+ */
+async function groupHas(group: AddressGroup, address: string) {
+  try {
+    return await group.has(address);
+  } catch (err) {
+    throw new GasStationError(
+      "LOOKUP_FAILED",
+      `Address group ${group.name} lookup failed: ${err instanceof Error ? err.message : String(err)}`,
+      { group: group.name },
     );
   }
+}
+
+/**
+ * Check a policy's own rules (not allOf/anyOf), in order. Returns whether
+ * they all passed and the policy's budget cap.
+ */
+async function checkRules(
+  policy: SponsorPolicy,
+  ctx: PolicyContext,
+  path: string,
+): Promise<{ passed: boolean; cap: bigint | undefined }> {
+  const { sender, kindBytes, estimatedBudget, getData } = ctx;
+  const lineage = buildLineageIndex(policy.packageLineages);
+  let passed = true;
+  let maxBudget: bigint | undefined;
+
+  const report = (
+    rule: PolicyRule,
+    ok: boolean,
+    message: string | undefined,
+    details: Record<string, unknown>,
+  ) => {
+    passed &&= ok;
+    record(ctx, {
+      rule,
+      path,
+      passed: ok,
+      ...(message !== undefined ? { message } : {}),
+      details,
+    });
+  };
+
+  // Run one rule. When reporting, a rule that throws (bad kind bytes, a
+  // failing lookup) is recorded as failed instead of aborting the report.
+  const run = async (rule: PolicyRule, check: () => void | Promise<void>) => {
+    try {
+      await check();
+    } catch (err) {
+      if (ctx.failFast) throw err;
+      report(
+        rule,
+        false,
+        `Policy rule ${rule} could not be evaluated: ${err instanceof Error ? err.message : String(err)}`,
+        { sender },
+      );
+    }
+  };
+
+  // Budget cap — the tightest of maxBudgetPerTx and applicable budgetCaps
+  if (policy.maxBudgetPerTx !== undefined || policy.budgetCaps) {
+    await run("maxBudget", () => {
+      maxBudget = policy.budgetCaps
+        ? ownMaxBudget(policy, getData().commands)
+        : policy.maxBudgetPerTx;
+      if (maxBudget === undefined) return;
+      const ok = estimatedBudget <= maxBudget;
+      report(
+        "maxBudget",
+        ok,
+        ok ? undefined : `Budget ${estimatedBudget} exceeds max ${maxBudget}`,
+        { sender, estimatedBudget, maxBudgetPerTx: maxBudget },
+      );
+    });
+  }
 
   // Blocklist — normalize addresses so 0x2 matches 0x000...002
   if (policy.blockedAddresses && policy.blockedAddresses.length > 0) {
@@ -35,58 +382,400 @@ export async function validatePolicy(
     const blocked = policy.blockedAddresses.some(
       (addr) => normalizeSuiAddress(addr) === normalizedSender,
     );
-    if (blocked) {
-      throw new GasStationError(
-        "POLICY_VIOLATION",
-        `Sender ${sender} is blocked`,
+    report(
+      "blockedAddresses",
+      !blocked,
+      blocked ? `Sender ${sender} is blocked` : undefined,
+      { sender },
+    );
+  }
+
+  // Allowlist — sender must be listed directly or belong to a group
+  const groups = policy.allowedAddressGroups ?? [];
+  if ((policy.allowedAddresses?.length ?? 0) > 0 || groups.length > 0) {
+    await run("allowedAddresses", async () => {
+      const normalizedSender = normalizeSuiAddress(sender);
+      let matchedBy: string | undefined = (policy.allowedAddresses ?? []).some(
+        (addr) => normalizeSuiAddress(addr) === normalizedSender,
+      )
+        ? "allowedAddresses"
+        : undefined;
+      for (const group of groups) {
+        if (matchedBy) break;
+        if (await groupHas(group, normalizedSender)) matchedBy = group.name;
+      }
+      report(
+        "allowedAddresses",
+        matchedBy !== undefined,
+        matchedBy ? undefined : `Sender ${sender} is not in allowedAddresses`,
+        {
+          sender,
+          groups: groups.map((g) => g.name),
+          ...(matchedBy ? { matchedBy } : {}),
+        },
+      );
+    });
+  }
+
+  // Allowed Move targets — inspect commands
+  const allowedMoveTargets = policy.allowedMoveTargets?.length
+    ? policy.allowedMoveTargets
+    : undefined;
+  if (allowedMoveTargets) {
+    await run("allowedMoveTargets", () => {
+      const commands = getData().commands;
+      let ok = true;
+
+      // Reject Publish and Upgrade commands when allowedMoveTargets is set.
+      // These are high-risk operations (deploy arbitrary code, consume significant gas)
+      // that would bypass MoveCall-based restrictions.
+      for (const command of commands) {
+        if (command.$kind === "Publish" || command.$kind === "Upgrade") {
+          ok = false;
+          report(
+            "allowedMoveTargets",
+            false,
+            `${command.$kind} commands are not allowed when allowedMoveTargets is set`,
+            { sender, commandKind: command.$kind },
+          );
+        }
+      }
+
+      // Validate all MoveCall targets match the allowlist. Both sides are
+      // mapped to their original package ID so upgrades stay allowed.
+      const normalizedAllowed = allowedMoveTargets.map((t) =>
+        normalizeMoveTarget(t, lineage),
+      );
+      const matched: Record<string, string> = {};
+      for (const target of extractMoveTargetsFromCommands(commands)) {
+        const normalized = normalizeMoveTarget(target, lineage);
+        const index = normalizedAllowed.findIndex((p) =>
+          matchesMoveTarget(p, normalized),
+        );
+        if (index === -1) {
+          ok = false;
+          report(
+            "allowedMoveTargets",
+            false,
+            `Move call target ${target} is not in allowedMoveTargets`,
+            { sender, target, allowedMoveTargets: policy.allowedMoveTargets },
+          );
+        } else {
+          matched[target] = allowedMoveTargets[index]!;
+        }
+      }
+      if (ok) report("allowedMoveTargets", true, undefined, { matched });
+    });
+  }
+
+  // Argument-level constraints on specific Move targets
+  if (policy.moveCallConstraints) {
+    const constraints = policy.moveCallConstraints;
+    await run("moveCallConstraints", () => {
+      const violations = findMoveCallViolations(
+        constraints,
+        getData(),
+        lineage,
+      );
+      for (const { message, details } of violations) {
+        report("moveCallConstraints", false, message, { sender, ...details });
+      }
+      if (violations.length === 0) {
+        report("moveCallConstraints", true, undefined, { sender });
+      }
+    });
+  }
+
+  // Custom validator (runs last — most expensive, user-defined)
+  if (policy.customValidator) {
+    const validator = policy.customValidator;
+    await run("customValidator", async () => {
+      const allowed = await validator(sender, kindBytes);
+      report(
+        "customValidator",
+        allowed,
+        allowed ? undefined : "Custom policy validator rejected the request",
         { sender },
       );
+    });
+  }
+  return { passed, cap: maxBudget };
+}
+
+/**
+ * The tightest gas budget cap that applies to a transaction: the minimum of
+ * `maxBudgetPerTx`, every `budgetCaps.byMoveTarget` entry matching one of
+ * its Move calls, and every `budgetCaps.byCommandCount` entry covering its
+ * command count. Returns undefined when nothing applies.
+ *
+ * `allOf` sub-policies tighten the cap. For `anyOf`, the loosest branch cap
+ * is used, since which branch admits the request depends on the sender
+ * (validatePolicy() evaluates that exactly).
+ */
+export function resolveMaxBudget(
+  policy: SponsorPolicy,
+  commands: TransactionData["commands"],
+): bigint | undefined {
+  let cap = ownMaxBudget(policy, commands);
+  for (const child of policy.allOf ?? []) {
+    cap = tighter(cap, resolveMaxBudget(child, commands));
+  }
+  if (policy.anyOf && policy.anyOf.length > 0) {
+    const caps = policy.anyOf.map((branch) =>
+      resolveMaxBudget(branch, commands),
+    );
+    cap = tighter(cap, caps.reduce(looser));
+  }
+  return cap;
+}
+
+/**
+ * Whether a (possibly composed) policy permits gas coin usage: at least one
+ * component must set allowGasCoinUsage, and none may set it to false. An
+ * `anyOf` allows it if one of its branches does.
+ */
+export function allowsGasCoinUsage(policy: SponsorPolicy): boolean {
+  return gasCoinVote(policy) === true;
+}
+
+/**
+ * `policy` without the opt-ins that loosen what other policies allow
+ * (`allowGasCoinUsage: true`), in its sub-policies too. Per-request
+ * policies are applied through this, so they can only restrict.
+ */
+export function restrictionsOnly(policy: SponsorPolicy): SponsorPolicy {
+  const { allowGasCoinUsage, allOf, anyOf, ...rules } = policy;
+  return {
+    ...rules,
+    ...(allowGasCoinUsage === false ? { allowGasCoinUsage } : {}),
+    ...(allOf ? { allOf: allOf.map(restrictionsOnly) } : {}),
+    ...(anyOf ? { anyOf: anyOf.map(restrictionsOnly) } : {}),
+  };
+}
+
+/** true/false if any component has an opinion, undefined otherwise. */
+function gasCoinVote(policy: SponsorPolicy): boolean | undefined {
+  const votes: Array<boolean | undefined> = [
+    policy.allowGasCoinUsage,
+    ...(policy.allOf ?? []).map(gasCoinVote),
+  ];
+  if (policy.anyOf && policy.anyOf.length > 0) {
+    const branches = policy.anyOf.map(gasCoinVote);
+    votes.push(
+      branches.includes(true)
+        ? true
+        : branches.includes(false)
+          ? false
+          : undefined,
+    );
+  }
+  if (votes.includes(false)) return false;
+  return votes.includes(true) ? true : undefined;
+}
+
+/**
+ * Whether any component of a (possibly composed) policy sets
+ * protectSponsorAssets. It only restricts, so one opt-in is enough.
+ */
+export function protectsSponsorAssets(policy: SponsorPolicy): boolean {
+  return (
+    policy.protectSponsorAssets === true ||
+    (policy.allOf ?? []).some(protectsSponsorAssets) ||
+    (policy.anyOf ?? []).some(protectsSponsorAssets)
+  );
+}
+
+/** Budget cap from a policy's own maxBudgetPerTx and budgetCaps. */
+function ownMaxBudget(
+  policy: SponsorPolicy,
+  commands: TransactionData["commands"],
+): bigint | undefined {
+  let cap = policy.maxBudgetPerTx;
+  const tighten = (value: bigint) => {
+    if (cap === undefined || value < cap) cap = value;
+  };
+
+  const byMoveTarget = Object.entries(policy.budgetCaps?.byMoveTarget ?? {});
+  if (byMoveTarget.length > 0) {
+    const lineage = buildLineageIndex(policy.packageLineages);
+    const patterns = byMoveTarget.map(
+      ([pattern, maxBudget]) =>
+        [normalizeMoveTarget(pattern, lineage), maxBudget] as const,
+    );
+    for (const target of extractMoveTargetsFromCommands(commands)) {
+      const normalized = normalizeMoveTarget(target, lineage);
+      for (const [pattern, maxBudget] of patterns) {
+        if (matchesMoveTarget(pattern, normalized)) tighten(maxBudget);
+      }
     }
   }
 
-  // Allowed Move targets — deserialize kind bytes and inspect commands
-  if (policy.allowedMoveTargets && policy.allowedMoveTargets.length > 0) {
-    const tx = Transaction.fromKind(kindBytes);
-    const commands = tx.getData().commands;
-
-    // Reject Publish and Upgrade commands when allowedMoveTargets is set.
-    // These are high-risk operations (deploy arbitrary code, consume significant gas)
-    // that would bypass MoveCall-based restrictions.
-    for (const command of commands) {
-      if (command.$kind === "Publish" || command.$kind === "Upgrade") {
-        throw new GasStationError(
-          "POLICY_VIOLATION",
-          `${command.$kind} commands are not allowed when allowedMoveTargets is set`,
-          { sender, commandKind: command.$kind },
+  for (const { maxCommands, maxBudget } of policy.budgetCaps?.byCommandCount ??
+    []) {
+    if (commands.length <= maxCommands) tighten(maxBudget);
+  }
+  return cap;
+}
+
+/**
+ * Every argument or type-argument rule broken by a MoveCall to a
+ * constrained target, in command order.
+ */
+function findMoveCallViolations(
+  constraints: Record<string, MoveCallConstraint>,
+  data: TransactionData,
+  lineage: Map<string, string>,
+): Array<{ message: string; details: Record<string, unknown> }> {
+  const byTarget = new Map(
+    Object.entries(constraints).map(([target, constraint]) => [
+      normalizeMoveTarget(target, lineage),
+      constraint,
+    ]),
+  );
+  const violations: Array<{
+    message: string;
+    details: Record<string, unknown>;
+  }> = [];
+
+  for (const command of data.commands) {
+    if (command.$kind !== "MoveCall") continue;
+    const call = command.MoveCall;
+    const target = `${call.package}::${call.module}::${call.function}`;
+    const constraint = byTarget.get(normalizeMoveTarget(target, lineage));
+    if (!constraint) continue;
+
+    const violation = (reason: string, details: Record<string, unknown>) =>
+      violations.push({
+        message: `Move call ${target} ${reason}`,
+        details: { target, ...details },
+      });
+
+    for (const [key, allowed] of Object.entries(
+      constraint.typeArguments ?? {},
+    )) {
+      const index = Number(key);
+      const typeArgument = call.typeArguments[index];
+      const normalized =
+        typeArgument === undefined ? null : normalizeTypeTag(typeArgument);
+      if (typeArgument !== undefined && normalized === null) {
+        violation(
+          `type argument ${index} (${typeArgument}) is not a valid Move type`,
+          { index, typeArgument, allowed },
+        );
+        continue;
+      }
+      if (
+        normalized === null ||
+        !allowed.some((t) => normalizeTypeTag(t) === normalized)
+      ) {
+        violation(
+          `type argument ${index} (${typeArgument ?? "missing"}) is not allowed`,
+          { index, typeArgument, allowed },
         );
       }
     }
 
-    // Validate all MoveCall targets are in the allowlist
-    const normalizedAllowed =
-      policy.allowedMoveTargets.map(normalizeMoveTarget);
-    const targets = extractMoveTargetsFromCommands(commands);
-    for (const target of targets) {
-      if (!normalizedAllowed.includes(target)) {
-        throw new GasStationError(
-          "POLICY_VIOLATION",
-          `Move call target ${target} is not in allowedMoveTargets`,
-          { sender, target, allowedMoveTargets: policy.allowedMoveTargets },
+    for (const [key, rule] of Object.entries(constraint.arguments ?? {})) {
+      const index = Number(key);
+      const arg = call.arguments[index];
+      if (arg?.$kind !== "Input") {
+        violation(
+          `argument ${index} must be a transaction input to be checked against policy`,
+          { index, argumentKind: arg?.$kind ?? "missing" },
         );
+        continue;
       }
+      const reason = checkArgument(rule, data.inputs[arg.Input]);
+      if (reason) violation(`argument ${index} ${reason}`, { index });
     }
   }
+  return violations;
+}
 
-  // Custom validator (runs last — most expensive, user-defined)
-  if (policy.customValidator) {
-    const allowed = await policy.customValidator(sender, kindBytes);
-    if (!allowed) {
-      throw new GasStationError(
-        "POLICY_VIOLATION",
-        "Custom policy validator rejected the request",
-        { sender },
-      );
+const UINT_BCS = {
+  u8: bcs.u8(),
+  u16: bcs.u16(),
+  u32: bcs.u32(),
+  u64: bcs.u64(),
+  u128: bcs.u128(),
+  u256: bcs.u256(),
+};
+
+/** Check one input against a rule. Returns the violation reason, or null. */
+function checkArgument(
+  rule: MoveArgumentConstraint,
+  input: TransactionData["inputs"][number] | undefined,
+): string | null {
+  if (rule.type === "object") {
+    const objectId = getInputObjectId(input);
+    if (objectId === null) return "must be an object";
+    const allowed = rule.objectIds.map((id) => normalizeSuiAddress(id));
+    return allowed.includes(normalizeSuiAddress(objectId))
+      ? null
+      : `object ${objectId} is not allowed`;
+  }
+
+  if (input?.$kind !== "Pure") return `must be a pure ${rule.type} value`;
+  const bytes = fromBase64(input.Pure.bytes);
+
+  let value: bigint | string | boolean;
+  try {
+    switch (rule.type) {
+      case "address":
+        value = bcs.Address.parse(bytes);
+        break;
+      case "bool":
+        value = bcs.bool().parse(bytes);
+        break;
+      default:
+        value = BigInt(UINT_BCS[rule.type].parse(bytes));
+    }
+  } catch {
+    return `is not a valid ${rule.type}`;
+  }
+
+  switch (rule.type) {
+    case "address": {
+      const allowed = rule.oneOf.map((a) => normalizeSuiAddress(a));
+      return allowed.includes(value as string)
+        ? null
+        : `address ${value} is not allowed`;
     }
+    case "bool":
+      return value === rule.equals ? null : `must be ${rule.equals}`;
+    default:
+      if (rule.min !== undefined && (value as bigint) < rule.min) {
+        return `value ${value} is below minimum ${rule.min}`;
+      }
+      if (rule.max !== undefined && (value as bigint) > rule.max) {
+        return `value ${value} exceeds maximum ${rule.max}`;
+      }
+      return null;
+  }
+}
+
+/** Object ID of an object input (owned, shared or receiving), or null. */
+function getInputObjectId(
+  input: TransactionData["inputs"][number] | undefined,
+): string | null {
+  switch (input?.$kind) {
+    case "Object": {
+      const obj = input.Object;
+      switch (obj.$kind) {
+        case "ImmOrOwnedObject":
+          return obj.ImmOrOwnedObject.objectId;
+        case "SharedObject":
+          return obj.SharedObject.objectId;
+        case "Receiving":
+          return obj.Receiving.objectId;
+        default:
+          return null;
+      }
+    }
+    case "UnresolvedObject":
+      return input.UnresolvedObject.objectId;
+    default:
+      return null;
   }
 }
 
@@ -99,30 +788,43 @@ export async function validatePolicy(
  * Throws GasStationError with code 'POLICY_VIOLATION' if GasCoin is found.
  */
 export function assertNoGasCoinUsage(
-  commands: ReturnType<Transaction["getData"]>["commands"],
+  commands: TransactionData["commands"],
   sender: string,
 ): void {
-  for (const command of commands) {
-    const args = getCommandArguments(command);
-    for (const arg of args) {
-      if (arg.$kind === "GasCoin") {
-        throw new GasStationError(
-          "POLICY_VIOLATION",
-          `${command.$kind} command references GasCoin. ` +
-            "Gas coin manipulation is not allowed in sponsored transactions " +
-            "to prevent value extraction from the sponsor's coin. " +
-            "Set policy.allowGasCoinUsage = true to override.",
-          { sender, commandKind: command.$kind },
-        );
-      }
+  const [usage] = findGasCoinUsage(commands);
+  if (usage) {
+    throw new GasStationError(
+      "POLICY_VIOLATION",
+      gasCoinUsageMessage(usage.commandKind),
+      { sender, commandKind: usage.commandKind },
+    );
+  }
+}
+
+/** Every PTB command that references the GasCoin input. */
+function findGasCoinUsage(
+  commands: TransactionData["commands"],
+): GasCoinUsage[] {
+  const usage: GasCoinUsage[] = [];
+  for (const [commandIndex, command] of commands.entries()) {
+    if (getCommandArguments(command).some((arg) => arg.$kind === "GasCoin")) {
+      usage.push({ commandIndex, commandKind: command.$kind });
     }
   }
+  return usage;
+}
+
+function gasCoinUsageMessage(commandKind: string): string {
+  return (
+    `${commandKind} command references GasCoin. ` +
+    "Gas coin manipulation is not allowed in sponsored transactions " +
+    "to prevent value extraction from the sponsor's coin. " +
+    "Set policy.allowGasCoinUsage = true to override."
+  );
 }
 
 /** Extract all arguments from a PTB command for GasCoin inspection. */
-function getCommandArguments(
-  command: ReturnType<Transaction["getData"]>["commands"][number],
-): Array<{ $kind: string }> {
+function getCommandArguments(command: Command): Array<{ $kind: string }> {
   switch (command.$kind) {
     case "SplitCoins":
       return [command.SplitCoins.coin, ...command.SplitCoins.amounts];
@@ -157,8 +859,8 @@ export function extractMoveTargets(kindBytes: Uint8Array): string[] {
 }
 
 /** Internal: extract targets from already-parsed commands (avoids double deserialization). */
-function extractMoveTargetsFromCommands(
-  commands: ReturnType<Transaction["getData"]>["commands"],
+export function extractMoveTargetsFromCommands(
+  commands: TransactionData["commands"],
 ): string[] {
   const targets: string[] = [];
   for (const command of commands) {
@@ -171,12 +873,132 @@ function extractMoveTargetsFromCommands(
 }
 
 /**
- * Normalize a Move target string so that short-form addresses (0x2)
- * match the full-form (0x000...002) returned by BCS deserialization.
+ * Normalize a Move type tag — struct, primitive or vector — for comparison.
+ * Returns null if `type` is not a valid type tag.
+ */
+function normalizeTypeTag(type: string): string | null {
+  try {
+    return TypeTagSerializer.tagToString(
+      TypeTagSerializer.parseFromStr(type, true),
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a Move target or target pattern so that short-form addresses
+ * (0x2) match the full-form (0x000...002) returned by BCS deserialization.
+ *
+ * Accepts `pkg::module::function`, `pkg::module::*` and `pkg::*`. With a
+ * lineage index, an upgraded package ID is replaced by its original ID.
  */
-function normalizeMoveTarget(target: string): string {
+export function normalizeMoveTarget(
+  target: string,
+  lineage?: Map<string, string>,
+): string {
   const parts = target.split("::");
-  if (parts.length !== 3) return target;
-  const [pkg, mod, fn] = parts;
-  return `${normalizeSuiAddress(pkg)}::${mod}::${fn}`;
+  if (parts.length !== 2 && parts.length !== 3) return target;
+  const pkg = normalizeSuiAddress(parts[0]);
+  parts[0] = lineage?.get(pkg) ?? pkg;
+  return parts.join("::");
+}
+
+/** Match a normalized target against a normalized exact or wildcard pattern. */
+function matchesMoveTarget(pattern: string, target: string): boolean {
+  if (pattern === target) return true;
+  const p = pattern.split("::");
+  const t = target.split("::");
+  if (p.length === 2 && p[1] === "*") return p[0] === t[0];
+  if (p.length === 3 && p[2] === "*") return p[0] === t[0] && p[1] === t[1];
+  return false;
+}
+
+/** Map every package ID in each lineage (original and upgrades) to the original ID. */
+function buildLineageIndex(
+  lineages: Record<string, string[]> | undefined,
+): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const [original, upgrades] of Object.entries(lineages ?? {})) {
+    const root = normalizeSuiAddress(original);
+    index.set(root, root);
+    for (const id of upgrades) index.set(normalizeSuiAddress(id), root);
+  }
+  return index;
+}
+
+// ─── Sponsor Asset Protection ───────────────────────────────────────
+
+const SUI_TYPE = normalizeStructTag("0x2::sui::SUI");
+
+/**
+ * Internal: IDs of pre-existing objects a simulated transaction changes
+ * (mutated, transferred, deleted or wrapped), excluding the gas coins.
+ */
+export function changedObjectIds(
+  simulation: SimulationResult,
+  gasCoinIds: string[],
+): string[] {
+  const gas = new Set(gasCoinIds.map((id) => normalizeSuiAddress(id)));
+  const ids = new Set<string>();
+  for (const change of simulation.objectChanges) {
+    if (change.type === "created" || change.type === "published") continue;
+    const id = normalizeSuiAddress(change.objectId);
+    if (!gas.has(id)) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Internal: the ways a simulated transaction takes value from the sponsor.
+ * Returns one message per finding; empty if the sponsor only pays gas.
+ *
+ * - The sponsor's SUI balance may drop by at most the net gas fee.
+ * - No other coin balance of the sponsor may drop.
+ * - No object the sponsor owned before the transaction (`sponsorObjectIds`,
+ *   from changedObjectIds()) may change, apart from the gas coins.
+ */
+export function findSponsorAssetChanges(
+  simulation: SimulationResult,
+  sponsorAddress: string,
+  sponsorObjectIds: string[],
+): string[] {
+  const sponsor = normalizeSuiAddress(sponsorAddress);
+  const gasUsed = simulation.effects.gasUsed;
+  const gasFee =
+    BigInt(gasUsed.computationCost) +
+    BigInt(gasUsed.storageCost) -
+    BigInt(gasUsed.storageRebate);
+  const findings: string[] = [];
+
+  for (const change of simulation.balanceChanges) {
+    if (ownerAddress(change.owner) !== sponsor) continue;
+    const amount = BigInt(change.amount);
+    if (normalizeStructTag(change.coinType) === SUI_TYPE) {
+      if (amount < -gasFee) {
+        findings.push(
+          `sponsor loses ${-amount} MIST, more than the gas fee of ${gasFee}`,
+        );
+      }
+    } else if (amount < 0n) {
+      findings.push(`sponsor loses ${-amount} of ${change.coinType}`);
+    }
+  }
+
+  for (const id of sponsorObjectIds) {
+    findings.push(`sponsor-owned object ${id} is modified`);
+  }
+  return findings;
+}
+
+/** Internal: address of an address-owned object or balance, else null. */
+export function ownerAddress(
+  owner: ObjectOwner | null | undefined,
+): string | null {
+  if (!owner || typeof owner !== "object") return null;
+  if ("AddressOwner" in owner) return normalizeSuiAddress(owner.AddressOwner);
+  if ("ConsensusAddressOwner" in owner) {
+    return normalizeSuiAddress(owner.ConsensusAddressOwner.owner);
+  }
+  return null;
 }
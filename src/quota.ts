@@ -0,0 +1,216 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Stateful sponsorship quotas: per-sender transaction rate, per-sender daily
+ * spend and global daily spend. Counters live in a pluggable QuotaStore so
+ * several replicas can share them.
+ *
+ * Quotas use fixed windows: a counter key embeds the window index
+ * (`floor(now / windowMs)`) and expires with the window.
+ */
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { GasStationError } from "./errors.js";
+import type { QuotaPolicy, SpendHold } from "./types.js";
+
+const DAY_MS = 86_400_000;
+
+// ─── Counter Store ──────────────────────────────────────────────────
+
+export interface QuotaStore {
+  /** Current value of a counter (0n if unset or expired). */
+  get(key: string): Promise<bigint>;
+  /**
+   * Add `amount` to a counter, creating it with a lifetime of `ttlMs`
+   * if it doesn't exist. Resolves to the new value.
+   */
+  increment(key: string, amount: bigint, ttlMs: number): Promise<bigint>;
+}
+
+/** Counters in process memory. Expired keys are pruned lazily. */
+export class InMemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, { value: bigint; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<bigint> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= this.now()) return 0n;
+    return counter.value;
+  }
+
+  async increment(key: string, amount: bigint, ttlMs: number): Promise<bigint> {
+    this.prune();
+    const counter = this.counters.get(key);
+    if (counter) {
+      counter.value += amount;
+      return counter.value;
+    }
+    this.counters.set(key, { value: amount, expiresAt: this.now() + ttlMs });
+    return amount;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// ─── Enforcement ────────────────────────────────────────────────────
+
+/**
+ * Applies QuotaPolicy limits against a QuotaStore.
+ * Internal — GasSponsor calls this around sponsorTransaction() and
+ * reportExecution().
+ *
+ * Takes every quota of a composed policy at once, so layers sharing a
+ * window count each request once and the tightest limit applies.
+ */
+export class QuotaTracker {
+  constructor(
+    private readonly store: QuotaStore,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Count a sponsorship attempt against the sender's rate limits.
+   * Increment-then-check, so concurrent requests can't all slip under the
+   * limit; rejected attempts still count toward the window.
+   */
+  async consumeTransaction(
+    quotas: QuotaPolicy[],
+    sender: string,
+  ): Promise<void> {
+    // Tightest limit per window length
+    const limits = new Map<number, number>();
+    for (const quota of quotas) {
+      const rate = quota.maxTransactionsPerSender;
+      if (!rate) continue;
+      const limit = limits.get(rate.windowMs);
+      if (limit === undefined || rate.limit < limit) {
+        limits.set(rate.windowMs, rate.limit);
+      }
+    }
+
+    for (const [windowMs, limit] of limits) {
+      const window = Math.floor(this.now() / windowMs);
+      const key = `tx:${normalizeSuiAddress(sender)}:${windowMs}:${window}`;
+      const count = await this.store.increment(key, 1n, windowMs);
+      if (count > BigInt(limit)) {
+        throw new GasStationError(
+          "QUOTA_EXCEEDED",
+          `Sender ${sender} exceeded ${limit} transactions per ${windowMs}ms`,
+          { sender, limit, windowMs },
+        );
+      }
+    }
+  }
+
+  /**
+   * Hold `budget` against the sender's and the global daily spend caps
+   * until the transaction settles (see recordSpend()). Increment-then-check
+   * like consumeTransaction(), so concurrent sponsorships can't all fit
+   * under a cap; a rejected hold is rolled back. Resolves to undefined when
+   * no spend cap applies.
+   */
+  async reserveSpend(
+    quotas: QuotaPolicy[],
+    sender: string,
+    budget: bigint,
+  ): Promise<SpendHold | undefined> {
+    const maxSpendPerSenderPerDay = minOf(
+      quotas.map((q) => q.maxSpendPerSenderPerDay),
+    );
+    const maxGlobalSpendPerDay = minOf(
+      quotas.map((q) => q.maxGlobalSpendPerDay),
+    );
+    if (
+      maxSpendPerSenderPerDay === undefined &&
+      maxGlobalSpendPerDay === undefined
+    ) {
+      return undefined;
+    }
+
+    const hold: SpendHold = { amount: budget, day: this.day() };
+    const senderSpent = await this.store.increment(
+      this.senderSpendKey(sender, hold.day),
+      budget,
+      DAY_MS,
+    );
+    const globalSpent = await this.store.increment(
+      this.globalSpendKey(hold.day),
+      budget,
+      DAY_MS,
+    );
+
+    let violation: GasStationError | undefined;
+    if (
+      maxSpendPerSenderPerDay !== undefined &&
+      senderSpent > maxSpendPerSenderPerDay
+    ) {
+      const spent = senderSpent - budget;
+      violation = new GasStationError(
+        "QUOTA_EXCEEDED",
+        `Sender ${sender} daily spend ${spent} + budget ${budget} exceeds ${maxSpendPerSenderPerDay}`,
+        { sender, spent, budget, maxSpendPerSenderPerDay },
+      );
+    } else if (
+      maxGlobalSpendPerDay !== undefined &&
+      globalSpent > maxGlobalSpendPerDay
+    ) {
+      const spent = globalSpent - budget;
+      violation = new GasStationError(
+        "QUOTA_EXCEEDED",
+        `Global daily spend ${spent} + budget ${budget} exceeds ${maxGlobalSpendPerDay}`,
+        { sender, spent, budget, maxGlobalSpendPerDay },
+      );
+    }
+    if (violation) {
+      // A failed rollback only over-counts, which errs on the safe side
+      await this.recordSpend(sender, 0n, hold).catch(() => {});
+      throw violation;
+    }
+    return hold;
+  }
+
+  /**
+   * Credit actual gas used to the sender's and the global daily spend,
+   * replacing the budget held by reserveSpend(), if any. Pass 0n to
+   * return a hold whose transaction never executed.
+   */
+  async recordSpend(
+    sender: string,
+    amount: bigint,
+    hold?: SpendHold,
+  ): Promise<void> {
+    // Net rebates (negative gas) don't earn anyone extra budget
+    const spent = amount > 0n ? amount : 0n;
+    const delta = spent - (hold?.amount ?? 0n);
+    if (delta === 0n) return;
+    const day = hold?.day ?? this.day();
+    await this.store.increment(this.senderSpendKey(sender, day), delta, DAY_MS);
+    await this.store.increment(this.globalSpendKey(day), delta, DAY_MS);
+  }
+
+  private senderSpendKey(sender: string, day: number): string {
+    return `spend:${normalizeSuiAddress(sender)}:${day}`;
+  }
+
+  private globalSpendKey(day: number): string {
+    return `spend:*:${day}`;
+  }
+
+  private day(): number {
+    return Math.floor(this.now() / DAY_MS);
+  }
+}
+
+function minOf(values: Array<bigint | undefined>): bigint | undefined {
+  let min: bigint | undefined;
+  for (const v of values) {
+    if (v !== undefined && (min === undefined || v < min)) min = v;
+  }
+  return min;
+}
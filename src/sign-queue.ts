@@ -0,0 +1,138 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Backpressure for slow sponsor signers (remote KMS/HSM).
+ * Internal — used by GasSponsor for sponsorship signatures.
+ *
+ * At most `maxConcurrent` sign requests are in flight; the rest wait in
+ * FIFO order. `timeoutMs` bounds the whole wait — queueing plus signing —
+ * so a sponsorship never holds its gas coins longer than that waiting on a
+ * signature. A request that times out keeps its slot until the signer
+ * actually settles, so an overloaded signer is not sent more work — but
+ * for at most another timeout's length, so a hung signer cannot hold its
+ * slots forever.
+ */
+import type { Signer } from "@mysten/sui/cryptography";
+import { GasStationError } from "./errors.js";
+
+export interface SignQueueOptions {
+  /** Most sign requests in flight at once. Default: unlimited */
+  maxConcurrent?: number;
+  /** Give up on a signature after this long (ms). Default: never */
+  timeoutMs?: number;
+}
+
+export class SignQueue {
+  private readonly maxConcurrent: number;
+  private readonly timeoutMs?: number;
+  private active = 0;
+  /** Starts of requests waiting for a slot, oldest first */
+  private waiting: Array<() => void> = [];
+
+  constructor(
+    private readonly signer: Signer,
+    options: SignQueueOptions = {},
+  ) {
+    const { maxConcurrent = Infinity, timeoutMs } = options;
+    if (
+      maxConcurrent !== Infinity &&
+      (!Number.isInteger(maxConcurrent) || maxConcurrent < 1)
+    ) {
+      throw new Error(
+        `Invalid maxConcurrentSigns ${maxConcurrent}: must be a positive integer`,
+      );
+    }
+    if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+      throw new Error(`Invalid signTimeoutMs ${timeoutMs}: must be positive`);
+    }
+    this.maxConcurrent = maxConcurrent;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /** Sign requests being signed right now */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /** Sign requests waiting for a free slot */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Sign transaction bytes, resolving to the signature.
+   * Throws SIGN_TIMEOUT if no signature arrives within `timeoutMs`
+   * (default: the queue's); signer errors are passed through as they are.
+   */
+  async sign(
+    bytes: Uint8Array,
+    timeoutMs: number | undefined = this.timeoutMs,
+  ): Promise<string> {
+    let start: (() => void) | undefined;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.releaseSlot();
+    };
+    let slot = Promise.resolve();
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      slot = new Promise((resolve) => {
+        start = resolve;
+        this.waiting.push(resolve);
+      });
+    }
+    const result = slot.then(async () => {
+      try {
+        const { signature } = await this.signer.signTransaction(bytes);
+        return signature;
+      } finally {
+        release();
+      }
+    });
+    if (timeoutMs === undefined) return result;
+
+    // Nobody awaits the signature once the request has timed out
+    result.catch(() => {});
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // A request still queued gives up its place; one being signed keeps
+        // its slot until the signer settles, or another timeout passes
+        const index = start ? this.waiting.indexOf(start) : -1;
+        const queued = index !== -1;
+        if (queued) {
+          this.waiting.splice(index, 1);
+        } else {
+          setTimeout(release, timeoutMs);
+        }
+        reject(
+          new GasStationError(
+            "SIGN_TIMEOUT",
+            `Sponsor signing timed out after ${timeoutMs}ms` +
+              (queued ? " waiting for a free signer slot" : ""),
+            { timeoutMs, queued },
+          ),
+        );
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([result, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Hand the slot to the oldest waiter, or free it. */
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,204 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Spend accounting: one record per reported transaction with its gas cost
+ * breakdown, sender and Move targets. GasSponsor feeds the ledger from
+ * reportExecution() and from reconciled reservations; operators query and
+ * export it for finance reconciliation.
+ */
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { normalizeMoveTarget } from "./policy.js";
+import type { ExecutionEffects } from "./types.js";
+
+const DEFAULT_MAX_RECORDS = 100_000;
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface SpendRecord {
+  /** Digest of the sponsored transaction */
+  transactionDigest: string;
+  /** Gas coin the transaction was sponsored with (reservation.objectId) */
+  objectId: string;
+  sender: string;
+  /** Move call targets in the transaction, full-length package addresses */
+  moveTargets: string[];
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  nonRefundableStorageFee: bigint;
+  /** Net MIST charged to the sponsor (negative when rebates exceed costs) */
+  gasCharged: bigint;
+  /** When the execution was reported (ms since epoch) */
+  recordedAt: number;
+}
+
+/** Filter for ledger queries. All fields are optional and combined with AND. */
+export interface SpendQuery {
+  sender?: string;
+  /** Transactions calling into this package */
+  packageId?: string;
+  /** Transactions calling this exact target (`0xpkg::module::function`) */
+  moveTarget?: string;
+  /** Inclusive lower bound on recordedAt (ms) */
+  from?: number;
+  /** Exclusive upper bound on recordedAt (ms) */
+  to?: number;
+}
+
+// ─── Ledger ─────────────────────────────────────────────────────────
+
+/**
+ * In-memory spend ledger. Keeps the most recent `maxRecords` records
+ * (default 100,000) — export regularly if you need a complete history.
+ */
+export class SpendLedger {
+  private records: SpendRecord[] = [];
+  private readonly maxRecords: number;
+  private readonly now: () => number;
+
+  constructor(options: { maxRecords?: number; now?: () => number } = {}) {
+    this.maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Record a transaction's gas costs from its execution effects. */
+  record(entry: {
+    transactionDigest: string;
+    objectId: string;
+    sender: string;
+    moveTargets: string[];
+    effects: ExecutionEffects;
+  }): SpendRecord {
+    const { gasUsed } = entry.effects;
+    const computationCost = BigInt(gasUsed.computationCost);
+    const storageCost = BigInt(gasUsed.storageCost);
+    const storageRebate = BigInt(gasUsed.storageRebate);
+    const nonRefundableStorageFee = BigInt(
+      gasUsed.nonRefundableStorageFee ?? "0",
+    );
+    const record: SpendRecord = {
+      transactionDigest: entry.transactionDigest,
+      objectId: entry.objectId,
+      sender: normalizeSuiAddress(entry.sender),
+      moveTargets: entry.moveTargets,
+      computationCost,
+      storageCost,
+      storageRebate,
+      nonRefundableStorageFee,
+      gasCharged:
+        computationCost + storageCost - storageRebate + nonRefundableStorageFee,
+      recordedAt: this.now(),
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+    return record;
+  }
+
+  /** Records matching `filter`, oldest first. */
+  query(filter: SpendQuery = {}): SpendRecord[] {
+    const sender =
+      filter.sender !== undefined
+        ? normalizeSuiAddress(filter.sender)
+        : undefined;
+    const packageId =
+      filter.packageId !== undefined
+        ? normalizeSuiAddress(filter.packageId)
+        : undefined;
+    const moveTarget =
+      filter.moveTarget !== undefined
+        ? normalizeMoveTarget(filter.moveTarget)
+        : undefined;
+
+    return this.records.filter(
+      (r) =>
+        (sender === undefined || r.sender === sender) &&
+        (filter.from === undefined || r.recordedAt >= filter.from) &&
+        (filter.to === undefined || r.recordedAt < filter.to) &&
+        (packageId === undefined ||
+          r.moveTargets.some((t) => t.split("::")[0] === packageId)) &&
+        (moveTarget === undefined || r.moveTargets.includes(moveTarget)),
+    );
+  }
+
+  /** Net MIST charged across records matching `filter`. */
+  totalSpend(filter: SpendQuery = {}): bigint {
+    let total = 0n;
+    for (const r of this.query(filter)) total += r.gasCharged;
+    return total;
+  }
+
+  /** Net MIST charged per sender across records matching `filter`. */
+  spendBySender(filter: SpendQuery = {}): Map<string, bigint> {
+    const totals = new Map<string, bigint>();
+    for (const r of this.query(filter)) {
+      totals.set(r.sender, (totals.get(r.sender) ?? 0n) + r.gasCharged);
+    }
+    return totals;
+  }
+
+  /**
+   * Export matching records as a JSON array. Amounts are decimal strings
+   * (bigint is not JSON-serializable); recordedAt is an ISO timestamp.
+   */
+  toJSON(filter: SpendQuery = {}): string {
+    return JSON.stringify(
+      this.query(filter).map((r) => ({
+        ...r,
+        computationCost: r.computationCost.toString(),
+        storageCost: r.storageCost.toString(),
+        storageRebate: r.storageRebate.toString(),
+        nonRefundableStorageFee: r.nonRefundableStorageFee.toString(),
+        gasCharged: r.gasCharged.toString(),
+        recordedAt: new Date(r.recordedAt).toISOString(),
+      })),
+    );
+  }
+
+  /**
+   * Export matching records as CSV with a header row.
+   * Multiple Move targets are joined with `;` in one column.
+   */
+  toCSV(filter: SpendQuery = {}): string {
+    const lines = [CSV_COLUMNS.join(",")];
+    for (const r of this.query(filter)) {
+      lines.push(
+        [
+          new Date(r.recordedAt).toISOString(),
+          r.transactionDigest,
+          r.objectId,
+          r.sender,
+          r.moveTargets.join(";"),
+          r.computationCost,
+          r.storageCost,
+          r.storageRebate,
+          r.nonRefundableStorageFee,
+          r.gasCharged,
+        ]
+          .map((value) => csvField(String(value)))
+          .join(","),
+      );
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+const CSV_COLUMNS = [
+  "recordedAt",
+  "transactionDigest",
+  "objectId",
+  "sender",
+  "moveTargets",
+  "computationCost",
+  "storageCost",
+  "storageRebate",
+  "nonRefundableStorageFee",
+  "gasCharged",
+];
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,77 @@
+// Copyright (c) Danny Devs
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Optional tracing, shaped after the OpenTelemetry API so an OTel tracer
+ * (`trace.getTracer("sui-gas-station")`) can be passed in as is — no
+ * dependency on @opentelemetry/api. Spans are started with startActiveSpan,
+ * so steps nest under the operation that runs them.
+ */
+
+export type SpanAttributeValue =
+  | string
+  | number
+  | boolean
+  | Array<string | number | boolean>;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** The subset of an OpenTelemetry `Span` the gas station uses. */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setAttributes(attributes: SpanAttributes): unknown;
+  recordException(exception: Error | string): void;
+  /** `code` follows OTel's SpanStatusCode: 0 unset, 1 ok, 2 error */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** The subset of an OpenTelemetry `Tracer` the gas station uses. */
+export interface Tracer {
+  startActiveSpan<T>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: (span: Span) => T,
+  ): T;
+}
+
+const SPAN_STATUS_ERROR = 2;
+
+const noopSpan: Span = {
+  setAttribute: () => noopSpan,
+  setAttributes: () => noopSpan,
+  recordException: () => {},
+  setStatus: () => noopSpan,
+  end: () => {},
+};
+
+/** Tracer used when none is configured — spans cost one closure call. */
+export const noopTracer: Tracer = {
+  startActiveSpan: (_name, _options, fn) => fn(noopSpan),
+};
+
+/**
+ * Run `fn` in a span named `name`. The span records the error and gets an
+ * error status if `fn` throws, and always ends when `fn` settles.
+ */
+export function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (err) {
+      span.recordException(err instanceof Error ? err : String(err));
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -1,8 +1,19 @@
 // Copyright (c) Danny Devs
 // SPDX-License-Identifier: Apache-2.0
 
-import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import type {
+  BalanceChange,
+  SuiJsonRpcClient,
+  SuiObjectChange,
+  TransactionEffects,
+} from "@mysten/sui/jsonRpc";
 import type { Signer } from "@mysten/sui/cryptography";
+import type { AddressGroup } from "./address-groups.js";
+import type { CoinLeaseCoordinator } from "./coin-lease.js";
+import type { CoinPoolStore } from "./coin-pool-store.js";
+import type { QuotaStore } from "./quota.js";
+import type { SpendLedger } from "./spend-ledger.js";
+import type { Tracer } from "./tracing.js";
 
 // ─── Constructor Options ────────────────────────────────────────────
 
@@ -11,12 +22,26 @@ export interface GasSponsorOptions {
   client: SuiJsonRpcClient;
   /** Sponsor keypair — owns the gas coins, signs sponsored transactions */
   signer: Signer;
-  /** Default policy applied to all requests (can be overridden per-request) */
+  /**
+   * Baseline policy applied to every request. Named and per-request
+   * policies are checked in addition to it, never instead of it.
+   */
   policy?: SponsorPolicy;
+  /**
+   * Named policies, selected per request with `policyName`. A policy may
+   * `extends` another by name, inheriting (and only adding to) its rules.
+   */
+  policies?: Record<string, NamedPolicy>;
   /** Number of coins to maintain in the pool. Default: 20 */
   targetPoolSize?: number;
   /** Balance to allocate per pool coin (in MIST). Default: 500_000_000 (0.5 SUI) */
   targetCoinBalance?: bigint;
+  /**
+   * Coin sizes to keep in the pool, each with its own count. Replaces
+   * targetPoolSize and targetCoinBalance; transactions without an explicit
+   * gasBudget are then estimated and get the smallest coin that covers them.
+   */
+  coinTiers?: CoinTier[];
   /** Minimum coin balance for reuse after execution. Default: 50_000_000 (0.05 SUI) */
   minCoinBalance?: bigint;
   /** Auto-release reserved coins after this many ms. Default: 30_000 (30s) */
@@ -34,6 +59,111 @@ export interface GasSponsorOptions {
    * Example: `onPoolDepleted: (stats) => sponsor.replenish()`
    */
   onPoolDepleted?: (stats: PoolStats) => void;
+  /**
+   * Persist pool state (coin refs, balances, reservations) across restarts.
+   * On initialize(), a saved snapshot is reconciled against the chain instead
+   * of re-fetching and re-splitting coins. Default: none (memory only)
+   */
+  store?: CoinPoolStore;
+  /**
+   * Shared lease coordinator for running several replicas with one sponsor key.
+   * Each reserved coin is leased before use so no two replicas sign over the
+   * same gas coin. Default: none (single instance)
+   */
+  leases?: CoinLeaseCoordinator;
+  /** Lease holder identity for this replica. Default: random UUID */
+  instanceId?: string;
+  /**
+   * Lease length while a coin is being sponsored (ms). Once signed, the lease
+   * is extended to the end of the transaction's expiration epoch plus this
+   * margin, and renewed while reconciliation keeps the coin reserved.
+   * Default: 300_000 (5 min)
+   */
+  leaseTtlMs?: number;
+  /**
+   * Counter store backing `policy.quota` limits. Share one store between
+   * replicas to enforce quotas across them. Default: in-memory
+   */
+  quotaStore?: QuotaStore;
+  /**
+   * Ledger receiving a spend record per reported transaction.
+   * Default: a new in-memory SpendLedger (exposed as `sponsor.ledger`)
+   */
+  ledger?: SpendLedger;
+  /**
+   * Dry-run every transaction after building and before signing, rejecting
+   * those that would fail on-chain with SIMULATION_FAILED. Costs one extra
+   * RPC call per request. Default: false
+   */
+  simulateTransactions?: boolean;
+  /**
+   * Most pool coins one transaction may pay gas with. A gas budget larger
+   * than any single coin is covered by combining coins, which Sui merges
+   * into the first on execution. Set to 1 to disable. Default: 8
+   */
+  maxGasCoins?: number;
+  /**
+   * Most sponsorship signatures requested from the signer at once; further
+   * requests queue in order. Meant for remote (KMS/HSM) signers with
+   * limited throughput. Default: unlimited
+   */
+  maxConcurrentSigns?: number;
+  /**
+   * Fail a sponsorship with SIGN_TIMEOUT, releasing its gas coins, when its
+   * signature (queueing included) takes longer than this (ms). Must be below
+   * reservationTimeoutMs. Default: no timeout
+   */
+  signTimeoutMs?: number;
+  /**
+   * OpenTelemetry-compatible tracer. sponsorTransaction() and the pool's
+   * network operations are wrapped in spans. Default: no tracing
+   */
+  tracer?: Tracer;
+  /**
+   * Further sponsor keys, each with its own coin pool, alongside `signer`.
+   * Add and retire keys at runtime with addSponsor() and retireSponsor().
+   * Default: none
+   */
+  sponsors?: SponsorOptions[];
+}
+
+/** A sponsor key in a multi-sponsor GasSponsor. */
+export interface SponsorOptions {
+  /** Sponsor keypair — owns this sponsor's gas coins */
+  signer: Signer;
+  /**
+   * Route requests for these named policies to this sponsor. Sponsors
+   * without policyNames take all other requests. Default: none
+   */
+  policyNames?: string[];
+  /** Persist this sponsor's pool across restarts. Default: none */
+  store?: CoinPoolStore;
+}
+
+/** One coin size in a tiered pool. */
+export interface CoinTier {
+  /** Balance of each coin in this tier (in MIST) */
+  balance: bigint;
+  /** Number of coins to keep at this size */
+  count: number;
+}
+
+// ─── Sponsorship Request ────────────────────────────────────────────
+
+export interface SponsorRequest {
+  /** The sender's address (who signs as sender) */
+  sender: string;
+  /** Transaction kind bytes (base64 or Uint8Array) */
+  transactionKindBytes: string | Uint8Array;
+  /** Optional explicit gas budget (auto-estimated if omitted) */
+  gasBudget?: bigint;
+  /** Name of a policy from GasSponsorOptions.policies to apply */
+  policyName?: string;
+  /**
+   * Optional extra policy for this request, checked alongside the others.
+   * It can only restrict: `allowGasCoinUsage: true` in it is ignored.
+   */
+  policy?: SponsorPolicy;
 }
 
 // ─── Sponsorship Result ─────────────────────────────────────────────
@@ -47,8 +177,21 @@ export interface SponsoredTransaction {
   gasBudget: bigint;
   /** Reference gas price used (in MIST) */
   gasPrice: bigint;
+  /** Address of the sponsor paying for gas */
+  sponsorAddress: string;
   /** Reservation handle — pass to reportExecution() after tx completes */
   reservation: GasCoinReservation;
+  /** Dry-run result, when `simulateTransactions` is enabled */
+  simulation?: SimulationResult;
+}
+
+export interface SimulationResult {
+  /** Simulated effects (status, gas used, object changes) */
+  effects: TransactionEffects;
+  /** Simulated coin balance changes per owner */
+  balanceChanges: BalanceChange[];
+  /** Simulated object changes (created, mutated, transferred, …) */
+  objectChanges: SuiObjectChange[];
 }
 
 export interface GasCoinReservation {
@@ -56,6 +199,18 @@ export interface GasCoinReservation {
   objectId: string;
   /** Timestamp when the coin was reserved */
   reservedAt: number;
+  /** Digest of the sponsored transaction — used to reconcile expired reservations */
+  transactionDigest: string;
+  /**
+   * Additional gas coins paying for the transaction, when the budget
+   * exceeded any single coin. Sui merges them into `objectId` on execution.
+   */
+  mergedCoinIds?: string[];
+  /**
+   * Lease holder (instanceId) of the replica that reserved the coins, when a
+   * lease coordinator is set. Lets any replica release the leases on report.
+   */
+  leaseHolder?: string;
 }
 
 // ─── Pool Stats ─────────────────────────────────────────────────────
@@ -65,9 +220,89 @@ export interface PoolStats {
   availableCoins: number;
   reservedCoins: number;
   totalBalance: bigint;
-  sponsorAddress: string;
+  /** The first active sponsor's address; absent while every key is draining */
+  sponsorAddress?: string;
   currentEpoch: string;
   gasPrice: bigint;
+  /** Sponsorship signatures being signed right now */
+  signsInFlight: number;
+  /** Sponsorship signatures waiting for maxConcurrentSigns to allow them */
+  signsQueued: number;
+  /** Per sponsor key, in the order they were added */
+  sponsors: SponsorStats[];
+}
+
+/** Pool statistics of one sponsor key. PoolStats sums them up. */
+export interface SponsorStats {
+  address: string;
+  /** "draining" once retireSponsor() was called — no new requests */
+  status: "active" | "draining";
+  totalCoins: number;
+  availableCoins: number;
+  reservedCoins: number;
+  totalBalance: bigint;
+  signsInFlight: number;
+  signsQueued: number;
+}
+
+// ─── Pool Maintenance ───────────────────────────────────────────────
+
+export interface PoolMaintenanceOptions {
+  /** Time between maintenance passes (ms). Default: 60_000 (1 min) */
+  intervalMs?: number;
+  /**
+   * Refill the pool once this few coins are available.
+   * Default: a quarter of targetPoolSize
+   */
+  lowWatermark?: number;
+  /** Available coins to refill the pool up to. Default: targetPoolSize */
+  highWatermark?: number;
+  /**
+   * Pool coins below this balance are topped back up to targetCoinBalance
+   * (with coinTiers, to the smallest tier that covers them). Default: 2 × minCoinBalance
+   */
+  topUpThreshold?: bigint;
+  /**
+   * Merge the sponsor's dust coins (below minCoinBalance) into the source
+   * coin. Default: true
+   */
+  sweepDust?: boolean;
+  /** Called with the error when a background pass fails. Default: ignored */
+  onError?: (err: unknown) => void;
+  /** Timer functions driving the loop — inject for deterministic tests */
+  scheduler?: MaintenanceScheduler;
+}
+
+export interface MaintenanceScheduler {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface PoolMaintenanceReport {
+  /** Untracked sponsor coins added to the pool as they are */
+  adopted: number;
+  /** New coins split from the sponsor's source coins */
+  created: number;
+  /** Pool coins topped back up to targetCoinBalance or their tier */
+  toppedUp: string[];
+  /** Dust coins merged into the source coin */
+  swept: number;
+  /** Maintenance transactions, in order — empty if none was needed */
+  transactionDigests: string[];
+}
+
+export interface RebalanceReport {
+  /** Low-balance pool coins merged into the source coin */
+  merged: string[];
+  /** Fresh pool coins split off at targetCoinBalance, or per tier */
+  created: string[];
+  /** One transaction per batch, in order */
+  transactionDigests: string[];
+  /**
+   * Ref of the source coin after the last batch, if any ran. With several
+   * sponsors, that of the last sponsor rebalanced
+   */
+  sourceCoin?: { objectId: string; version: string; digest: string };
 }
 
 // ─── Policy ─────────────────────────────────────────────────────────
@@ -75,10 +310,31 @@ export interface PoolStats {
 export interface SponsorPolicy {
   /** Maximum gas budget per transaction (in MIST) */
   maxBudgetPerTx?: bigint;
-  /** Allowlist of Move function targets (e.g. '0xpkg::module::function') */
+  /**
+   * Finer-grained budget caps. The tightest cap that applies to a
+   * transaction (including maxBudgetPerTx) is enforced.
+   */
+  budgetCaps?: BudgetCaps;
+  /**
+   * Allowlist of Move function targets. Accepts exact targets
+   * ('0xpkg::module::function') and wildcards ('0xpkg::module::*', '0xpkg::*').
+   */
   allowedMoveTargets?: string[];
+  /**
+   * Upgrade lineages: original package ID → IDs of its upgraded versions.
+   * allowedMoveTargets and moveCallConstraints entries written against any
+   * version of a package match calls to every version in its lineage.
+   */
+  packageLineages?: Record<string, string[]>;
   /** Blocklist of sender addresses */
   blockedAddresses?: string[];
+  /**
+   * Allowlist of sender addresses. When this or allowedAddressGroups is set,
+   * only senders listed here or in one of the groups are sponsored.
+   */
+  allowedAddresses?: string[];
+  /** Sender groups (static, file or async lookup) — see allowedAddresses */
+  allowedAddressGroups?: AddressGroup[];
   /**
    * Allow transaction kind bytes to reference the gas coin in PTB commands
    * (SplitCoins, TransferObjects, MergeCoins, MoveCall, MakeMoveVec).
@@ -90,11 +346,134 @@ export interface SponsorPolicy {
    * beyond gas payment (e.g. splitting SUI from the gas coin for in-tx use).
    */
   allowGasCoinUsage?: boolean;
+  /**
+   * Reject transactions that take anything from the sponsor beyond the gas
+   * fee: a larger SUI balance drop, any other coin balance drop, or changes
+   * to sponsor-owned objects other than the gas coin. Checked on the
+   * simulated transaction, so it implies a dry run before signing.
+   */
+  protectSponsorAssets?: boolean;
+  /**
+   * Argument-level rules for specific Move targets, keyed by
+   * `package::module::function`. Every call to a listed target must satisfy
+   * its constraint; calls to unlisted targets are unaffected.
+   */
+  moveCallConstraints?: Record<string, MoveCallConstraint>;
   /** Custom validation function — return false to reject */
   customValidator?: (
     sender: string,
     kindBytes: Uint8Array,
   ) => boolean | Promise<boolean>;
+  /**
+   * Stateful rate and spend limits, enforced by GasSponsor against its
+   * quotaStore. Spend is credited from actual gas used in reportExecution().
+   */
+  quota?: QuotaPolicy;
+  /** Sub-policies that must all pass, in addition to this policy's own rules */
+  allOf?: SponsorPolicy[];
+  /** Sub-policies of which at least one must pass, in addition to this policy's own rules */
+  anyOf?: SponsorPolicy[];
+}
+
+/** A registry entry in GasSponsorOptions.policies. */
+export interface NamedPolicy extends SponsorPolicy {
+  /** Name of the policy this one builds on — both must pass */
+  extends?: string;
+}
+
+export interface BudgetCaps {
+  /**
+   * Caps (in MIST) for transactions calling a matching target. Keys accept
+   * the same forms as allowedMoveTargets: 'pkg::module::function',
+   * 'pkg::module::*' and 'pkg::*' (a whole package).
+   */
+  byMoveTarget?: Record<string, bigint>;
+  /** Caps (in MIST) for transactions with at most `maxCommands` PTB commands */
+  byCommandCount?: Array<{ maxCommands: number; maxBudget: bigint }>;
+}
+
+export interface MoveCallConstraint {
+  /**
+   * Rules per argument position (0-based), e.g. `{ 0: { type: "object", objectIds: [POOL_ID] } }`.
+   * A constrained argument must be a transaction input — results of earlier
+   * commands can't be inspected and are rejected.
+   */
+  arguments?: Record<number, MoveArgumentConstraint>;
+  /** Allowed type arguments per position (0-based), e.g. `{ 0: ["0x2::sui::SUI"] }` */
+  typeArguments?: Record<number, string[]>;
+}
+
+export type MoveArgumentConstraint =
+  /** An object input whose ID is one of `objectIds` */
+  | { type: "object"; objectIds: string[] }
+  /** A pure unsigned integer within `[min, max]` (both inclusive, both optional) */
+  | {
+      type: "u8" | "u16" | "u32" | "u64" | "u128" | "u256";
+      min?: bigint;
+      max?: bigint;
+    }
+  /** A pure address equal to one of `oneOf` */
+  | { type: "address"; oneOf: string[] }
+  /** A pure bool equal to `equals` */
+  | { type: "bool"; equals: boolean };
+
+export interface QuotaPolicy {
+  /** Max sponsored transactions per sender within a fixed window */
+  maxTransactionsPerSender?: { limit: number; windowMs: number };
+  /** Max MIST spent per sender per UTC day */
+  maxSpendPerSenderPerDay?: bigint;
+  /** Max MIST spent across all senders per UTC day */
+  maxGlobalSpendPerDay?: bigint;
+}
+
+// ─── Policy Decisions ───────────────────────────────────────────────
+
+/** Rule names reported by evaluatePolicy(). */
+export type PolicyRule =
+  | "transaction" // Kind bytes could not be parsed
+  | "maxBudget" // maxBudgetPerTx and budgetCaps
+  | "blockedAddresses"
+  | "allowedAddresses" // allowedAddresses and allowedAddressGroups
+  | "allowedMoveTargets"
+  | "moveCallConstraints"
+  | "customValidator"
+  | "anyOf"
+  | "gasCoinUsage"
+  | "protectSponsorAssets";
+
+export interface PolicyRuleResult {
+  rule: PolicyRule;
+  /**
+   * Position of the rule's policy in a composition, e.g. "allOf[1].anyOf[0]".
+   * Empty for the top-level policy.
+   */
+  path: string;
+  passed: boolean;
+  /** Violation message — the one validatePolicy() would throw */
+  message?: string;
+  /** Values the rule matched or rejected (budgets, targets, groups…) */
+  details?: Record<string, unknown>;
+}
+
+/** A PTB command that references the sponsor's gas coin. */
+export interface GasCoinUsage {
+  commandIndex: number;
+  commandKind: string;
+}
+
+/** Full result of evaluatePolicy(). */
+export interface PolicyDecision {
+  /** Whether sponsorTransaction() would admit the request */
+  allowed: boolean;
+  sender: string;
+  /** Move call targets in the transaction (full-length package IDs) */
+  moveTargets: string[];
+  /** Commands referencing the gas coin */
+  gasCoinUsage: GasCoinUsage[];
+  /** Gas budget cap the request is admitted under (undefined if uncapped) */
+  maxBudget?: bigint;
+  /** Every rule evaluated, failed or not, in evaluation order */
+  rules: PolicyRuleResult[];
 }
 
 // ─── Execution Effects (structural type — compatible with SDK's TransactionEffects) ─
@@ -121,7 +500,7 @@ export interface ExecutionEffects {
   };
 }
 
-// ─── Internal Types (used by CoinPool, not exported from index) ─────
+// ─── Pool Entries (exported as a type for CoinPoolStore implementations) ─
 
 export interface CoinEntry {
   objectId: string;
@@ -130,8 +509,41 @@ export interface CoinEntry {
   balance: bigint;
   status: "available" | "reserved";
   reservedAt: number | null;
+  /** Digest of the transaction this coin was signed for (while reserved) */
+  transactionDigest?: string;
+  /** Last epoch that transaction may execute in (its `expiration`) */
+  transactionExpiration?: string;
+  /**
+   * Extra gas coins reserved with this one for the same transaction. They
+   * are merged into this coin (and deleted) when it executes.
+   */
+  mergedCoinIds?: string[];
+  /** What the coin was sponsored for (while reserved) */
+  sponsorship?: SponsorshipContext;
 }
 
+/**
+ * The sponsorship a reserved gas coin pays for, persisted with the
+ * reservation so its spend is accounted once it settles — also after a
+ * restart.
+ */
+export interface SponsorshipContext {
+  sender: string;
+  /** Move call targets, for the spend ledger */
+  moveTargets: string[];
+  /** Budget held against the daily spend caps, if any applied */
+  spendHold?: SpendHold;
+}
+
+/** Gas budget held against the daily spend caps until a sponsorship settles. */
+export interface SpendHold {
+  amount: bigint;
+  /** Day window the hold was counted in; settlement adjusts the same one */
+  day: number;
+}
+
+// ─── Internal Types (not exported from index) ───────────────────────
+
 export interface GasPriceCache {
   price: bigint;
   epoch: string;
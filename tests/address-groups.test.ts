@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileAddressGroup,
+  LookupAddressGroup,
+  StaticAddressGroup,
+} from "../src/address-groups.js";
+
+const ALICE = "0x" + "ab".repeat(32);
+const BOB = "0x" + "cd".repeat(32);
+
+describe("StaticAddressGroup", () => {
+  it("matches short and full-length address forms", async () => {
+    const group = new StaticAddressGroup("core", ["0x2", ALICE]);
+
+    expect(await group.has("0x" + "0".repeat(63) + "2")).toBe(true);
+    expect(await group.has(ALICE)).toBe(true);
+    expect(await group.has(BOB)).toBe(false);
+  });
+});
+
+describe("FileAddressGroup", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gas-station-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads one address per line, ignoring comments", async () => {
+    const path = join(dir, "members.txt");
+    await writeFile(path, `# onboarding cohort\n${ALICE}\n\n0x2 # ops\n`);
+    const group = new FileAddressGroup("cohort", path);
+
+    expect(await group.has(ALICE)).toBe(true);
+    expect(await group.has("0x2")).toBe(true);
+    expect(await group.has(BOB)).toBe(false);
+  });
+
+  it("reads a JSON array", async () => {
+    const path = join(dir, "members.json");
+    await writeFile(path, JSON.stringify([BOB]));
+
+    expect(await new FileAddressGroup("cohort", path).has(BOB)).toBe(true);
+  });
+
+  it("re-reads the file after refreshMs", async () => {
+    const path = join(dir, "members.txt");
+    await writeFile(path, ALICE);
+    let now = 0;
+    const group = new FileAddressGroup("cohort", path, {
+      refreshMs: 1_000,
+      now: () => now,
+    });
+    expect(await group.has(BOB)).toBe(false);
+
+    await writeFile(path, `${ALICE}\n${BOB}`);
+    expect(await group.has(BOB)).toBe(false); // Still cached
+
+    now = 1_000;
+    expect(await group.has(BOB)).toBe(true);
+  });
+
+  it("keeps the last good list when a reload fails", async () => {
+    const path = join(dir, "members.txt");
+    await writeFile(path, ALICE);
+    let now = 0;
+    const group = new FileAddressGroup("cohort", path, {
+      refreshMs: 1_000,
+      now: () => now,
+    });
+    expect(await group.has(ALICE)).toBe(true);
+
+    await rm(path);
+    now = 1_000;
+    expect(await group.has(ALICE)).toBe(true);
+  });
+
+  it("throws when the file was never readable", async () => {
+    const group = new FileAddressGroup("cohort", join(dir, "missing.txt"));
+    await expect(group.has(ALICE)).rejects.toThrow("ENOENT");
+  });
+
+  it("waits retryMs before reading again after a failure", async () => {
+    const path = join(dir, "members.txt");
+    let now = 0;
+    const group = new FileAddressGroup("cohort", path, {
+      retryMs: 1_000,
+      now: () => now,
+    });
+    await expect(group.has(ALICE)).rejects.toThrow("ENOENT");
+
+    // Still failing from the cached error, without touching the file
+    await writeFile(path, ALICE);
+    await expect(group.has(ALICE)).rejects.toThrow("ENOENT");
+
+    now = 1_000;
+    expect(await group.has(ALICE)).toBe(true);
+  });
+
+  it("keeps the last good list while backing off", async () => {
+    const path = join(dir, "members.txt");
+    await writeFile(path, ALICE);
+    let now = 0;
+    const group = new FileAddressGroup("cohort", path, {
+      refreshMs: 1_000,
+      retryMs: 5_000,
+      now: () => now,
+    });
+    expect(await group.has(ALICE)).toBe(true);
+
+    await rm(path);
+    now = 1_000;
+    expect(await group.has(ALICE)).toBe(true);
+
+    // Not re-read before retryMs, even though refreshMs has passed
+    await writeFile(path, BOB);
+    now = 2_000;
+    expect(await group.has(BOB)).toBe(false);
+    now = 6_000;
+    expect(await group.has(BOB)).toBe(true);
+  });
+});
+
+describe("LookupAddressGroup", () => {
+  it("caches positive and negative answers until they expire", async () => {
+    let now = 0;
+    const lookup = vi.fn(async (address: string) => address === ALICE);
+    const group = new LookupAddressGroup("registered", lookup, {
+      ttlMs: 1_000,
+      now: () => now,
+    });
+
+    expect(await group.has(ALICE)).toBe(true);
+    expect(await group.has(BOB)).toBe(false);
+    expect(await group.has(ALICE)).toBe(true);
+    expect(await group.has(BOB)).toBe(false);
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    now = 1_000;
+    await group.has(ALICE);
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it("passes normalized addresses to the lookup", async () => {
+    const lookup = vi.fn(async () => true);
+    await new LookupAddressGroup("registered", lookup).has("0x2");
+
+    expect(lookup).toHaveBeenCalledWith("0x" + "0".repeat(63) + "2");
+  });
+
+  it("evicts the oldest entries beyond maxEntries", async () => {
+    const lookup = vi.fn(async () => true);
+    const group = new LookupAddressGroup("registered", lookup, {
+      maxEntries: 1,
+    });
+
+    await group.has(ALICE);
+    await group.has(BOB);
+    await group.has(ALICE);
+    expect(lookup).toHaveBeenCalledTimes(3);
+  });
+
+  it("shares one lookup between concurrent checks", async () => {
+    let answer!: (member: boolean) => void;
+    const lookup = vi.fn(
+      () => new Promise<boolean>((resolve) => (answer = resolve)),
+    );
+    const group = new LookupAddressGroup("registered", lookup);
+
+    const checks = [group.has(ALICE), group.has(ALICE)];
+    answer(true);
+
+    expect(await Promise.all(checks)).toEqual([true, true]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not cache failed lookups", async () => {
+    const lookup = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("connection refused"))
+      .mockResolvedValueOnce(true);
+    const group = new LookupAddressGroup("registered", lookup);
+
+    await expect(group.has(ALICE)).rejects.toThrow("connection refused");
+    expect(await group.has(ALICE)).toBe(true);
+  });
+
+  it("re-checks an address after invalidate()", async () => {
+    const registered = new Set<string>();
+    const group = new LookupAddressGroup("registered", async (a) =>
+      registered.has(a),
+    );
+    expect(await group.has(ALICE)).toBe(false);
+
+    registered.add(ALICE);
+    group.invalidate(ALICE);
+    expect(await group.has(ALICE)).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  InMemoryCoinLeaseCoordinator,
+  RedisCoinLeaseCoordinator,
+} from "../src/coin-lease.js";
+import { objectId } from "./helpers.js";
+
+const COIN = objectId("c1");
+const REF = {
+  version: "5",
+  digest: "CktRuQ2mttgRGkXJtyksdKHjUdc2C4TgDzyB98oEzy8",
+  balance: 490_000_000n,
+};
+
+describe("InMemoryCoinLeaseCoordinator", () => {
+  it("grants a lease to only one holder at a time", async () => {
+    const leases = new InMemoryCoinLeaseCoordinator();
+
+    expect(await leases.acquire(COIN, "a", 1_000)).toEqual({
+      objectId: COIN,
+      latest: null,
+    });
+    expect(await leases.acquire(COIN, "b", 1_000)).toBeNull();
+  });
+
+  it("lets another holder take an expired lease", async () => {
+    let now = 0;
+    const leases = new InMemoryCoinLeaseCoordinator(() => now);
+
+    await leases.acquire(COIN, "a", 1_000);
+    now = 1_001;
+    expect(await leases.acquire(COIN, "b", 1_000)).not.toBeNull();
+  });
+
+  it("ignores releases from a holder that no longer owns the lease", async () => {
+    let now = 0;
+    const leases = new InMemoryCoinLeaseCoordinator(() => now);
+
+    await leases.acquire(COIN, "a", 1_000);
+    now = 2_000;
+    await leases.acquire(COIN, "b", 1_000);
+
+    // "a" releasing late must not free "b"'s lease
+    await leases.release(COIN, "a");
+    expect(await leases.acquire(COIN, "c", 1_000)).toBeNull();
+  });
+
+  it("hands the published ref to the next holder", async () => {
+    const leases = new InMemoryCoinLeaseCoordinator();
+
+    await leases.acquire(COIN, "a", 1_000);
+    await leases.release(COIN, "a", REF);
+
+    expect((await leases.acquire(COIN, "b", 1_000))?.latest).toEqual(REF);
+  });
+
+  it("never replaces a newer published ref with an older one", async () => {
+    const leases = new InMemoryCoinLeaseCoordinator();
+
+    await leases.release(COIN, "a", REF);
+    await leases.release(COIN, "b", { ...REF, version: "3" });
+
+    expect((await leases.acquire(COIN, "c", 1_000))?.latest?.version).toBe("5");
+  });
+
+  it("renews only a live lease of the same holder", async () => {
+    let now = 0;
+    const leases = new InMemoryCoinLeaseCoordinator(() => now);
+    await leases.acquire(COIN, "a", 1_000);
+
+    expect(await leases.renew(COIN, "b", 10_000)).toBe(false);
+    expect(await leases.renew(COIN, "a", 10_000)).toBe(true);
+    now = 5_000;
+    expect(await leases.acquire(COIN, "b", 1_000)).toBeNull();
+
+    now = 10_001;
+    expect(await leases.renew(COIN, "a", 10_000)).toBe(false);
+  });
+
+  it("keeps the lease when ifNewer is given a ref that is not newer", async () => {
+    const leases = new InMemoryCoinLeaseCoordinator();
+    await leases.release(COIN, "a", REF);
+    await leases.acquire(COIN, "a", 1_000);
+
+    // A replayed report carries the ref that is already published
+    await leases.release(COIN, "a", REF, { ifNewer: true });
+    expect(await leases.acquire(COIN, "b", 1_000)).toBeNull();
+
+    await leases.release(
+      COIN,
+      "a",
+      { ...REF, version: "6" },
+      { ifNewer: true },
+    );
+    expect(await leases.acquire(COIN, "b", 1_000)).not.toBeNull();
+  });
+});
+
+describe("RedisCoinLeaseCoordinator", () => {
+  it("acquires with SET NX PX on prefixed keys", async () => {
+    const redis = { eval: vi.fn().mockResolvedValue("") };
+    const leases = new RedisCoinLeaseCoordinator(redis, { keyPrefix: "gs:" });
+
+    const lease = await leases.acquire(COIN, "replica-1", 30_000);
+
+    expect(lease).toEqual({ objectId: COIN, latest: null });
+    const [script, numKeys, ...args] = redis.eval.mock.calls[0];
+    expect(script).toContain("'NX'");
+    expect(numKeys).toBe(2);
+    expect(args).toEqual([
+      `gs:lease:${COIN}`,
+      `gs:ref:${COIN}`,
+      "replica-1",
+      30_000,
+    ]);
+  });
+
+  it("returns null when the lease is held elsewhere", async () => {
+    const redis = { eval: vi.fn().mockResolvedValue(null) };
+    const leases = new RedisCoinLeaseCoordinator(redis);
+
+    expect(await leases.acquire(COIN, "replica-1", 30_000)).toBeNull();
+  });
+
+  it("decodes the published ref on acquire", async () => {
+    const redis = {
+      eval: vi
+        .fn()
+        .mockResolvedValue(
+          JSON.stringify({ ...REF, balance: REF.balance.toString() }),
+        ),
+    };
+    const leases = new RedisCoinLeaseCoordinator(redis);
+
+    expect((await leases.acquire(COIN, "replica-1", 30_000))?.latest).toEqual(
+      REF,
+    );
+  });
+
+  it("renews with PEXPIRE only for the holder", async () => {
+    const redis = { eval: vi.fn().mockResolvedValue(1) };
+    const leases = new RedisCoinLeaseCoordinator(redis);
+
+    expect(await leases.renew(COIN, "replica-1", 60_000)).toBe(true);
+    const [script, numKeys, ...args] = redis.eval.mock.calls[0];
+    expect(script).toContain("PEXPIRE");
+    expect(numKeys).toBe(1);
+    expect(args).toEqual([
+      `sui-gas-station:lease:${COIN}`,
+      "replica-1",
+      60_000,
+    ]);
+
+    redis.eval.mockResolvedValueOnce(0);
+    expect(await leases.renew(COIN, "replica-1", 60_000)).toBe(false);
+  });
+
+  it("publishes the ref and releases by holder", async () => {
+    const redis = { eval: vi.fn().mockResolvedValue(1) };
+    const leases = new RedisCoinLeaseCoordinator(redis);
+
+    await leases.release(COIN, "replica-1", REF);
+
+    const [script, , ...args] = redis.eval.mock.calls[0];
+    // Versions compare as strings — tonumber() would round above 2^53
+    expect(script).not.toContain("tonumber");
+    expect(args).toEqual([
+      `sui-gas-station:lease:${COIN}`,
+      `sui-gas-station:ref:${COIN}`,
+      "replica-1",
+      JSON.stringify({
+        version: "5",
+        digest: REF.digest,
+        balance: "490000000",
+      }),
+      "5",
+      "0",
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileCoinPoolStore,
+  InMemoryCoinPoolStore,
+  SqliteCoinPoolStore,
+  type SqliteDatabase,
+} from "../src/coin-pool-store.js";
+import type { CoinEntry } from "../src/types.js";
+import { objectId } from "./helpers.js";
+
+const ENTRIES: CoinEntry[] = [
+  {
+    objectId: objectId("c1"),
+    version: "7",
+    digest: "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi",
+    balance: 500_000_000n,
+    status: "available",
+    reservedAt: null,
+  },
+  {
+    objectId: objectId("c2"),
+    version: "9",
+    digest: "8qbHbw2BbbTHBW1sbeqakYXVKRQM8Ne7pLK7m6CVfeR",
+    balance: 123_456_789_012_345_678n, // exceeds Number.MAX_SAFE_INTEGER
+    status: "reserved",
+    reservedAt: 1_700_000_000_000,
+    transactionDigest: "GgBaCs3NCBuZN12kCJgAW63ydqohFkHEdfdEXBPzLHq",
+    transactionExpiration: "412",
+    mergedCoinIds: [objectId("c3")],
+    sponsorship: {
+      sender: "0x" + "ab".repeat(32),
+      moveTargets: ["0x2::coin::split"],
+      spendHold: { amount: 10_000_000n, day: 20_000 },
+    },
+  },
+];
+
+/**
+ * Tiny in-memory stand-in for a synchronous SQLite handle.
+ * Understands only the statements SqliteCoinPoolStore issues.
+ */
+function fakeSqlite(): SqliteDatabase & { rows: unknown[][] } {
+  let rows: unknown[][] = [];
+  let pending: unknown[][] | null = null;
+  return {
+    get rows() {
+      return rows;
+    },
+    exec(sql: string) {
+      if (sql === "BEGIN") pending = [...rows];
+      else if (sql === "COMMIT") {
+        rows = pending!;
+        pending = null;
+      } else if (sql === "ROLLBACK") pending = null;
+      else if (sql.startsWith("DELETE")) pending = [];
+    },
+    prepare(sql: string) {
+      return {
+        run: (...params: unknown[]) => {
+          if (params[0] === "boom") throw new Error("constraint failed");
+          pending!.push(params);
+        },
+        all: () =>
+          sql.startsWith("SELECT")
+            ? rows.map((r) => ({
+                object_id: r[0],
+                version: r[1],
+                digest: r[2],
+                balance: r[3],
+                status: r[4],
+                reserved_at: r[5],
+                transaction_digest: r[6],
+                transaction_expiration: r[7],
+                merged_coin_ids: r[8],
+                sponsorship: r[9],
+              }))
+            : [],
+      };
+    },
+  } as SqliteDatabase & { rows: unknown[][] };
+}
+
+describe("InMemoryCoinPoolStore", () => {
+  it("returns an empty snapshot before the first save", async () => {
+    const store = new InMemoryCoinPoolStore();
+    expect(await store.load()).toEqual([]);
+  });
+
+  it("round-trips entries as copies", async () => {
+    const store = new InMemoryCoinPoolStore();
+    const entries = ENTRIES.map((e) => ({ ...e }));
+    await store.save(entries);
+
+    // Mutating the saved array must not leak into the store
+    entries[0].status = "reserved";
+
+    expect(await store.load()).toEqual(ENTRIES);
+  });
+});
+
+describe("FileCoinPoolStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gas-station-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns an empty snapshot when the file does not exist", async () => {
+    const store = new FileCoinPoolStore(join(dir, "missing.json"));
+    expect(await store.load()).toEqual([]);
+  });
+
+  it("round-trips entries including bigint balances", async () => {
+    const path = join(dir, "pool.json");
+    await new FileCoinPoolStore(path).save(ENTRIES);
+
+    // A fresh instance (simulating a restart) reads the same state back
+    expect(await new FileCoinPoolStore(path).load()).toEqual(ENTRIES);
+
+    const raw = JSON.parse(await readFile(path, "utf8"));
+    expect(raw.coins[1].balance).toBe("123456789012345678");
+  });
+
+  it("overwrites the previous snapshot", async () => {
+    const store = new FileCoinPoolStore(join(dir, "pool.json"));
+    await store.save(ENTRIES);
+    await store.save([ENTRIES[0]]);
+    expect(await store.load()).toEqual([ENTRIES[0]]);
+  });
+});
+
+describe("SqliteCoinPoolStore", () => {
+  it("round-trips entries through the database handle", async () => {
+    const db = fakeSqlite();
+    const store = new SqliteCoinPoolStore(db);
+    await store.save(ENTRIES);
+
+    expect(db.rows).toHaveLength(2);
+    expect(await store.load()).toEqual(ENTRIES);
+  });
+
+  it("rolls back when a write fails", async () => {
+    const db = fakeSqlite();
+    const store = new SqliteCoinPoolStore(db);
+    await store.save(ENTRIES);
+
+    await expect(
+      store.save([{ ...ENTRIES[0], objectId: "boom" }]),
+    ).rejects.toThrow("constraint failed");
+    expect(await store.load()).toEqual(ENTRIES);
+  });
+
+  it("rejects unsafe table names", () => {
+    expect(
+      () => new SqliteCoinPoolStore(fakeSqlite(), { table: "coins; DROP" }),
+    ).toThrow("Invalid SQLite table name");
+  });
+});
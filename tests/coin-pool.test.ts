@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
 import { CoinPool } from "../src/coin-pool.js";
+import { InMemoryCoinPoolStore } from "../src/coin-pool-store.js";
 import {
   makeCoin,
   mockSuiClient,
@@ -273,6 +275,19 @@ describe("CoinPool", () => {
       expect(stats.total).toBe(1); // Down from 2
     });
 
+    it("emits an expired event for each dropped reservation", () => {
+      const listener = vi.fn();
+      pool.on("expired", listener);
+      const coin = pool.reserve()!;
+
+      pool.recycleExpired(Date.now() + 2_000);
+
+      expect(listener).toHaveBeenCalledWith({
+        objectId: coin.objectId,
+        outcome: "dropped",
+      });
+    });
+
     it("does not release fresh reservations", () => {
       pool.reserve();
       const expired = pool.recycleExpired(Date.now());
@@ -283,6 +298,280 @@ describe("CoinPool", () => {
     });
   });
 
+  describe("reconcileExpired", () => {
+    const DIGEST = "CktRuQ2mttgRGkXJtyksdKHjUdc2C4TgDzyB98oEzy8";
+    let client: ReturnType<typeof mockSuiClient>;
+
+    beforeEach(async () => {
+      client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      });
+      pool = new CoinPool({ targetPoolSize: 2, reservationTimeoutMs: 1_000 });
+      await pool.initialize(client, mockSigner());
+    });
+
+    it("keeps expired coins with a digest out of recycleExpired", () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+
+      expect(pool.recycleExpired(Date.now() + 2_000)).toEqual([]);
+      expect(pool.getStats().reserved).toBe(1);
+    });
+
+    it("applies the real effects when the transaction landed", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+      client.getTransactionBlock.mockResolvedValueOnce({
+        digest: DIGEST,
+        effects: mockEffects(coin.objectId, { version: "5" }),
+      });
+
+      const settled = await pool.reconcileExpired(client, Date.now() + 2_000);
+
+      expect(settled).toEqual([
+        {
+          objectId: coin.objectId,
+          outcome: "executed",
+          transactionDigest: DIGEST,
+          effects: expect.objectContaining({ gasUsed: expect.any(Object) }),
+          gasCharged: 6_000_000n,
+        },
+      ]);
+      expect(client.getTransactionBlock).toHaveBeenCalledWith({
+        digest: DIGEST,
+        options: { showEffects: true },
+      });
+      expect(pool.getCoin(coin.objectId)).toMatchObject({
+        status: "available",
+        version: "5",
+        balance: 494_000_000n,
+      });
+    });
+
+    it("returns an unused coin to the pool once its transaction expired", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST, "100");
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "101",
+      );
+
+      expect(settled).toEqual([
+        { objectId: coin.objectId, outcome: "released" },
+      ]);
+      expect(pool.getStats()).toMatchObject({ available: 2, reserved: 0 });
+    });
+
+    it("keeps an unused coin reserved while its transaction can still execute", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST, "100");
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "100",
+      );
+
+      expect(settled).toEqual([
+        { objectId: coin.objectId, outcome: "pending" },
+      ]);
+      expect(pool.getCoin(coin.objectId)).toMatchObject({
+        status: "reserved",
+        transactionDigest: DIGEST,
+      });
+    });
+
+    it("drops an unused coin whose transaction has no expiration", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "101",
+      );
+
+      expect(settled).toEqual([
+        { objectId: coin.objectId, outcome: "dropped" },
+      ]);
+      expect(pool.getStats().total).toBe(1);
+    });
+
+    it("refreshes a coin whose version moved on", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST, "100");
+      client.multiGetObjects.mockResolvedValueOnce([
+        {
+          data: {
+            objectId: coin.objectId,
+            version: "42",
+            digest: "GgBaCs3NCBuZN12kCJgAW63ydqohFkHEdfdEXBPzLHq",
+            content: {
+              dataType: "moveObject",
+              fields: { balance: "490000000" },
+            },
+          },
+        },
+      ]);
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "100",
+      );
+
+      expect(settled).toEqual([
+        { objectId: coin.objectId, outcome: "released" },
+      ]);
+      expect(pool.getCoin(coin.objectId)).toMatchObject({
+        status: "available",
+        version: "42",
+      });
+    });
+
+    it("keeps the reservation when the transaction lookup fails", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST, "100");
+      client.getTransactionBlock.mockRejectedValueOnce(new Error("ECONNRESET"));
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "101",
+      );
+
+      expect(settled).toEqual([]);
+      expect(client.multiGetObjects).not.toHaveBeenCalled();
+      expect(pool.getStats().reserved).toBe(1);
+    });
+
+    it("drops the coin when it no longer exists", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+      client.multiGetObjects.mockResolvedValueOnce([{ data: null }]);
+
+      const settled = await pool.reconcileExpired(client, Date.now() + 2_000);
+
+      expect(settled).toEqual([
+        { objectId: coin.objectId, outcome: "dropped" },
+      ]);
+      expect(pool.getStats().total).toBe(1);
+    });
+
+    it("keeps the reservation when the chain is unreachable", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+      client.multiGetObjects.mockRejectedValueOnce(new Error("ECONNRESET"));
+
+      const settled = await pool.reconcileExpired(client, Date.now() + 2_000);
+
+      expect(settled).toEqual([]);
+      expect(pool.getStats().reserved).toBe(1);
+    });
+
+    it("skips coins that are not expired yet", async () => {
+      const coin = pool.reserve()!;
+      pool.setTransactionDigest(coin.objectId, DIGEST);
+
+      expect(await pool.reconcileExpired(client, Date.now())).toEqual([]);
+      expect(client.getTransactionBlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("merged gas coins", () => {
+    const DIGEST = "CktRuQ2mttgRGkXJtyksdKHjUdc2C4TgDzyB98oEzy8";
+    let client: ReturnType<typeof mockSuiClient>;
+    let primary: string;
+    let merged: string;
+
+    beforeEach(async () => {
+      client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      });
+      pool = new CoinPool({ targetPoolSize: 2, reservationTimeoutMs: 1_000 });
+      await pool.initialize(client, mockSigner());
+      primary = pool.reserve()!.objectId;
+      merged = pool.reserve()!.objectId;
+      pool.linkMergedCoins(primary, [merged]);
+    });
+
+    it("releases the merged coins with the gas coin", () => {
+      pool.release(primary);
+
+      expect(pool.getStats()).toMatchObject({ available: 2, reserved: 0 });
+      expect(pool.getCoin(primary)!.mergedCoinIds).toBeUndefined();
+    });
+
+    it("records the transaction digest on every coin of the group", () => {
+      pool.setTransactionDigest(primary, DIGEST);
+
+      expect(pool.getCoin(merged)!.transactionDigest).toBe(DIGEST);
+    });
+
+    it("folds merged balances into the gas coin and deletes them", () => {
+      const gasCharged = pool.updateFromEffects(
+        mockEffects(primary, { version: "5" }),
+        primary,
+      );
+
+      expect(gasCharged).toBe(6_000_000n);
+      expect(pool.getCoin(merged)).toBeUndefined();
+      expect(pool.getCoin(primary)).toMatchObject({
+        status: "available",
+        version: "5",
+        balance: 994_000_000n,
+      });
+      expect(pool.getCoin(primary)!.mergedCoinIds).toBeUndefined();
+    });
+
+    it("deletes the whole group on misrouted effects", () => {
+      pool.updateFromEffects(mockEffects(objectId("other")), primary);
+
+      expect(pool.size).toBe(0);
+    });
+
+    it("reconciles the group as one reservation once it lands", async () => {
+      pool.setTransactionDigest(primary, DIGEST);
+      client.getTransactionBlock.mockResolvedValueOnce({
+        digest: DIGEST,
+        effects: mockEffects(primary, { version: "5" }),
+      });
+
+      const settled = await pool.reconcileExpired(client, Date.now() + 2_000);
+
+      expect(settled).toEqual([
+        expect.objectContaining({
+          objectId: primary,
+          outcome: "executed",
+          mergedCoinIds: [merged],
+        }),
+      ]);
+      expect(client.getTransactionBlock).toHaveBeenCalledTimes(1);
+      expect(pool.getCoin(merged)).toBeUndefined();
+      expect(pool.getCoin(primary)!.balance).toBe(994_000_000n);
+    });
+
+    it("returns every unused coin of the group to the pool", async () => {
+      pool.setTransactionDigest(primary, DIGEST, "100");
+
+      const settled = await pool.reconcileExpired(
+        client,
+        Date.now() + 2_000,
+        "101",
+      );
+
+      expect(settled).toEqual([
+        { objectId: primary, outcome: "released", mergedCoinIds: [merged] },
+      ]);
+      expect(client.multiGetObjects).toHaveBeenCalledWith(
+        expect.objectContaining({ ids: [primary, merged] }),
+      );
+      expect(pool.getStats()).toMatchObject({ available: 2, reserved: 0 });
+    });
+  });
+
   describe("revalidatePool", () => {
     it("updates coin refs from network", async () => {
       const client = mockSuiClient({
@@ -459,6 +748,480 @@ describe("CoinPool", () => {
     });
   });
 
+  describe("maintain", () => {
+    const SOURCE = makeCoin("f1", "5000000000"); // 5 SUI, untracked
+    let client: ReturnType<typeof mockSuiClient>;
+    let signer: ReturnType<typeof mockSigner>;
+    const poolCoins = [
+      makeCoin("c1", "60000000"), // just above minCoinBalance
+      makeCoin("c2", "500000000"),
+      makeCoin("c3", "500000000"),
+      makeCoin("c4", "500000000"),
+    ];
+
+    /** Let the next getCoins() call see `extra` alongside the pool coins. */
+    function onChain(...extra: ReturnType<typeof makeCoin>[]) {
+      client.getCoins.mockResolvedValueOnce({
+        data: [...poolCoins, ...extra],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+    }
+
+    function builtCommands() {
+      const bytes = signer.signTransaction.mock.calls.at(-1)[0];
+      return Transaction.from(bytes).getData().commands;
+    }
+
+    beforeEach(async () => {
+      client = mockSuiClient({ coins: poolCoins });
+      signer = mockSigner();
+      pool = new CoinPool({
+        targetPoolSize: 4,
+        targetCoinBalance: 500_000_000n,
+        minCoinBalance: 50_000_000n,
+      });
+      await pool.initialize(client, signer);
+      client.executeTransactionBlock.mockResolvedValue({
+        digest: "maintenance_digest",
+        effects: {
+          status: { status: "success" },
+          mutated: [
+            {
+              reference: {
+                objectId: objectId("c1"),
+                version: "8",
+                digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+              },
+            },
+          ],
+          created: [],
+        },
+      });
+    });
+
+    it("reserves coins below twice minCoinBalance by default", () => {
+      const low = pool.reserveLowBalance();
+
+      expect(low.map((c) => c.objectId)).toEqual([objectId("c1")]);
+      expect(pool.getCoin(objectId("c1"))!.status).toBe("reserved");
+    });
+
+    it("tops up low coins from a source coin", async () => {
+      onChain(SOURCE);
+      const topUp = pool.reserveLowBalance().map((c) => c.objectId);
+
+      const report = await pool.maintain(client, signer, { topUp });
+
+      expect(report).toEqual({
+        adopted: 0,
+        created: 0,
+        toppedUp: [objectId("c1")],
+        swept: 0,
+        transactionDigests: ["maintenance_digest"],
+      });
+      expect(pool.getCoin(objectId("c1"))).toMatchObject({
+        status: "available",
+        version: "8",
+        balance: 500_000_000n,
+      });
+      expect(builtCommands().map((c) => c.$kind)).toEqual([
+        "SplitCoins",
+        "MergeCoins",
+      ]);
+    });
+
+    it("refills to the high watermark once the low watermark is reached", async () => {
+      pool.reserve();
+      pool.reserve();
+      pool.reserve(); // one coin left available
+      onChain(makeCoin("d1", "400000000"), SOURCE);
+      client.executeTransactionBlock.mockResolvedValueOnce({
+        digest: "maintenance_digest",
+        effects: {
+          status: { status: "success" },
+          created: ["e1", "e2"].map((label) => ({
+            reference: {
+              objectId: objectId(label),
+              version: "2",
+              digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+            },
+          })),
+        },
+      });
+
+      const report = await pool.maintain(client, signer, {
+        topUp: [],
+        lowWatermark: 1,
+        highWatermark: 4,
+      });
+
+      expect(report).toMatchObject({ adopted: 1, created: 2 });
+      expect(pool.getStats()).toMatchObject({ available: 4, reserved: 3 });
+    });
+
+    it("leaves the pool alone above the low watermark", async () => {
+      onChain(makeCoin("d1", "400000000"), SOURCE);
+
+      const report = await pool.maintain(client, signer, { topUp: [] });
+
+      expect(report).toEqual({
+        adopted: 0,
+        created: 0,
+        toppedUp: [],
+        swept: 0,
+        transactionDigests: [],
+      });
+      expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+    });
+
+    it("sweeps dust into the source coin", async () => {
+      onChain(SOURCE, makeCoin("d1", "1000"), makeCoin("d2", "2000"));
+
+      const report = await pool.maintain(client, signer, {
+        topUp: [],
+        sweepDust: true,
+      });
+
+      expect(report.swept).toBe(2);
+      const [merge] = builtCommands();
+      expect(merge.MergeCoins?.destination).toEqual({
+        $kind: "GasCoin",
+        GasCoin: true,
+      });
+      expect(merge.MergeCoins?.sources).toHaveLength(2);
+    });
+
+    it("only adopts coins when there is no source coin", async () => {
+      onChain();
+      const topUp = pool.reserveLowBalance().map((c) => c.objectId);
+
+      const report = await pool.maintain(client, signer, { topUp });
+
+      expect(report.toppedUp).toEqual([]);
+      expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+      expect(pool.getCoin(objectId("c1"))!.status).toBe("available");
+    });
+
+    it("releases top-up coins when signing fails", async () => {
+      onChain(SOURCE);
+      signer.signTransaction.mockRejectedValueOnce(new Error("HSM offline"));
+      const topUp = pool.reserveLowBalance().map((c) => c.objectId);
+
+      await expect(pool.maintain(client, signer, { topUp })).rejects.toThrow(
+        "HSM offline",
+      );
+      expect(pool.getCoin(objectId("c1"))!.status).toBe("available");
+    });
+
+    it("drops top-up coins when the submission outcome is unknown", async () => {
+      onChain(SOURCE);
+      client.executeTransactionBlock.mockRejectedValueOnce(
+        new Error("ECONNRESET"),
+      );
+      const topUp = pool.reserveLowBalance().map((c) => c.objectId);
+
+      await expect(pool.maintain(client, signer, { topUp })).rejects.toThrow(
+        "ECONNRESET",
+      );
+      expect(pool.getCoin(objectId("c1"))).toBeUndefined();
+    });
+  });
+
+  describe("rebalance", () => {
+    const SOURCE = makeCoin("f1", "5000000000");
+    const GAS_REF = {
+      objectId: objectId("f1"),
+      version: "12",
+      digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+    };
+    let client: ReturnType<typeof mockSuiClient>;
+    let signer: ReturnType<typeof mockSigner>;
+
+    /** Effects of a rebalance batch creating coins with the given labels. */
+    function batchEffects(labels: string[]) {
+      return {
+        digest: `rebalance_${labels[0]}`,
+        effects: {
+          status: { status: "success" },
+          gasObject: { reference: GAS_REF },
+          created: labels.map((label) => ({
+            reference: {
+              objectId: objectId(label),
+              version: "12",
+              digest: GAS_REF.digest,
+            },
+          })),
+        },
+      };
+    }
+
+    async function setup(poolCoins: ReturnType<typeof makeCoin>[]) {
+      client = mockSuiClient({ coins: poolCoins });
+      signer = mockSigner();
+      pool = new CoinPool({
+        targetPoolSize: poolCoins.length,
+        targetCoinBalance: 500_000_000n,
+        minCoinBalance: 50_000_000n,
+      });
+      await pool.initialize(client, signer);
+      client.getCoins.mockResolvedValueOnce({
+        data: [...poolCoins, SOURCE],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+    }
+
+    it("replaces low coins with fresh ones in one transaction", async () => {
+      await setup([
+        makeCoin("c1", "60000000"),
+        makeCoin("c2", "70000000"),
+        makeCoin("c3", "500000000"),
+      ]);
+      client.executeTransactionBlock.mockResolvedValueOnce(
+        batchEffects(["e1", "e2"]),
+      );
+      const low = pool.reserveLowBalance().map((c) => c.objectId);
+
+      const report = await pool.rebalance(client, signer, low);
+
+      expect(report).toEqual({
+        merged: [objectId("c1"), objectId("c2")],
+        created: [objectId("e1"), objectId("e2")],
+        transactionDigests: ["rebalance_e1"],
+        sourceCoin: GAS_REF,
+      });
+      expect(pool.getStats()).toMatchObject({
+        total: 3,
+        available: 3,
+        totalBalance: 1_500_000_000n,
+      });
+      const bytes = signer.signTransaction.mock.calls.at(-1)[0];
+      const { commands, gasData } = Transaction.from(bytes).getData();
+      expect(commands.map((c) => c.$kind)).toEqual([
+        "MergeCoins",
+        "SplitCoins",
+        "TransferObjects",
+      ]);
+      expect(gasData.payment?.map((ref) => ref.objectId)).toEqual([
+        objectId("f1"),
+      ]);
+    });
+
+    it("skips coins that are no longer reserved", async () => {
+      await setup([makeCoin("c1", "60000000"), makeCoin("c2", "70000000")]);
+      client.executeTransactionBlock.mockResolvedValueOnce(
+        batchEffects(["e1"]),
+      );
+      const low = pool.reserveLowBalance().map((c) => c.objectId);
+      pool.release(low[1]);
+
+      const report = await pool.rebalance(client, signer, low);
+
+      expect(report.merged).toEqual([low[0]]);
+      expect(pool.getCoin(low[1])!.status).toBe("available");
+    });
+
+    it("splits large rebalances into batches", async () => {
+      const labels = Array.from(
+        { length: 501 },
+        (_, i) => `b${i.toString(16).padStart(3, "0")}`,
+      );
+      await setup(labels.map((label) => makeCoin(label, "60000000")));
+      client.executeTransactionBlock
+        .mockResolvedValueOnce(batchEffects(labels.slice(0, 500)))
+        .mockResolvedValueOnce(batchEffects(["e1"]));
+      const low = pool.reserveLowBalance().map((c) => c.objectId);
+
+      const report = await pool.rebalance(client, signer, low);
+
+      expect(report.transactionDigests).toHaveLength(2);
+      expect(report.merged).toHaveLength(501);
+      // The second batch pays with the source coin's ref after the first
+      const bytes = signer.signTransaction.mock.calls.at(-1)[0];
+      expect(Transaction.from(bytes).getData().gasData.payment).toEqual([
+        GAS_REF,
+      ]);
+    });
+
+    it("throws without a source coin and releases the coins", async () => {
+      await setup([makeCoin("c1", "60000000")]);
+      client.getCoins.mockReset().mockResolvedValue({
+        data: [makeCoin("c1", "60000000")],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+      const low = pool.reserveLowBalance().map((c) => c.objectId);
+
+      await expect(pool.rebalance(client, signer, low)).rejects.toThrow(
+        "No source coin",
+      );
+      expect(pool.getStats()).toMatchObject({ available: 1, reserved: 0 });
+    });
+
+    it("drops a batch whose outcome is unknown", async () => {
+      await setup([makeCoin("c1", "60000000")]);
+      client.executeTransactionBlock.mockRejectedValueOnce(
+        new Error("ECONNRESET"),
+      );
+      const low = pool.reserveLowBalance().map((c) => c.objectId);
+
+      await expect(pool.rebalance(client, signer, low)).rejects.toThrow(
+        "ECONNRESET",
+      );
+      expect(pool.size).toBe(0);
+    });
+  });
+
+  describe("coin tiers", () => {
+    const SMALL = 100_000_000n;
+    const LARGE = 1_000_000_000n;
+    const SOURCE = makeCoin("f1", "5000000000");
+    const GAS_REF = {
+      objectId: objectId("f1"),
+      version: "12",
+      digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+    };
+    let client: ReturnType<typeof mockSuiClient>;
+    let signer: ReturnType<typeof mockSigner>;
+
+    /** Effects of a split creating coins with the given labels. */
+    function splitEffects(digest: string, labels: string[]) {
+      return {
+        digest,
+        effects: {
+          status: { status: "success" },
+          gasObject: { reference: GAS_REF },
+          created: labels.map((label) => ({
+            reference: {
+              objectId: objectId(label),
+              version: "12",
+              digest: GAS_REF.digest,
+            },
+          })),
+        },
+      };
+    }
+
+    function tieredPool(small: number, large: number) {
+      return new CoinPool({
+        coinTiers: [
+          { balance: LARGE, count: large },
+          { balance: SMALL, count: small },
+        ],
+        minCoinBalance: 50_000_000n,
+      });
+    }
+
+    beforeEach(() => {
+      signer = mockSigner();
+    });
+
+    it("rejects invalid tiers", () => {
+      expect(
+        () => new CoinPool({ coinTiers: [{ balance: 1_000n, count: 1 }] }),
+      ).toThrow("below minCoinBalance");
+      expect(
+        () => new CoinPool({ coinTiers: [{ balance: LARGE, count: 1.5 }] }),
+      ).toThrow("non-negative integer");
+      expect(
+        () =>
+          new CoinPool({
+            coinTiers: [
+              { balance: LARGE, count: 1 },
+              { balance: LARGE, count: 2 },
+            ],
+          }),
+      ).toThrow("Duplicate coin tier");
+    });
+
+    it("adopts coins per tier and splits the rest one tier per transaction", async () => {
+      client = mockSuiClient({
+        coins: [
+          makeCoin("b1", "90000000"),
+          makeCoin("b2", "100000000"),
+          makeCoin("b3", "100000000"),
+          SOURCE,
+        ],
+      });
+      client.executeTransactionBlock
+        .mockResolvedValueOnce(splitEffects("split_small", ["e1"]))
+        .mockResolvedValueOnce(splitEffects("split_large", ["e2", "e3"]));
+      pool = tieredPool(4, 2);
+
+      await pool.initialize(client, signer);
+
+      expect(pool.getStats().total).toBe(6);
+      expect(pool.getCoin(objectId("e1"))!.balance).toBe(SMALL);
+      expect(pool.getCoin(objectId("e2"))!.balance).toBe(LARGE);
+      // The second split pays with what the first left of the source coin
+      const bytes = signer.signTransaction.mock.calls[1][0];
+      expect(Transaction.from(bytes).getData().gasData.payment).toEqual([
+        GAS_REF,
+      ]);
+    });
+
+    it("reserves the smallest coin that covers the budget", async () => {
+      client = mockSuiClient({
+        coins: [
+          makeCoin("a1", "1000000000"),
+          makeCoin("b1", "100000000"),
+          makeCoin("a2", "900000000"),
+        ],
+      });
+      pool = tieredPool(1, 2);
+      await pool.initialize(client, signer);
+
+      expect(pool.reserve(50_000_000n)!.objectId).toBe(objectId("b1"));
+      expect(pool.reserve(200_000_000n)!.objectId).toBe(objectId("a2"));
+      expect(pool.reserve(200_000_000n)!.objectId).toBe(objectId("a1"));
+      expect(pool.reserve(200_000_000n)).toBeNull();
+    });
+
+    it("refills the tiers below their count and tops up to the coin's tier", async () => {
+      client = mockSuiClient({
+        coins: [makeCoin("b1", "60000000"), makeCoin("a1", "1000000000")],
+      });
+      pool = tieredPool(2, 2);
+      await pool.initialize(client, signer);
+      client.getCoins.mockResolvedValueOnce({
+        data: [
+          makeCoin("b1", "60000000"),
+          makeCoin("a1", "1000000000"),
+          SOURCE,
+        ],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+      client.executeTransactionBlock
+        .mockResolvedValueOnce({
+          ...splitEffects("maintain_small", ["e1"]),
+          effects: {
+            ...splitEffects("maintain_small", ["e1"]).effects,
+            mutated: [{ reference: { ...GAS_REF, objectId: objectId("b1") } }],
+          },
+        })
+        .mockResolvedValueOnce(splitEffects("maintain_large", ["e2"]));
+      const topUp = pool.reserveLowBalance().map((c) => c.objectId);
+
+      const report = await pool.maintain(client, signer, {
+        topUp,
+        lowWatermark: 2,
+      });
+
+      expect(report).toEqual({
+        adopted: 0,
+        created: 2,
+        toppedUp: [objectId("b1")],
+        swept: 0,
+        transactionDigests: ["maintain_small", "maintain_large"],
+      });
+      expect(pool.getCoin(objectId("b1"))!.balance).toBe(SMALL);
+      expect(pool.getCoin(objectId("e1"))!.balance).toBe(SMALL);
+      expect(pool.getCoin(objectId("e2"))!.balance).toBe(LARGE);
+    });
+  });
+
   describe("fetchAllCoins pagination", () => {
     it("fetches all pages when coins span multiple pages", async () => {
       const client = mockSuiClient({ coins: [] });
@@ -579,4 +1342,127 @@ describe("CoinPool", () => {
       expect(stats.available).toBe(2); // c1 + n1 both available
     });
   });
+
+  describe("persistence", () => {
+    it("saves a snapshot after each mutation", async () => {
+      const store = new InMemoryCoinPoolStore();
+      const client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      });
+      pool = new CoinPool({ targetPoolSize: 2, store });
+      await pool.initialize(client, mockSigner());
+
+      const coin = pool.reserve()!;
+      await pool.flush();
+
+      const saved = await store.load();
+      expect(saved).toHaveLength(2);
+      expect(saved.find((c) => c.objectId === coin.objectId)?.status).toBe(
+        "reserved",
+      );
+    });
+
+    it("restores reservations on boot without re-splitting", async () => {
+      const store = new InMemoryCoinPoolStore();
+      const client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      });
+      const first = new CoinPool({ targetPoolSize: 2, store });
+      await first.initialize(client, mockSigner());
+      const reserved = first.reserve()!;
+      await first.flush();
+
+      // Simulate a restart: a new pool over the same store
+      client.executeTransactionBlock.mockClear();
+      client.getCoins.mockClear();
+      const second = new CoinPool({ targetPoolSize: 2, store });
+      await second.initialize(client, mockSigner());
+
+      expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+      const stats = second.getStats();
+      expect(stats.total).toBe(2);
+      expect(stats.reserved).toBe(1);
+
+      // The in-flight reservation can still be reported after the restart
+      second.updateFromEffects(
+        mockEffects(reserved.objectId, { version: "5" }),
+        reserved.objectId,
+      );
+      expect(second.getStats().reserved).toBe(0);
+    });
+
+    it("releases restored reservations whose transaction already landed", async () => {
+      const store = new InMemoryCoinPoolStore();
+      const client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const first = new CoinPool({ targetPoolSize: 1, store });
+      await first.initialize(client, mockSigner());
+      first.reserve();
+      await first.flush();
+
+      // On-chain version moved on while the process was down
+      client.multiGetObjects.mockResolvedValueOnce([
+        {
+          data: {
+            objectId: objectId("c1"),
+            version: "8",
+            digest: "GgBaCs3NCBuZN12kCJgAW63ydqohFkHEdfdEXBPzLHq",
+            content: {
+              dataType: "moveObject",
+              fields: { balance: "480000000" },
+            },
+          },
+        },
+      ]);
+
+      const second = new CoinPool({ targetPoolSize: 1, store });
+      await second.initialize(client, mockSigner());
+
+      const stats = second.getStats();
+      expect(stats.available).toBe(1);
+      expect(stats.reserved).toBe(0);
+      expect(stats.totalBalance).toBe(480_000_000n);
+    });
+
+    it("drops restored coins that no longer exist", async () => {
+      const store = new InMemoryCoinPoolStore();
+      const client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const first = new CoinPool({ targetPoolSize: 1, store });
+      await first.initialize(client, mockSigner());
+      await first.flush();
+
+      client.multiGetObjects.mockResolvedValueOnce([
+        { data: null, error: { code: "notExists", object_id: objectId("c1") } },
+      ]);
+      client.getCoins.mockResolvedValueOnce({
+        data: [],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+
+      const second = new CoinPool({ targetPoolSize: 1, store });
+      await second.initialize(client, mockSigner());
+      expect(second.getStats().total).toBe(0);
+    });
+
+    it("surfaces store write failures from flush()", async () => {
+      const store = new InMemoryCoinPoolStore();
+      const client = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      pool = new CoinPool({ targetPoolSize: 1, store });
+      await pool.initialize(client, mockSigner());
+      await pool.flush();
+
+      store.save = () => Promise.reject(new Error("disk full"));
+      pool.reserve();
+
+      await expect(pool.flush()).rejects.toThrow("disk full");
+      // The failure is reported once
+      await expect(pool.flush()).resolves.toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { TypedEventEmitter } from "../src/events.js";
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { ok: boolean };
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+  fire<K extends keyof TestEvents>(name: K, event: TestEvents[K]): void {
+    this.emit(name, event);
+  }
+}
+
+describe("TypedEventEmitter", () => {
+  it("calls listeners of the emitted event only", () => {
+    const emitter = new TestEmitter();
+    const ping = vi.fn();
+    const pong = vi.fn();
+    emitter.on("ping", ping);
+    emitter.on("pong", pong);
+
+    emitter.fire("ping", { n: 1 });
+
+    expect(ping).toHaveBeenCalledWith({ n: 1 });
+    expect(pong).not.toHaveBeenCalled();
+  });
+
+  it("unsubscribes with off() or the returned function", () => {
+    const emitter = new TestEmitter();
+    const a = vi.fn();
+    const b = vi.fn();
+    emitter.on("ping", a);
+    const offB = emitter.on("ping", b);
+
+    emitter.off("ping", a);
+    offB();
+    emitter.fire("ping", { n: 1 });
+
+    expect(a).not.toHaveBeenCalled();
+    expect(b).not.toHaveBeenCalled();
+  });
+
+  it("calls once() listeners a single time", () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    emitter.once("ping", listener);
+
+    emitter.fire("ping", { n: 1 });
+    emitter.fire("ping", { n: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ n: 1 });
+  });
+
+  it("swallows listener errors and keeps notifying the others", () => {
+    const emitter = new TestEmitter();
+    const after = vi.fn();
+    emitter.on("ping", () => {
+      throw new Error("listener bug");
+    });
+    emitter.on("ping", after);
+
+    expect(() => emitter.fire("ping", { n: 1 })).not.toThrow();
+    expect(after).toHaveBeenCalled();
+  });
+});
@@ -2,11 +2,15 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { Transaction } from "@mysten/sui/transactions";
 import { GasSponsor } from "../src/gas-sponsor.js";
 import { GasStationError } from "../src/errors.js";
+import { InMemoryCoinLeaseCoordinator } from "../src/coin-lease.js";
+import { InMemoryCoinPoolStore } from "../src/coin-pool-store.js";
+import { InMemoryQuotaStore } from "../src/quota.js";
 import {
   mockSuiClient,
   mockSigner,
   makeCoin,
   mockEffects,
+  objectId,
   SPONSOR_ADDR,
 } from "./helpers.js";
 
@@ -187,6 +191,34 @@ describe("GasSponsor", () => {
       ).rejects.toThrow(GasStationError);
     });
 
+    it("uses the tightest budget cap to bound auto-estimation", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: {
+          maxBudgetPerTx: 50_000_000n,
+          budgetCaps: { byMoveTarget: { "0x2::coin::*": 20_000_000n } },
+        },
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+      });
+      expect(result.gasBudget).toBe(20_000_000n);
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 30_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "POLICY_VIOLATION" });
+    });
+
     it("releases coin and throws BUILD_FAILED on invalid kind bytes", async () => {
       const sponsor = new GasSponsor({
         client,
@@ -237,6 +269,32 @@ describe("GasSponsor", () => {
   });
 
   describe("reportExecution", () => {
+    it("fetches effects from the chain in reportTransaction()", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+
+      // Not indexed (or never submitted) within the timeout
+      await expect(
+        sponsor.reportTransaction(result.reservation, { timeoutMs: 10 }),
+      ).rejects.toMatchObject({ code: "INVALID_EFFECTS" });
+      expect(client.waitForTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ timeout: 10 }),
+      );
+      expect(sponsor.getStats().reservedCoins).toBe(1);
+
+      client.getTransactionBlock.mockResolvedValueOnce({
+        digest: result.reservation.transactionDigest,
+        effects: mockEffects(result.reservation.objectId, { version: "5" }),
+      });
+      await sponsor.reportTransaction(result.reservation);
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+
     it("updates pool from effects after successful execution", async () => {
       const sponsor = new GasSponsor({
         client,
@@ -268,6 +326,43 @@ describe("GasSponsor", () => {
       expect(stats.availableCoins).toBe(3);
     });
 
+    it("rejects a stale report without freeing the coin's new reservation", async () => {
+      client = mockSuiClient({ coins: [makeCoin("c1", "500000000")] });
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 1 });
+      await sponsor.initialize();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+
+      const first = await sponsor.sponsorTransaction(request);
+      const firstEffects = mockEffects(first.reservation.objectId, {
+        version: "5",
+      });
+      sponsor.reportExecution(first.reservation, firstEffects);
+      await sponsor.sponsorTransaction(request);
+
+      // Replaying tx1's report while tx2 holds the coin
+      let err: unknown;
+      try {
+        sponsor.reportExecution(first.reservation, firstEffects);
+      } catch (e) {
+        err = e;
+      }
+      expect(err).toMatchObject({ code: "INVALID_EFFECTS" });
+
+      // The coin stays reserved for tx2 and was charged once
+      expect(sponsor.getStats()).toMatchObject({
+        reservedCoins: 1,
+        availableCoins: 0,
+        totalBalance: 494_000_000n,
+      });
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POOL_EXHAUSTED",
+      });
+    });
+
     it("throws INVALID_EFFECTS on invalid effects (missing gasObject)", async () => {
       const sponsor = new GasSponsor({
         client,
@@ -332,6 +427,179 @@ describe("GasSponsor", () => {
     });
   });
 
+  describe("sponsorAndExecute", () => {
+    const senderSign = () =>
+      vi.fn().mockResolvedValue({ signature: "c2VuZGVyX3NpZ25hdHVyZQ==" });
+
+    it("submits with both signatures and recycles the gas coin", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+      });
+      await sponsor.initialize();
+      client.executeTransactionBlock.mockClear();
+
+      const signTransaction = senderSign();
+      const response = await sponsor.sponsorAndExecute({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+        signTransaction,
+      });
+
+      expect(response.digest).toBe("mock_digest");
+      expect(signTransaction).toHaveBeenCalledOnce();
+      expect(client.executeTransactionBlock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          signature: ["c2VuZGVyX3NpZ25hdHVyZQ==", "bW9ja19zaWduYXR1cmU="],
+          options: { showEffects: true },
+        }),
+      );
+
+      // Effects were applied — the coin is back in the pool
+      const stats = sponsor.getStats();
+      expect(stats.reservedCoins).toBe(0);
+      expect(stats.availableCoins).toBe(3);
+    });
+
+    it("releases the coin when the sender fails to sign", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorAndExecute({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+          signTransaction: vi.fn().mockRejectedValue(new Error("user denied")),
+        }),
+      ).rejects.toMatchObject({ code: "SIGN_FAILED" });
+
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+      expect(sponsor.getStats().availableCoins).toBe(3);
+    });
+
+    it("keeps the reservation when submission fails", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+      });
+      await sponsor.initialize();
+      client.executeTransactionBlock.mockRejectedValueOnce(
+        new Error("connection reset"),
+      );
+
+      await expect(
+        sponsor.sponsorAndExecute({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+          signTransaction: senderSign(),
+        }),
+      ).rejects.toMatchObject({ code: "EXECUTION_FAILED" });
+
+      // The transaction may have landed — the coin must not be reused yet
+      expect(sponsor.getStats().reservedCoins).toBe(1);
+    });
+  });
+
+  describe("expired reservations", () => {
+    it("keeps coins of unreported transactions reserved until they expire", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        reservationTimeoutMs: 1_000,
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      expect(result.reservation.transactionDigest).toMatch(
+        /^[1-9A-HJ-NP-Za-km-z]+$/,
+      );
+      expect(
+        Transaction.from(result.transactionBytes).getData().expiration,
+      ).toMatchObject({ Epoch: 100 });
+
+      // The client never reports; after the timeout the next request
+      // looks the digest up in the background. The transaction can still
+      // execute this epoch, so its coin must not be reused yet.
+      const now = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 5_000);
+      try {
+        await sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        });
+      } finally {
+        now.mockRestore();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(client.getTransactionBlock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          digest: result.reservation.transactionDigest,
+        }),
+      );
+      expect(sponsor.getStats()).toMatchObject({
+        totalCoins: 3,
+        reservedCoins: 2,
+      });
+    });
+
+    it("returns coins to the pool once their transaction's epoch has passed", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        reservationTimeoutMs: 1_000,
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+
+      const later = Date.now() + 86_400_000;
+      client.getLatestSuiSystemState.mockResolvedValue({
+        epoch: "101",
+        referenceGasPrice: "1000",
+        epochStartTimestampMs: String(later - 1_000),
+        epochDurationMs: "86400000",
+      });
+      const now = vi.spyOn(Date, "now").mockReturnValue(later);
+      try {
+        await sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        });
+      } finally {
+        now.mockRestore();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sponsor.getStats()).toMatchObject({
+        totalCoins: 3,
+        reservedCoins: 1,
+      });
+    });
+  });
+
   describe("getStats", () => {
     it("returns comprehensive stats", async () => {
       const sponsor = new GasSponsor({
@@ -536,7 +804,7 @@ describe("GasSponsor", () => {
       expect(result.sponsorSignature).toBeTruthy();
     });
 
-    it("allows GasCoin via per-request policy override", async () => {
+    it("ignores a per-request GasCoin opt-in", async () => {
       const sponsor = new GasSponsor({
         client,
         signer,
@@ -545,15 +813,37 @@ describe("GasSponsor", () => {
       });
       await sponsor.initialize();
 
-      const kindBytes = await buildGasCoinKindBytes();
-      const result = await sponsor.sponsorTransaction({
+      const request = {
         sender: SENDER,
-        transactionKindBytes: kindBytes,
+        transactionKindBytes: await buildGasCoinKindBytes(),
         gasBudget: 10_000_000n,
         policy: { allowGasCoinUsage: true },
+      };
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POLICY_VIOLATION",
+      });
+      await expect(sponsor.explainPolicy(request)).resolves.toMatchObject({
+        allowed: false,
       });
+    });
 
-      expect(result.transactionBytes).toBeTruthy();
+    it("lets a per-request policy opt out of GasCoin usage", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { allowGasCoinUsage: true },
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildGasCoinKindBytes(),
+          gasBudget: 10_000_000n,
+          policy: { allowGasCoinUsage: false },
+        }),
+      ).rejects.toMatchObject({ code: "POLICY_VIOLATION" });
     });
 
     it("releases reserved coin when GasCoin check fails", async () => {
@@ -621,4 +911,1976 @@ describe("GasSponsor", () => {
       expect(stats.currentEpoch).toBe("100");
     });
   });
+
+  describe("events", () => {
+    it("reports reservations and executions", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      const reserved = vi.fn();
+      const executed = vi.fn();
+      sponsor.on("reserved", reserved);
+      sponsor.on("executed", executed);
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      const effects = mockEffects(result.reservation.objectId);
+      sponsor.reportExecution(result.reservation, effects);
+
+      expect(reserved).toHaveBeenCalledWith({
+        objectId: result.reservation.objectId,
+        balance: 500_000_000n,
+      });
+      expect(executed).toHaveBeenCalledWith({
+        objectId: result.reservation.objectId,
+        effects,
+        record: expect.objectContaining({
+          sender: SENDER,
+          gasCharged: 6_000_000n,
+        }),
+      });
+    });
+
+    it("reports rejected requests", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { maxBudgetPerTx: 1_000_000n },
+      });
+      await sponsor.initialize();
+      const rejected = vi.fn();
+      sponsor.on("rejected", rejected);
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toThrow(GasStationError);
+
+      expect(rejected).toHaveBeenCalledTimes(1);
+      const [{ sender, error }] = rejected.mock.calls[0];
+      expect(sender).toBe(SENDER);
+      expect(error.code).toBe("POLICY_VIOLATION");
+    });
+
+    it("reports epoch changes and failed revalidation", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      const epochChanged = vi.fn();
+      const revalidationFailed = vi.fn();
+      sponsor.on("epochChanged", epochChanged);
+      sponsor.on("revalidationFailed", revalidationFailed);
+      client.getLatestSuiSystemState.mockResolvedValue({
+        epoch: "101",
+        referenceGasPrice: "1200",
+        epochStartTimestampMs: String(Date.now()),
+        epochDurationMs: "86400000",
+      });
+      client.multiGetObjects.mockRejectedValue(new Error("RPC down"));
+
+      await sponsor.initialize();
+
+      expect(epochChanged).toHaveBeenCalledWith({
+        previousEpoch: "100",
+        epoch: "101",
+        gasPrice: 1200n,
+      });
+      expect(revalidationFailed).toHaveBeenCalledWith({
+        epoch: "101",
+        error: expect.objectContaining({ message: "RPC down" }),
+      });
+    });
+
+    it("reports coins added by replenish()", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 4 });
+      await sponsor.initialize();
+      const replenished = vi.fn();
+      sponsor.on("replenished", replenished);
+      client.getCoins.mockResolvedValueOnce({
+        data: [
+          makeCoin("c1", "500000000"),
+          makeCoin("c2", "500000000"),
+          makeCoin("c3", "500000000"),
+          makeCoin("c4", "500000000"),
+        ],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+
+      await sponsor.replenish();
+
+      expect(replenished).toHaveBeenCalledWith({
+        adopted: 1,
+        created: 0,
+        total: 4,
+      });
+    });
+  });
+
+  describe("coin leasing", () => {
+    it("never hands the same coin to two replicas", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const replicaA = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      const replicaB = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "b",
+      });
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const ids = new Set<string>();
+      for (const replica of [replicaA, replicaB, replicaA]) {
+        const result = await replica.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        });
+        ids.add(result.reservation.objectId);
+      }
+      expect(ids.size).toBe(3);
+
+      // All three coins are leased — the fourth request fails on either replica
+      await expect(
+        replicaB.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "POOL_EXHAUSTED" });
+
+      // Coins leased elsewhere are not left reserved locally
+      expect(replicaB.getStats().reservedCoins).toBe(1);
+    });
+
+    it("picks up the ref published by the previous holder", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const singleCoinClient = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const replicaA = new GasSponsor({
+        client: singleCoinClient,
+        signer,
+        targetPoolSize: 1,
+        leases,
+        instanceId: "a",
+      });
+      const replicaB = new GasSponsor({
+        client: singleCoinClient,
+        signer,
+        targetPoolSize: 1,
+        leases,
+        instanceId: "b",
+      });
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const first = await replicaA.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      replicaA.reportExecution(
+        first.reservation,
+        mockEffects(first.reservation.objectId, { version: "9" }),
+      );
+
+      await replicaB.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+
+      // Replica B built against the version A published, not its stale "1"
+      const built = Transaction.from(
+        signer.signTransaction.mock.calls.at(-1)[0],
+      );
+      expect(built.getData().gasData.payment?.[0].version).toBe("9");
+      // 500M - (5M + 2M - 1M) charged by A's transaction
+      expect(replicaB.getStats().totalBalance).toBe(494_000_000n);
+    });
+
+    it("releases the lease when another replica handles the report", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const singleCoinClient = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const [replicaA, replicaB] = ["a", "b"].map(
+        (instanceId) =>
+          new GasSponsor({
+            client: singleCoinClient,
+            signer,
+            targetPoolSize: 1,
+            leases,
+            instanceId,
+          }),
+      );
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const first = await replicaA.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      expect(first.reservation.leaseHolder).toBe("a");
+      replicaB.reportExecution(
+        first.reservation,
+        mockEffects(first.reservation.objectId, { version: "9" }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // The coin is free again without waiting out leaseTtlMs
+      const second = await replicaB.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      expect(second.reservation.objectId).toBe(first.reservation.objectId);
+    });
+
+    it("holds the lease until the signed transaction's epoch ends", async () => {
+      let now = Date.now();
+      const leases = new InMemoryCoinLeaseCoordinator(() => now);
+      const singleCoinClient = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const [replicaA, replicaB] = ["a", "b"].map(
+        (instanceId) =>
+          new GasSponsor({
+            client: singleCoinClient,
+            signer,
+            targetPoolSize: 1,
+            leases,
+            instanceId,
+            leaseTtlMs: 1_000,
+          }),
+      );
+      await replicaA.initialize();
+      await replicaB.initialize();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      await replicaA.sponsorTransaction(request);
+
+      // Well past leaseTtlMs, but the epoch (ending in 23h) is still on
+      now += 60 * 60_000;
+      await expect(replicaB.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POOL_EXHAUSTED",
+      });
+
+      // Past the epoch's end plus leaseTtlMs, the coin may be leased again
+      now += 23 * 60 * 60_000 + 1_000;
+      expect(await leases.acquire(objectId("c1"), "b", 1_000)).not.toBeNull();
+    });
+
+    it("renews the lease while reconciliation keeps the coin reserved", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const renew = vi.spyOn(leases, "renew");
+      const singleCoinClient = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const sponsor = new GasSponsor({
+        client: singleCoinClient,
+        signer,
+        targetPoolSize: 1,
+        leases,
+        instanceId: "a",
+        reservationTimeoutMs: 1_000,
+      });
+      await sponsor.initialize();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      await sponsor.sponsorTransaction(request);
+      expect(renew).toHaveBeenCalledTimes(1);
+
+      // The reservation expired, but its transaction can still execute
+      const now = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 2_000);
+      try {
+        await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject(
+          { code: "POOL_EXHAUSTED" },
+        );
+        await vi.waitFor(() => expect(renew).toHaveBeenCalledTimes(2));
+      } finally {
+        now.mockRestore();
+      }
+      expect(renew).toHaveBeenLastCalledWith(
+        objectId("c1"),
+        "a",
+        expect.any(Number),
+      );
+      expect(sponsor.getStats().reservedCoins).toBe(1);
+    });
+
+    it("ignores a replayed report on another replica", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const singleCoinClient = mockSuiClient({
+        coins: [makeCoin("c1", "500000000")],
+      });
+      const [replicaA, replicaB] = ["a", "b"].map(
+        (instanceId) =>
+          new GasSponsor({
+            client: singleCoinClient,
+            signer,
+            targetPoolSize: 1,
+            leases,
+            instanceId,
+          }),
+      );
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      };
+      const first = await replicaA.sponsorTransaction(request);
+      const firstEffects = mockEffects(first.reservation.objectId, {
+        version: "9",
+      });
+      replicaA.reportExecution(first.reservation, firstEffects);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await replicaA.sponsorTransaction(request);
+
+      // Replica B has not seen version 9 yet, but the coordinator has
+      replicaB.reportExecution(first.reservation, firstEffects);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await expect(replicaB.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POOL_EXHAUSTED",
+      });
+    });
+
+    it("releases the lease when sponsorship fails", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: new Uint8Array([0xff, 0xff]),
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "BUILD_FAILED" });
+
+      // Another replica can lease every coin again
+      await vi.waitFor(async () => {
+        for (const id of ["c1", "c2", "c3"]) {
+          expect(
+            await leases.acquire("0x" + id.padStart(64, "0"), "b", 30_000),
+          ).not.toBeNull();
+        }
+      });
+    });
+
+    it("does not merge shared coins on close", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases: new InMemoryCoinLeaseCoordinator(),
+      });
+      await sponsor.initialize();
+      client.executeTransactionBlock.mockClear();
+
+      await sponsor.close();
+
+      expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+      expect(sponsor.getStats().totalCoins).toBe(0);
+    });
+  });
+
+  describe("quotas", () => {
+    // Spend is credited in the background after reportExecution()
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("rate-limits transactions per sender", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: {
+          quota: { maxTransactionsPerSender: { limit: 2, windowMs: 60_000 } },
+        },
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      };
+      await sponsor.sponsorTransaction(request);
+      await sponsor.sponsorTransaction(request);
+
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+      });
+      // Rejected before a coin was reserved
+      expect(sponsor.getStats().reservedCoins).toBe(2);
+
+      // Other senders have their own window
+      await expect(
+        sponsor.sponsorTransaction({ ...request, sender: RECIPIENT }),
+      ).resolves.toBeDefined();
+    });
+
+    it("caps daily spend per sender using actual gas used", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { quota: { maxSpendPerSenderPerDay: 15_000_000n } },
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      };
+
+      // 10M budget, 6M actually charged
+      const first = await sponsor.sponsorTransaction(request);
+      sponsor.reportExecution(
+        first.reservation,
+        mockEffects(first.reservation.objectId),
+      );
+      await settle();
+
+      // 6M spent + 10M budget > 15M cap
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+      });
+      // The coin reserved for the rejected request went back to the pool
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+
+      // A smaller budget still fits
+      await expect(
+        sponsor.sponsorTransaction({ ...request, gasBudget: 9_000_000n }),
+      ).resolves.toBeDefined();
+    });
+
+    it("holds the budget of in-flight sponsorships against the cap", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { quota: { maxSpendPerSenderPerDay: 15_000_000n } },
+      });
+      await sponsor.initialize();
+
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      const results = await Promise.allSettled([
+        sponsor.sponsorTransaction(request),
+        sponsor.sponsorTransaction(request),
+      ]);
+      expect(results.map((r) => r.status).sort()).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+      expect(sponsor.getStats().reservedCoins).toBe(1);
+    });
+
+    it("returns the held budget when signing fails", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { quota: { maxSpendPerSenderPerDay: 15_000_000n } },
+      });
+      await sponsor.initialize();
+
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      signer.signTransaction.mockRejectedValueOnce(new Error("HSM offline"));
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "SIGN_FAILED",
+      });
+      await settle();
+
+      await expect(sponsor.sponsorTransaction(request)).resolves.toBeDefined();
+    });
+
+    it("caps global daily spend across senders and replicas", async () => {
+      const quotaStore = new InMemoryQuotaStore();
+      const policy = { quota: { maxGlobalSpendPerDay: 15_000_000n } };
+      const replicaA = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy,
+        quotaStore,
+      });
+      const replicaB = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy,
+        quotaStore,
+      });
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const first = await replicaA.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      replicaA.reportExecution(
+        first.reservation,
+        mockEffects(first.reservation.objectId),
+      );
+      await settle();
+
+      await expect(
+        replicaB.sponsorTransaction({
+          sender: RECIPIENT,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+    });
+  });
+
+  describe("policy registry", () => {
+    const BLOCKED = "0x" + "bb".repeat(32);
+
+    it("keeps the default policy when a per-request policy is given", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { blockedAddresses: [BLOCKED] },
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: BLOCKED,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+          policy: { maxBudgetPerTx: 50_000_000n },
+        }),
+      ).rejects.toThrow("is blocked");
+    });
+
+    it("applies a named policy and its base on top of the default", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { blockedAddresses: [BLOCKED] },
+        policies: {
+          basic: { maxBudgetPerTx: 20_000_000n },
+          partner: { extends: "basic", allowedAddresses: [SENDER] },
+        },
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        policyName: "partner",
+      };
+
+      // Inherited cap bounds auto-estimation
+      const result = await sponsor.sponsorTransaction(request);
+      expect(result.gasBudget).toBe(20_000_000n);
+      await expect(
+        sponsor.sponsorTransaction({ ...request, gasBudget: 30_000_000n }),
+      ).rejects.toThrow("exceeds max 20000000");
+      await expect(
+        sponsor.sponsorTransaction({ ...request, sender: RECIPIENT }),
+      ).rejects.toThrow("is not in allowedAddresses");
+      await expect(
+        sponsor.sponsorTransaction({ ...request, sender: BLOCKED }),
+      ).rejects.toThrow("is blocked");
+    });
+
+    it("rejects unknown policy names", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+          policyName: "missing",
+        }),
+      ).rejects.toMatchObject({
+        code: "POLICY_VIOLATION",
+        message: "Unknown policy: missing",
+      });
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+
+    it("rejects unknown bases and inheritance cycles at construction", () => {
+      expect(
+        () =>
+          new GasSponsor({
+            client,
+            signer,
+            policies: { a: { extends: "nope" } },
+          }),
+      ).toThrow('Policy "a" extends unknown policy "nope"');
+      expect(
+        () =>
+          new GasSponsor({
+            client,
+            signer,
+            policies: { a: { extends: "b" }, b: { extends: "a" } },
+          }),
+      ).toThrow("Policy inheritance cycle: a -> b -> a");
+    });
+
+    it("explains decisions across all policy layers without reserving", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { blockedAddresses: [BLOCKED] },
+        policies: { basic: { maxBudgetPerTx: 20_000_000n } },
+      });
+      await sponsor.initialize();
+
+      const decision = await sponsor.explainPolicy({
+        sender: BLOCKED,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 30_000_000n,
+        policyName: "basic",
+      });
+      expect(decision.allowed).toBe(false);
+      expect(
+        decision.rules.filter((r) => !r.passed).map((r) => [r.path, r.rule]),
+      ).toEqual([
+        ["allOf[0]", "blockedAddresses"],
+        ["allOf[1]", "maxBudget"],
+      ]);
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+
+    it("counts a request once against quotas shared by several layers", async () => {
+      const quota = {
+        maxTransactionsPerSender: { limit: 2, windowMs: 60_000 },
+      };
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { quota },
+        policies: { strict: { quota } },
+      });
+      await sponsor.initialize();
+
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+        policyName: "strict",
+      };
+      await sponsor.sponsorTransaction(request);
+      await sponsor.sponsorTransaction(request);
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "QUOTA_EXCEEDED",
+      });
+    });
+  });
+
+  describe("simulation", () => {
+    it("does not dry-run unless enabled", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      expect(client.dryRunTransactionBlock).not.toHaveBeenCalled();
+      expect(result.simulation).toBeUndefined();
+    });
+
+    it("exposes simulated effects and balance changes", async () => {
+      const balanceChanges = [
+        {
+          owner: { AddressOwner: SENDER },
+          coinType: "0x2::sui::SUI",
+          amount: "-100",
+        },
+      ];
+      client.dryRunTransactionBlock.mockResolvedValueOnce({
+        effects: { status: { status: "success" } },
+        balanceChanges,
+      });
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        simulateTransactions: true,
+      });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      expect(client.dryRunTransactionBlock).toHaveBeenCalledWith({
+        transactionBlock: expect.any(Uint8Array),
+      });
+      expect(result.simulation).toEqual({
+        effects: { status: { status: "success" } },
+        balanceChanges,
+        objectChanges: [],
+      });
+    });
+
+    it("rejects transactions that would fail, before signing", async () => {
+      client.dryRunTransactionBlock.mockResolvedValueOnce({
+        effects: {
+          status: { status: "failure", error: "MoveAbort(..., 7)" },
+        },
+        balanceChanges: [],
+      });
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        simulateTransactions: true,
+      });
+      await sponsor.initialize();
+      signer.signTransaction.mockClear();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({
+        code: "SIMULATION_FAILED",
+        message: "Transaction would fail: MoveAbort(..., 7)",
+        details: { error: "MoveAbort(..., 7)" },
+      });
+      expect(signer.signTransaction).not.toHaveBeenCalled();
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+
+    it("rejects when the dry run itself fails", async () => {
+      client.dryRunTransactionBlock.mockRejectedValueOnce(new Error("timeout"));
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        simulateTransactions: true,
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({
+        code: "SIMULATION_FAILED",
+        message: "Transaction simulation failed: timeout",
+      });
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+  });
+
+  describe("sponsor asset protection", () => {
+    const gasUsed = {
+      computationCost: "1000",
+      storageCost: "2000",
+      storageRebate: "500",
+    };
+    const sponsorOwner = { AddressOwner: SPONSOR_ADDR };
+
+    function dryRun(balanceChanges: unknown[], objectChanges: unknown[] = []) {
+      client.dryRunTransactionBlock.mockResolvedValueOnce({
+        effects: { status: { status: "success" }, gasUsed },
+        balanceChanges,
+        objectChanges,
+      });
+    }
+
+    async function sponsorWithProtection() {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policy: { protectSponsorAssets: true },
+      });
+      await sponsor.initialize();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      return { sponsor, request };
+    }
+
+    it("simulates even without simulateTransactions and allows the gas fee", async () => {
+      dryRun([
+        { owner: sponsorOwner, coinType: "0x2::sui::SUI", amount: "-2500" },
+      ]);
+      const { sponsor, request } = await sponsorWithProtection();
+
+      const result = await sponsor.sponsorTransaction(request);
+      expect(client.dryRunTransactionBlock).toHaveBeenCalledTimes(1);
+      expect(result.simulation).toBeDefined();
+    });
+
+    it("rejects SUI losses beyond the gas fee and other coin losses", async () => {
+      dryRun([
+        { owner: sponsorOwner, coinType: "0x2::sui::SUI", amount: "-1002500" },
+        { owner: sponsorOwner, coinType: "0xabc::usdc::USDC", amount: "-5" },
+      ]);
+      const { sponsor, request } = await sponsorWithProtection();
+
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POLICY_VIOLATION",
+        details: {
+          findings: [
+            "sponsor loses 1002500 MIST, more than the gas fee of 2500",
+            "sponsor loses 5 of 0xabc::usdc::USDC",
+          ],
+        },
+      });
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+
+    it("rejects changes to sponsor-owned objects other than the gas coin", async () => {
+      const nft = objectId("f1");
+      const userObject = objectId("f2");
+      const { sponsor, request } = await sponsorWithProtection();
+      dryRun(
+        [],
+        [
+          { type: "mutated", objectId: objectId("c1"), owner: sponsorOwner },
+          {
+            type: "transferred",
+            objectId: nft,
+            recipient: { AddressOwner: SENDER },
+          },
+          {
+            type: "mutated",
+            objectId: userObject,
+            owner: { AddressOwner: SENDER },
+          },
+          { type: "created", objectId: objectId("f3"), owner: sponsorOwner },
+        ],
+      );
+      client.multiGetObjects.mockResolvedValueOnce([
+        { data: { objectId: nft, owner: sponsorOwner } },
+        { data: { objectId: userObject, owner: { AddressOwner: SENDER } } },
+      ]);
+
+      await expect(sponsor.sponsorTransaction(request)).rejects.toMatchObject({
+        code: "POLICY_VIOLATION",
+        details: { findings: [`sponsor-owned object ${nft} is modified`] },
+      });
+      // The gas coin (c1, the first coin reserved) and created objects are not looked up
+      expect(client.multiGetObjects).toHaveBeenLastCalledWith({
+        ids: [nft, userObject],
+        options: { showOwner: true },
+      });
+    });
+
+    it("looks changed objects up 50 at a time", async () => {
+      const { sponsor, request } = await sponsorWithProtection();
+      const changed = Array.from({ length: 120 }, (_, i) => ({
+        type: "mutated",
+        objectId: objectId(`e${i}`),
+        owner: { AddressOwner: SENDER },
+      }));
+      dryRun([], changed);
+
+      await sponsor.sponsorTransaction(request);
+      const lookups = client.multiGetObjects.mock.calls
+        .map(([input]) => input)
+        .filter((input) => input.options.showOwner);
+      expect(lookups.map((input) => input.ids.length)).toEqual([50, 50, 20]);
+      expect(lookups.flatMap((input) => input.ids)).toEqual(
+        changed.map((c) => c.objectId),
+      );
+    });
+
+    it("explains the asset check with a dry run", async () => {
+      dryRun([
+        { owner: sponsorOwner, coinType: "0xabc::usdc::USDC", amount: "-5" },
+      ]);
+      const { sponsor, request } = await sponsorWithProtection();
+
+      const decision = await sponsor.explainPolicy(request);
+      expect(decision.allowed).toBe(false);
+      expect(decision.rules.at(-1)).toMatchObject({
+        rule: "protectSponsorAssets",
+        passed: false,
+        details: { findings: ["sponsor loses 5 of 0xabc::usdc::USDC"] },
+      });
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+  });
+
+  describe("multi-coin gas payment", () => {
+    it("combines coins when no single coin covers the budget", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 800_000_000n,
+      });
+
+      const built = Transaction.from(signer.signTransaction.mock.calls[0][0]);
+      const payment = built.getData().gasData.payment!;
+      expect(payment.map((ref) => ref.objectId)).toEqual([
+        result.reservation.objectId,
+        ...result.reservation.mergedCoinIds!,
+      ]);
+      expect(result.reservation.mergedCoinIds).toHaveLength(1);
+      expect(sponsor.getStats().reservedCoins).toBe(2);
+    });
+
+    it("keeps single-coin reservations free of merged coins", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      expect(result.reservation.mergedCoinIds).toBeUndefined();
+    });
+
+    it("folds merged coins into the gas coin on reportExecution", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 800_000_000n,
+      });
+      sponsor.reportExecution(
+        result.reservation,
+        mockEffects(result.reservation.objectId, { version: "5" }),
+      );
+
+      const stats = sponsor.getStats();
+      expect(stats.totalCoins).toBe(2);
+      expect(stats.availableCoins).toBe(2);
+      // 1000M merged - 6M gas, plus the untouched 500M coin
+      expect(stats.totalBalance).toBe(1_494_000_000n);
+    });
+
+    it("releases every coin when the pool cannot cover the budget", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 2_000_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "POOL_EXHAUSTED" });
+      expect(sponsor.getStats().availableCoins).toBe(3);
+    });
+
+    it("releases every coin when sponsorship fails", async () => {
+      signer.signTransaction.mockRejectedValueOnce(new Error("HSM offline"));
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 800_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "SIGN_FAILED" });
+      expect(sponsor.getStats().availableCoins).toBe(3);
+    });
+
+    it("does not combine coins when maxGasCoins is 1", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        maxGasCoins: 1,
+      });
+      await sponsor.initialize();
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 800_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "POOL_EXHAUSTED" });
+    });
+
+    it("tells other replicas that merged coins are gone", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const replicaA = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      const replicaB = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "b",
+      });
+      await replicaA.initialize();
+      await replicaB.initialize();
+
+      const first = await replicaA.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 800_000_000n,
+      });
+      const [merged] = first.reservation.mergedCoinIds!;
+      replicaA.reportExecution(
+        first.reservation,
+        mockEffects(first.reservation.objectId, { version: "9" }),
+      );
+
+      await replicaB.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 1_400_000_000n,
+      });
+
+      const built = Transaction.from(
+        signer.signTransaction.mock.calls.at(-1)[0],
+      );
+      const payment = built.getData().gasData.payment!;
+      expect(payment.map((ref) => ref.objectId)).not.toContain(merged);
+      expect(payment[0]).toMatchObject({
+        objectId: first.reservation.objectId,
+        version: "9",
+      });
+      expect(replicaB.getStats().totalCoins).toBe(2);
+    });
+  });
+
+  describe("pool maintenance", () => {
+    /** Scheduler whose timers only fire when the test says so. */
+    function manualScheduler() {
+      const callbacks: Array<() => void> = [];
+      return {
+        callbacks,
+        setTimeout: vi.fn((callback: () => void) => {
+          callbacks.push(callback);
+          return callbacks.length;
+        }),
+        clearTimeout: vi.fn(),
+      };
+    }
+
+    it("throws POOL_NOT_INITIALIZED before initialize()", async () => {
+      const sponsor = new GasSponsor({ client, signer });
+
+      await expect(sponsor.runMaintenance()).rejects.toMatchObject({
+        code: "POOL_NOT_INITIALIZED",
+      });
+    });
+
+    it("runs passes on the injected schedule", async () => {
+      const scheduler = manualScheduler();
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      client.getCoins.mockClear();
+
+      sponsor.startMaintenance({ scheduler, intervalMs: 5_000 });
+      expect(scheduler.setTimeout).toHaveBeenCalledWith(
+        expect.any(Function),
+        5_000,
+      );
+      expect(client.getCoins).not.toHaveBeenCalled();
+
+      scheduler.callbacks[0]();
+      // The next pass is scheduled only once this one finishes
+      await vi.waitFor(() =>
+        expect(scheduler.setTimeout).toHaveBeenCalledTimes(2),
+      );
+      expect(client.getCoins).toHaveBeenCalledTimes(1);
+
+      await sponsor.stopMaintenance();
+      expect(scheduler.clearTimeout).toHaveBeenCalledWith(2);
+    });
+
+    it("reports failed passes to onError and keeps running", async () => {
+      const scheduler = manualScheduler();
+      const onError = vi.fn();
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      client.getCoins.mockRejectedValueOnce(new Error("RPC down"));
+
+      sponsor.startMaintenance({ scheduler, onError });
+      scheduler.callbacks[0]();
+      await vi.waitFor(() =>
+        expect(scheduler.setTimeout).toHaveBeenCalledTimes(2),
+      );
+
+      expect(onError).toHaveBeenCalledWith(new Error("RPC down"));
+      await sponsor.stopMaintenance();
+    });
+
+    it("stops scheduling after stopMaintenance()", async () => {
+      const scheduler = manualScheduler();
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      sponsor.startMaintenance({ scheduler });
+      scheduler.callbacks[0]();
+      await sponsor.stopMaintenance();
+
+      expect(scheduler.setTimeout).toHaveBeenCalledTimes(1);
+    });
+
+    it("tops up low coins and publishes their new refs", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      await sponsor.initialize();
+
+      // Spend most of one coin
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      const lowCoin = result.reservation.objectId;
+      sponsor.reportExecution(
+        result.reservation,
+        mockEffects(lowCoin, { version: "5", computationCost: "420000000" }),
+      );
+
+      client.getCoins.mockResolvedValueOnce({
+        data: [makeCoin("f1", "5000000000")],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+      client.executeTransactionBlock.mockResolvedValueOnce({
+        digest: "maintenance_digest",
+        effects: {
+          status: { status: "success" },
+          mutated: [
+            {
+              reference: {
+                objectId: lowCoin,
+                version: "6",
+                digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+              },
+            },
+          ],
+        },
+      });
+
+      const report = await sponsor.runMaintenance();
+
+      expect(report?.toppedUp).toEqual([lowCoin]);
+      expect(await leases.acquire(lowCoin, "b", 1_000)).toEqual({
+        objectId: lowCoin,
+        latest: expect.objectContaining({
+          version: "6",
+          balance: 500_000_000n,
+        }),
+      });
+    });
+
+    it("lets one replica maintain at a time", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      await sponsor.initialize();
+      await leases.acquire("pool-maintenance", "b", 60_000);
+      client.getCoins.mockClear();
+
+      expect(await sponsor.runMaintenance()).toBeNull();
+      expect(client.getCoins).not.toHaveBeenCalled();
+    });
+
+    it("runs overlapping passes one at a time", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      let finishFirst!: () => void;
+      client.getCoins.mockClear().mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirst = () =>
+              resolve({ data: [], nextCursor: null, hasNextPage: false });
+          }),
+      );
+
+      const first = sponsor.runMaintenance();
+      const second = sponsor.runMaintenance();
+      await vi.waitFor(() => expect(client.getCoins).toHaveBeenCalledTimes(1));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(client.getCoins).toHaveBeenCalledTimes(1);
+
+      finishFirst();
+      await Promise.all([first, second]);
+      expect(client.getCoins).toHaveBeenCalledTimes(2);
+    });
+
+    it("replenishes only after a running pass finishes", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      let finishPass!: () => void;
+      client.getCoins.mockClear().mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishPass = () =>
+              resolve({ data: [], nextCursor: null, hasNextPage: false });
+          }),
+      );
+
+      const pass = sponsor.runMaintenance();
+      const replenished = sponsor.replenish();
+      await vi.waitFor(() => expect(client.getCoins).toHaveBeenCalledTimes(1));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(client.getCoins).toHaveBeenCalledTimes(1);
+
+      finishPass();
+      await Promise.all([pass, replenished]);
+      expect(client.getCoins).toHaveBeenCalledTimes(2);
+    });
+
+    it("rebalances low coins and retires them for other replicas", async () => {
+      const leases = new InMemoryCoinLeaseCoordinator();
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        leases,
+        instanceId: "a",
+      });
+      await sponsor.initialize();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      const lowCoin = result.reservation.objectId;
+      sponsor.reportExecution(
+        result.reservation,
+        mockEffects(lowCoin, { version: "5", computationCost: "420000000" }),
+      );
+
+      client.getCoins.mockResolvedValueOnce({
+        data: [makeCoin("f1", "5000000000")],
+        nextCursor: null,
+        hasNextPage: false,
+      });
+      const sourceRef = {
+        objectId: objectId("f1"),
+        version: "6",
+        digest: "LbUiWL3xVV8hTFYBVdbTNrpDo41NKS6o3LHHuDzjfcY",
+      };
+      client.executeTransactionBlock.mockResolvedValueOnce({
+        digest: "rebalance_digest",
+        effects: {
+          status: { status: "success" },
+          gasObject: { reference: sourceRef },
+          created: [{ reference: { ...sourceRef, objectId: objectId("e1") } }],
+        },
+      });
+
+      const report = await sponsor.rebalance();
+
+      expect(report).toMatchObject({
+        merged: [lowCoin],
+        created: [objectId("e1")],
+      });
+      expect(sponsor.getStats().totalCoins).toBe(3);
+      expect(await leases.acquire(lowCoin, "b", 1_000)).toEqual({
+        objectId: lowCoin,
+        latest: { version: "6", digest: sourceRef.digest, balance: 0n },
+      });
+    });
+
+    it("throws POOL_NOT_INITIALIZED from rebalance() before initialize()", async () => {
+      const sponsor = new GasSponsor({ client, signer });
+
+      await expect(sponsor.rebalance()).rejects.toMatchObject({
+        code: "POOL_NOT_INITIALIZED",
+      });
+    });
+
+    it("stops the loop on close()", async () => {
+      const scheduler = manualScheduler();
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      sponsor.startMaintenance({ scheduler });
+      await sponsor.close();
+
+      expect(scheduler.clearTimeout).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe("spend ledger", () => {
+    it("records reported executions with sender and Move targets", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      sponsor.reportExecution(
+        result.reservation,
+        mockEffects(result.reservation.objectId),
+      );
+
+      expect(sponsor.ledger.query()).toEqual([
+        expect.objectContaining({
+          transactionDigest: result.reservation.transactionDigest,
+          objectId: result.reservation.objectId,
+          sender: SENDER,
+          moveTargets: ["0x" + "0".repeat(63) + "2::coin::transfer"],
+          gasCharged: 6_000_000n,
+        }),
+      ]);
+
+      // A reservation is only recorded once
+      expect(() =>
+        sponsor.reportExecution(
+          result.reservation,
+          mockEffects(result.reservation.objectId),
+        ),
+      ).toThrow(GasStationError);
+      expect(sponsor.ledger.query()).toHaveLength(1);
+    });
+
+    it("skips effects that were not paid with the reserved coin", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      });
+      sponsor.reportExecution(
+        result.reservation,
+        mockEffects(objectId("other")),
+      );
+
+      expect(sponsor.ledger.query()).toEqual([]);
+    });
+
+    it("records reservations made before a restart", async () => {
+      const options = {
+        client,
+        signer,
+        targetPoolSize: 3,
+        store: new InMemoryCoinPoolStore(),
+        quotaStore: new InMemoryQuotaStore(),
+        policy: { quota: { maxSpendPerSenderPerDay: 15_000_000n } },
+      };
+      const before = new GasSponsor(options);
+      await before.initialize();
+      const request = {
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+      };
+      const result = await before.sponsorTransaction(request);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const after = new GasSponsor(options);
+      await after.initialize();
+      after.reportExecution(
+        result.reservation,
+        mockEffects(result.reservation.objectId),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(after.ledger.totalSpend({ sender: SENDER })).toBe(6_000_000n);
+      // The 10M hold was settled to the 6M charged: 9M more fits the cap
+      await expect(
+        after.sponsorTransaction({ ...request, gasBudget: 9_000_000n }),
+      ).resolves.toBeDefined();
+    });
+
+    it("records expired reservations whose transaction landed", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        reservationTimeoutMs: 1_000,
+      });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      });
+      client.getTransactionBlock.mockResolvedValueOnce({
+        digest: result.reservation.transactionDigest,
+        effects: mockEffects(result.reservation.objectId),
+      });
+
+      const now = vi.spyOn(Date, "now").mockReturnValue(Date.now() + 2_000);
+      try {
+        await sponsor.sponsorTransaction({
+          sender: RECIPIENT,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        });
+      } finally {
+        now.mockRestore();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(sponsor.ledger.totalSpend({ sender: SENDER })).toBe(6_000_000n);
+    });
+  });
+
+  describe("coin tiers", () => {
+    const TIERS = [
+      { balance: 1_000_000_000n, count: 1 },
+      { balance: 100_000_000n, count: 2 },
+    ];
+
+    beforeEach(() => {
+      client = mockSuiClient({
+        coins: [
+          makeCoin("a1", "1000000000"),
+          makeCoin("b1", "100000000"),
+          makeCoin("b2", "100000000"),
+        ],
+      });
+    });
+
+    it("estimates the budget and reserves the smallest coin covering it", async () => {
+      const sponsor = new GasSponsor({ client, signer, coinTiers: TIERS });
+      await sponsor.initialize();
+
+      const kindBytes = await buildKindBytes();
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+      });
+
+      // computation 1000 + 1000 × gas price 1000, storage 2000 − rebate 500
+      expect(result.gasBudget).toBe(1_002_500n);
+      expect(result.reservation.objectId).toBe(objectId("b1"));
+      // Estimated from the kind alone, without building a dry run
+      expect(client.devInspectTransactionBlock).toHaveBeenCalledWith({
+        sender: SENDER,
+        transactionBlock: kindBytes,
+        gasPrice: 1000n,
+      });
+      expect(client.dryRunTransactionBlock).not.toHaveBeenCalled();
+      expect(sponsor.getStats().reservedCoins).toBe(1);
+    });
+
+    it("reserves a larger coin when the estimate needs one", async () => {
+      client.devInspectTransactionBlock.mockResolvedValueOnce({
+        effects: {
+          status: { status: "success" },
+          gasUsed: {
+            computationCost: "150000000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+      });
+      const sponsor = new GasSponsor({ client, signer, coinTiers: TIERS });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+      });
+
+      expect(result.gasBudget).toBe(151_000_000n);
+      expect(result.reservation.objectId).toBe(objectId("a1"));
+    });
+
+    it("clamps the estimate to the largest tier", async () => {
+      client.devInspectTransactionBlock.mockResolvedValueOnce({
+        effects: {
+          status: { status: "success" },
+          gasUsed: {
+            computationCost: "5000000000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+      });
+      const sponsor = new GasSponsor({ client, signer, coinTiers: TIERS });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+      });
+
+      expect(result.gasBudget).toBe(1_000_000_000n);
+      expect(result.reservation.objectId).toBe(objectId("a1"));
+    });
+
+    it("skips estimation when the request names a budget", async () => {
+      const sponsor = new GasSponsor({ client, signer, coinTiers: TIERS });
+      await sponsor.initialize();
+
+      const result = await sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 50_000_000n,
+      });
+
+      expect(client.devInspectTransactionBlock).not.toHaveBeenCalled();
+      expect(result.reservation.objectId).toBe(objectId("b1"));
+    });
+
+    it("throws BUILD_FAILED when estimation fails, reserving nothing", async () => {
+      client.devInspectTransactionBlock.mockResolvedValueOnce({
+        effects: {
+          status: { status: "failure", error: "MoveAbort(1)" },
+          gasUsed: {
+            computationCost: "1000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+      });
+      const sponsor = new GasSponsor({ client, signer, coinTiers: TIERS });
+      await sponsor.initialize();
+
+      const err = await sponsor
+        .sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+        })
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(GasStationError);
+      expect((err as GasStationError).code).toBe("BUILD_FAILED");
+      expect((err as GasStationError).message).toContain("MoveAbort(1)");
+      expect(sponsor.getStats().reservedCoins).toBe(0);
+    });
+  });
+
+  describe("remote signers", () => {
+    it("releases the coins when signing times out", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        signTimeoutMs: 20,
+      });
+      await sponsor.initialize();
+      signer.signTransaction.mockImplementationOnce(
+        () => new Promise(() => {}), // a hung KMS
+      );
+
+      await expect(
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: await buildKindBytes(),
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "SIGN_TIMEOUT" });
+      expect(sponsor.getStats()).toMatchObject({
+        availableCoins: 3,
+        reservedCoins: 0,
+        signsInFlight: 1,
+      });
+    });
+
+    it("queues sponsorships beyond maxConcurrentSigns", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        maxConcurrentSigns: 1,
+      });
+      await sponsor.initialize();
+      const signed: Array<() => void> = [];
+      signer.signTransaction.mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            signed.push(() => resolve({ bytes: "", signature: "sig" })),
+          ),
+      );
+
+      const kindBytes = await buildKindBytes();
+      const requests = [1, 2].map(() =>
+        sponsor.sponsorTransaction({
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: 10_000_000n,
+        }),
+      );
+      await vi.waitFor(() =>
+        expect(sponsor.getStats()).toMatchObject({
+          signsInFlight: 1,
+          signsQueued: 1,
+        }),
+      );
+      expect(signed).toHaveLength(1);
+
+      signed[0]();
+      await vi.waitFor(() => expect(signed).toHaveLength(2));
+      signed[1]();
+
+      const results = await Promise.all(requests);
+      expect(results.map((r) => r.sponsorSignature)).toEqual(["sig", "sig"]);
+      expect(sponsor.getStats()).toMatchObject({
+        reservedCoins: 2,
+        signsInFlight: 0,
+        signsQueued: 0,
+      });
+    });
+
+    it("gives up signing when the reservation runs out first", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        reservationTimeoutMs: 1_000,
+        signTimeoutMs: 900,
+        simulateTransactions: true,
+      });
+      await sponsor.initialize();
+      // Building and simulating took most of the reservation
+      const start = Date.now();
+      const now = vi.spyOn(Date, "now");
+      client.dryRunTransactionBlock.mockImplementationOnce(async () => {
+        now.mockReturnValue(start + 950);
+        return { effects: { status: { status: "success" } } };
+      });
+      signer.signTransaction.mockImplementationOnce(
+        () => new Promise(() => {}), // a hung KMS
+      );
+
+      try {
+        const err = await sponsor
+          .sponsorTransaction({
+            sender: SENDER,
+            transactionKindBytes: await buildKindBytes(),
+            gasBudget: 10_000_000n,
+          })
+          .catch((e: unknown) => e);
+
+        expect(err).toMatchObject({ code: "SIGN_TIMEOUT" });
+        // Only the ~50ms left of the reservation, not signTimeoutMs
+        expect((err as GasStationError).details?.timeoutMs).toBeLessThan(100);
+      } finally {
+        now.mockRestore();
+      }
+      expect(sponsor.getStats()).toMatchObject({ reservedCoins: 0 });
+    });
+
+    it("requires signTimeoutMs below reservationTimeoutMs", () => {
+      expect(
+        () =>
+          new GasSponsor({
+            client,
+            signer,
+            reservationTimeoutMs: 10_000,
+            signTimeoutMs: 10_000,
+          }),
+      ).toThrow("must be below reservationTimeoutMs");
+    });
+  });
+
+  describe("multiple sponsors", () => {
+    const OTHER_ADDR = "0x" + "ee".repeat(32);
+    let other: ReturnType<typeof mockSigner>;
+
+    beforeEach(() => {
+      other = mockSigner(OTHER_ADDR);
+      const otherCoins = [
+        makeCoin("d1", "500000000"),
+        makeCoin("d2", "500000000"),
+      ];
+      const sponsorCoins = client.getCoins.getMockImplementation()!;
+      client.getCoins.mockImplementation((params: { owner: string }) =>
+        params.owner === OTHER_ADDR
+          ? Promise.resolve({
+              data: otherCoins,
+              nextCursor: null,
+              hasNextPage: false,
+            })
+          : sponsorCoins(params),
+      );
+    });
+
+    /** Sponsor of the gas in a sponsored transaction's bytes. */
+    function gasOwner(transactionBytes: string): string | null | undefined {
+      return Transaction.from(transactionBytes).getData().gasData.owner;
+    }
+
+    async function sponsorRequest(
+      sponsor: GasSponsor,
+      extra: { policyName?: string } = {},
+    ) {
+      return sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: await buildKindBytes(),
+        gasBudget: 10_000_000n,
+        ...extra,
+      });
+    }
+
+    it("keeps a pool per sponsor and breaks stats down by address", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        sponsors: [{ signer: other }],
+      });
+      await sponsor.initialize();
+
+      const stats = sponsor.getStats();
+      expect(stats).toMatchObject({
+        totalCoins: 5,
+        availableCoins: 5,
+        totalBalance: 2_500_000_000n,
+        sponsorAddress: SPONSOR_ADDR,
+      });
+      expect(stats.sponsors).toEqual([
+        expect.objectContaining({
+          address: SPONSOR_ADDR,
+          status: "active",
+          totalCoins: 3,
+        }),
+        expect.objectContaining({
+          address: OTHER_ADDR,
+          status: "active",
+          totalCoins: 2,
+          totalBalance: 1_000_000_000n,
+        }),
+      ]);
+    });
+
+    it("routes named policies to their dedicated sponsor", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        policies: { partner: { maxBudgetPerTx: 50_000_000n } },
+        sponsors: [{ signer: other, policyNames: ["partner"] }],
+      });
+      await sponsor.initialize();
+
+      const general = await sponsorRequest(sponsor);
+      const partner = await sponsorRequest(sponsor, { policyName: "partner" });
+
+      expect(general.sponsorAddress).toBe(SPONSOR_ADDR);
+      expect(gasOwner(general.transactionBytes)).toBe(SPONSOR_ADDR);
+      expect(signer.signTransaction).toHaveBeenCalledTimes(1);
+      expect(partner.sponsorAddress).toBe(OTHER_ADDR);
+      expect(gasOwner(partner.transactionBytes)).toBe(OTHER_ADDR);
+      expect(other.signTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("moves on to the next sponsor when one runs out of coins", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 1,
+        sponsors: [{ signer: other }],
+      });
+      await sponsor.initialize();
+
+      const first = await sponsorRequest(sponsor);
+      const second = await sponsorRequest(sponsor);
+
+      expect([first.sponsorAddress, second.sponsorAddress].sort()).toEqual(
+        [SPONSOR_ADDR, OTHER_ADDR].sort(),
+      );
+      await expect(sponsorRequest(sponsor)).rejects.toMatchObject({
+        code: "POOL_EXHAUSTED",
+      });
+    });
+
+    it("drains a retiring sponsor while a new one takes traffic", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      const inFlight = await sponsorRequest(sponsor);
+      const events: string[] = [];
+      sponsor.on("sponsorAdded", ({ address }) => events.push(`+${address}`));
+      sponsor.on("sponsorRetired", ({ address }) => events.push(`-${address}`));
+
+      expect(await sponsor.addSponsor({ signer: other })).toBe(OTHER_ADDR);
+      let retired = false;
+      const retirement = sponsor
+        .retireSponsor(SPONSOR_ADDR)
+        .then(() => (retired = true));
+
+      // The old key finishes its reservation but takes no new requests
+      const next = await sponsorRequest(sponsor);
+      expect(next.sponsorAddress).toBe(OTHER_ADDR);
+      expect(sponsor.getStats().sponsors[0]).toMatchObject({
+        address: SPONSOR_ADDR,
+        status: "draining",
+        reservedCoins: 1,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(retired).toBe(false);
+
+      const executions = client.executeTransactionBlock.mock.calls.length;
+      sponsor.reportExecution(
+        inFlight.reservation,
+        mockEffects(inFlight.reservation.objectId),
+      );
+      await retirement;
+
+      // Its coins were merged back and the key forgotten
+      expect(client.executeTransactionBlock).toHaveBeenCalledTimes(
+        executions + 1,
+      );
+      expect(sponsor.getStats().sponsors.map((s) => s.address)).toEqual([
+        OTHER_ADDR,
+      ]);
+      expect(sponsor.getStats().sponsorAddress).toBe(OTHER_ADDR);
+      expect(events).toEqual([`+${OTHER_ADDR}`, `-${SPONSOR_ADDR}`]);
+    });
+
+    it("closes a drained sponsor only after a running pass", async () => {
+      const sponsor = new GasSponsor({
+        client,
+        signer,
+        targetPoolSize: 3,
+        sponsors: [{ signer: other }],
+      });
+      await sponsor.initialize();
+      let finishPass!: () => void;
+      client.getCoins.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishPass = () =>
+              resolve({ data: [], nextCursor: null, hasNextPage: false });
+          }),
+      );
+      const executions = client.executeTransactionBlock.mock.calls.length;
+
+      const pass = sponsor.runMaintenance();
+      await vi.waitFor(() => expect(finishPass).toBeDefined());
+      let retired = false;
+      const retirement = sponsor
+        .retireSponsor(OTHER_ADDR)
+        .then(() => (retired = true));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(retired).toBe(false);
+      expect(client.executeTransactionBlock).toHaveBeenCalledTimes(executions);
+
+      finishPass();
+      await Promise.all([pass, retirement]);
+      expect(client.executeTransactionBlock).toHaveBeenCalledTimes(
+        executions + 1,
+      );
+    });
+
+    it("leaves sponsorAddress out of stats while every key drains", async () => {
+      const sponsor = new GasSponsor({ client, signer, targetPoolSize: 3 });
+      await sponsor.initialize();
+      await sponsorRequest(sponsor);
+
+      void sponsor.retireSponsor(SPONSOR_ADDR);
+
+      expect(sponsor.getStats().sponsorAddress).toBeUndefined();
+    });
+
+    it("rejects duplicate keys, unknown routes and unknown sponsors", async () => {
+      expect(
+        () =>
+          new GasSponsor({
+            client,
+            signer,
+            sponsors: [{ signer: mockSigner(SPONSOR_ADDR) }],
+          }),
+      ).toThrow(`Duplicate sponsor address ${SPONSOR_ADDR}`);
+      expect(
+        () =>
+          new GasSponsor({
+            client,
+            signer,
+            sponsors: [{ signer: other, policyNames: ["nope"] }],
+          }),
+      ).toThrow('routes unknown policy "nope"');
+
+      const sponsor = new GasSponsor({ client, signer });
+      await expect(sponsor.retireSponsor(OTHER_ADDR)).rejects.toThrow(
+        "Unknown sponsor address",
+      );
+    });
+  });
 });
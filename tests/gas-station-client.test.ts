@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { GasSponsor } from "../src/gas-sponsor.js";
+import { GasStationClient } from "../src/gas-station-client.js";
+import { createGasStationHandler } from "../src/http-handler.js";
+import {
+  mockSuiClient,
+  mockSigner,
+  makeCoin,
+  SPONSOR_ADDR,
+} from "./helpers.js";
+
+const SENDER = "0x" + "ab".repeat(32);
+
+function transferTx(): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({ target: "0x2::coin::transfer" });
+  return tx;
+}
+
+describe("GasStationClient", () => {
+  let client: ReturnType<typeof mockSuiClient>;
+  let sponsor: GasSponsor;
+  let fetchFn: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    client = mockSuiClient({ coins: [makeCoin("c1", "500000000")] });
+    // The station looks reported transactions up on-chain
+    client.getTransactionBlock.mockImplementation(() =>
+      client.executeTransactionBlock(),
+    );
+    sponsor = new GasSponsor({
+      client,
+      signer: mockSigner(SPONSOR_ADDR),
+      targetPoolSize: 1,
+    });
+    await sponsor.initialize();
+
+    // Route requests straight into the handler, no network involved
+    const handler = createGasStationHandler(sponsor, { basePath: "/gas" });
+    fetchFn = vi.fn((input: string, init: RequestInit) =>
+      handler(new Request(input, init)),
+    );
+  });
+
+  function gasStation(options: { retries?: number } = {}) {
+    return new GasStationClient({
+      url: "http://gas.test/gas/",
+      client,
+      fetch: fetchFn,
+      retryDelayMs: 0,
+      ...options,
+    });
+  }
+
+  it("sponsors, signs, executes and reports in one call", async () => {
+    const signer = mockSigner(SENDER);
+
+    const response = await gasStation().signAndExecuteTransaction({
+      transaction: transferTx(),
+      signer,
+      gasBudget: 10_000_000n,
+    });
+
+    expect(response.digest).toBe("mock_digest");
+    expect(signer.signTransaction).toHaveBeenCalledTimes(1);
+    const [execute] = client.executeTransactionBlock.mock.calls[0];
+    expect(execute.signature).toEqual([
+      "bW9ja19zaWduYXR1cmU=",
+      "bW9ja19zaWduYXR1cmU=",
+    ]);
+    expect(execute.options.showEffects).toBe(true);
+
+    expect(fetchFn.mock.calls.map(([url]) => url)).toEqual([
+      "http://gas.test/gas/sponsor",
+      "http://gas.test/gas/report",
+    ]);
+    // The coin is back in the pool
+    expect(sponsor.getStats().reservedCoins).toBe(0);
+  });
+
+  it("retries while the pool is exhausted", async () => {
+    // Hold the only coin, then hand it back after the first retry
+    const held = await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: await transferTx().build({
+        onlyTransactionKind: true,
+      }),
+      gasBudget: 10_000_000n,
+    });
+    const handle = fetchFn.getMockImplementation()!;
+    fetchFn.mockImplementationOnce(async (input: string, init: RequestInit) => {
+      const res = await handle(input, init);
+      sponsor.reportExecution(
+        held.reservation,
+        (await client.executeTransactionBlock()).effects,
+      );
+      return res;
+    });
+
+    const response = await gasStation().signAndExecuteTransaction({
+      transaction: transferTx(),
+      signer: mockSigner(SENDER),
+      gasBudget: 10_000_000n,
+    });
+
+    expect(response.digest).toBe("mock_digest");
+    expect(fetchFn.mock.calls.map(([url]) => url)).toEqual([
+      "http://gas.test/gas/sponsor", // 503 POOL_EXHAUSTED
+      "http://gas.test/gas/sponsor",
+      "http://gas.test/gas/report",
+    ]);
+  });
+
+  it("gives up after the configured retries", async () => {
+    await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: await transferTx().build({
+        onlyTransactionKind: true,
+      }),
+      gasBudget: 10_000_000n,
+    });
+
+    await expect(
+      gasStation({ retries: 2 }).signAndExecuteTransaction({
+        transaction: transferTx(),
+        signer: mockSigner(SENDER),
+      }),
+    ).rejects.toMatchObject({ code: "POOL_EXHAUSTED" });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries when the sponsor signer times out", async () => {
+    fetchFn.mockResolvedValueOnce(
+      Response.json(
+        { error: "SIGN_TIMEOUT", message: "signer busy" },
+        { status: 504 },
+      ),
+    );
+
+    const response = await gasStation().signAndExecuteTransaction({
+      transaction: transferTx(),
+      signer: mockSigner(SENDER),
+      gasBudget: 10_000_000n,
+    });
+
+    expect(response.digest).toBe("mock_digest");
+    expect(fetchFn).toHaveBeenCalledTimes(3); // sponsor ×2, report
+  });
+
+  it("surfaces other station errors without retrying", async () => {
+    fetchFn.mockResolvedValueOnce(
+      Response.json(
+        { error: "QUOTA_EXCEEDED", message: "slow down" },
+        { status: 429 },
+      ),
+    );
+
+    await expect(
+      gasStation().signAndExecuteTransaction({
+        transaction: transferTx(),
+        signer: mockSigner(SENDER),
+      }),
+    ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED", message: "slow down" });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("wraps network and internal errors as REQUEST_FAILED", async () => {
+    fetchFn.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    await expect(
+      gasStation().sponsor({ sender: SENDER, transactionKindBytes: "AA==" }),
+    ).rejects.toMatchObject({ code: "REQUEST_FAILED" });
+
+    fetchFn.mockResolvedValueOnce(
+      Response.json(
+        { error: "INTERNAL_ERROR", message: "Internal server error" },
+        { status: 500 },
+      ),
+    );
+    await expect(
+      gasStation().sponsor({ sender: SENDER, transactionKindBytes: "AA==" }),
+    ).rejects.toMatchObject({
+      code: "REQUEST_FAILED",
+      details: { status: 500 },
+    });
+  });
+
+  it("sends custom headers on every request", async () => {
+    const station = new GasStationClient({
+      url: "http://gas.test/gas",
+      client,
+      fetch: fetchFn,
+      headers: async () => ({ authorization: "Bearer t0ken" }),
+    });
+
+    await station.signAndExecuteTransaction({
+      transaction: transferTx(),
+      signer: mockSigner(SENDER),
+      gasBudget: 10_000_000n,
+    });
+
+    for (const [, init] of fetchFn.mock.calls) {
+      expect(init.headers).toMatchObject({ authorization: "Bearer t0ken" });
+    }
+  });
+
+  it("returns the response even if reporting fails", async () => {
+    fetchFn.mockImplementation(async (input: string, init: RequestInit) => {
+      if (input.endsWith("/report")) throw new Error("network down");
+      return createGasStationHandler(sponsor, { basePath: "/gas" })(
+        new Request(input, init),
+      );
+    });
+
+    const response = await gasStation().signAndExecuteTransaction({
+      transaction: transferTx(),
+      signer: mockSigner(SENDER),
+      gasBudget: 10_000_000n,
+    });
+
+    expect(response.digest).toBe("mock_digest");
+    expect(sponsor.getStats().reservedCoins).toBe(1);
+  });
+
+  it("throws SIGN_FAILED when the sender cannot sign", async () => {
+    const signer = mockSigner(SENDER);
+    signer.signTransaction.mockRejectedValueOnce(new Error("user rejected"));
+
+    await expect(
+      gasStation().signAndExecuteTransaction({
+        transaction: transferTx(),
+        signer,
+        gasBudget: 10_000_000n,
+      }),
+    ).rejects.toMatchObject({ code: "SIGN_FAILED" });
+    expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["transaction kind", (tx: Transaction) => tx.splitCoins(tx.gas, [1])],
+    ["sender", (tx: Transaction) => tx.setSender("0x" + "cd".repeat(32))],
+    ["gas owner", (tx: Transaction) => tx.setGasOwner(SENDER)],
+    ["gas budget", (tx: Transaction) => tx.setGasBudget(20_000_000n)],
+  ])(
+    "refuses to sign a sponsored transaction with a different %s",
+    async (field, tamper) => {
+      const handler = createGasStationHandler(sponsor, { basePath: "/gas" });
+      fetchFn.mockImplementation(async (input: string, init: RequestInit) => {
+        const res = await handler(new Request(input, init));
+        if (!input.endsWith("/sponsor")) return res;
+        const body = await res.json();
+        const tx = Transaction.from(body.transactionBytes);
+        tamper(tx);
+        body.transactionBytes = toBase64(await tx.build());
+        return Response.json(body);
+      });
+      const signer = mockSigner(SENDER);
+
+      await expect(
+        gasStation().signAndExecuteTransaction({
+          transaction: transferTx(),
+          signer,
+          gasBudget: 10_000_000n,
+        }),
+      ).rejects.toMatchObject({ code: "REQUEST_FAILED", details: { field } });
+      expect(signer.signTransaction).not.toHaveBeenCalled();
+    },
+  );
+});
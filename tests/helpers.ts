@@ -160,6 +160,16 @@ export function mockSuiClient(options: {
         },
       },
     }),
+    // Digest lookups default to "not found" (transaction never submitted)
+    getTransactionBlock: vi
+      .fn()
+      .mockRejectedValue(
+        new Error("Could not find the referenced transaction"),
+      ),
+    // Delegates, so tests mock getTransactionBlock for both
+    waitForTransaction: vi.fn(
+      (input: unknown): Promise<unknown> => client.getTransactionBlock(input),
+    ),
     // v1 compat (still used by GasSponsor directly)
     getReferenceGasPrice: vi
       .fn()
@@ -175,6 +185,17 @@ export function mockSuiClient(options: {
         },
       },
     }),
+    devInspectTransactionBlock: vi.fn().mockResolvedValue({
+      effects: {
+        status: { status: "success" },
+        gasUsed: {
+          computationCost: "1000",
+          storageCost: "2000",
+          storageRebate: "500",
+          nonRefundableStorageFee: "0",
+        },
+      },
+    }),
   } as any; // eslint-disable-line @typescript-eslint/no-explicit-any
 
   return client;
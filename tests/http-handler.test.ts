@@ -0,0 +1,350 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { GasSponsor } from "../src/gas-sponsor.js";
+import { createGasStationHandler } from "../src/http-handler.js";
+import { GasStationMetrics } from "../src/metrics.js";
+import {
+  mockSuiClient,
+  mockSigner,
+  makeCoin,
+  mockEffects,
+  objectId,
+  SPONSOR_ADDR,
+} from "./helpers.js";
+
+const SENDER = "0x" + "ab".repeat(32);
+const BASE = "http://gas.test";
+
+function post(path: string, body: unknown): Request {
+  return new Request(BASE + path, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+describe("createGasStationHandler", () => {
+  let client: ReturnType<typeof mockSuiClient>;
+  let sponsor: GasSponsor;
+  let handler: (request: Request) => Promise<Response>;
+  let kindBytes: string;
+
+  beforeEach(async () => {
+    client = mockSuiClient({
+      coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+    });
+    sponsor = new GasSponsor({
+      client,
+      signer: mockSigner(SPONSOR_ADDR),
+      targetPoolSize: 2,
+      policy: { maxBudgetPerTx: 50_000_000n },
+    });
+    await sponsor.initialize();
+    handler = createGasStationHandler(sponsor);
+
+    const tx = new Transaction();
+    tx.moveCall({ target: "0x2::coin::transfer" });
+    kindBytes = toBase64(await tx.build({ onlyTransactionKind: true }));
+  });
+
+  it("sponsors a transaction and serializes bigints as strings", async () => {
+    const res = await handler(
+      post("/sponsor", {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: "10000000",
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/json");
+    const body = await res.json();
+    expect(body).toMatchObject({
+      transactionBytes: expect.any(String),
+      sponsorSignature: expect.any(String),
+      gasBudget: "10000000",
+      gasPrice: "1000",
+      sponsorAddress: SPONSOR_ADDR,
+      reservation: {
+        objectId: expect.any(String),
+        reservedAt: expect.any(Number),
+        transactionDigest: expect.any(String),
+      },
+    });
+  });
+
+  it("recycles the coin on /report", async () => {
+    const sponsored = await (
+      await handler(
+        post("/sponsor", {
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: "10000000",
+        }),
+      )
+    ).json();
+    expect(sponsor.getStats().reservedCoins).toBe(1);
+    client.getTransactionBlock.mockResolvedValueOnce({
+      digest: sponsored.reservation.transactionDigest,
+      effects: mockEffects(sponsored.reservation.objectId, {
+        computationCost: "7000000",
+      }),
+    });
+
+    const res = await handler(
+      post("/report", {
+        reservation: sponsored.reservation,
+        // Client-supplied effects are ignored in favour of the chain's
+        effects: mockEffects(sponsored.reservation.objectId, {
+          computationCost: "1",
+        }),
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(client.waitForTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        digest: sponsored.reservation.transactionDigest,
+        options: { showEffects: true },
+      }),
+    );
+    expect(sponsor.getStats().reservedCoins).toBe(0);
+    expect(sponsor.ledger.query()[0].computationCost).toBe(7_000_000n);
+  });
+
+  it("rejects reports whose transaction paid gas with another coin", async () => {
+    const sponsored = await (
+      await handler(
+        post("/sponsor", {
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: "10000000",
+        }),
+      )
+    ).json();
+    client.getTransactionBlock.mockResolvedValueOnce({
+      digest: sponsored.reservation.transactionDigest,
+      effects: mockEffects(objectId("other")),
+    });
+
+    const res = await handler(
+      post("/report", { reservation: sponsored.reservation }),
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "INVALID_EFFECTS" });
+    expect(sponsor.getStats().reservedCoins).toBe(1);
+  });
+
+  it("rejects a replayed report", async () => {
+    const sponsored = await (
+      await handler(
+        post("/sponsor", {
+          sender: SENDER,
+          transactionKindBytes: kindBytes,
+          gasBudget: "10000000",
+        }),
+      )
+    ).json();
+    client.getTransactionBlock.mockResolvedValue({
+      digest: sponsored.reservation.transactionDigest,
+      effects: mockEffects(sponsored.reservation.objectId),
+    });
+    const report = () =>
+      handler(post("/report", { reservation: sponsored.reservation }));
+    expect((await report()).status).toBe(200);
+    const balance = sponsor.getStats().totalBalance;
+
+    const res = await report();
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ error: "INVALID_EFFECTS" });
+    expect(sponsor.getStats().totalBalance).toBe(balance);
+  });
+
+  it("returns stats with bigint fields as strings", async () => {
+    const res = await handler(new Request(BASE + "/stats"));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      totalCoins: 2,
+      totalBalance: "1000000000",
+      gasPrice: "1000",
+      sponsorAddress: SPONSOR_ADDR,
+    });
+  });
+
+  it("passes the requested policy name to the sponsor", async () => {
+    const res = await handler(
+      post("/sponsor", {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: "10000000",
+        policyName: "premium",
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({
+      error: "POLICY_VIOLATION",
+      message: "Unknown policy: premium",
+    });
+  });
+
+  it("serves /explain only when enabled", async () => {
+    const body = {
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: "60000000",
+    };
+    expect((await handler(post("/explain", body))).status).toBe(404);
+
+    const explain = createGasStationHandler(sponsor, { explain: true });
+    const res = await explain(post("/explain", body));
+    expect(res.status).toBe(200);
+    const decision = await res.json();
+    expect(decision).toMatchObject({
+      allowed: false,
+      maxBudget: "50000000",
+      rules: [
+        {
+          rule: "maxBudget",
+          passed: false,
+          message: "Budget 60000000 exceeds max 50000000",
+        },
+        { rule: "gasCoinUsage", passed: true },
+      ],
+    });
+    // Nothing was reserved
+    expect(sponsor.getStats().reservedCoins).toBe(0);
+  });
+
+  it("serves /metrics only when an exporter is given", async () => {
+    const get = () => new Request(BASE + "/metrics");
+    expect((await handler(get())).status).toBe(404);
+
+    const metrics = new GasStationMetrics(sponsor);
+    const res = await createGasStationHandler(sponsor, { metrics })(get());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe(metrics.contentType);
+    const text = await res.text();
+    expect(text).toContain('gas_station_pool_coins{state="available"} 2');
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+
+  it.each([
+    ["malformed JSON", "{", "Request body must be valid JSON"],
+    ["a missing sender", { transactionKindBytes: "AA==" }, "sender"],
+    [
+      "non-base64 kind bytes",
+      { sender: SENDER, transactionKindBytes: "not base64!" },
+      "transactionKindBytes must be base64",
+    ],
+    [
+      "a fractional gas budget",
+      { sender: SENDER, transactionKindBytes: "AA==", gasBudget: "1.5" },
+      "gasBudget",
+    ],
+  ])("rejects %s with INVALID_REQUEST", async (_label, body, message) => {
+    const res = await handler(post("/sponsor", body));
+
+    expect(res.status).toBe(400);
+    const error = await res.json();
+    expect(error.error).toBe("INVALID_REQUEST");
+    expect(error.message).toContain(message);
+  });
+
+  it.each([
+    ["a missing reservation", {}, "reservation is required"],
+    [
+      "a reservation without a digest",
+      { reservation: { objectId: "0x1", reservedAt: 0 } },
+      "reservation.transactionDigest is required",
+    ],
+    [
+      "a non-numeric reservedAt",
+      {
+        reservation: {
+          objectId: "0x1",
+          reservedAt: "0",
+          transactionDigest: "d",
+        },
+      },
+      "reservation.reservedAt must be a number",
+    ],
+    [
+      "malformed merged coin IDs",
+      {
+        reservation: {
+          objectId: "0x1",
+          reservedAt: 0,
+          transactionDigest: "d",
+          mergedCoinIds: [""],
+        },
+      },
+      "reservation.mergedCoinIds[0] must be a non-empty string",
+    ],
+  ])("rejects reports with %s", async (_label, body, message) => {
+    const res = await handler(post("/report", body));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "INVALID_REQUEST", message });
+  });
+
+  it("maps GasStationError codes to HTTP statuses", async () => {
+    const res = await handler(
+      post("/sponsor", {
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: "100000000", // over maxBudgetPerTx
+      }),
+    );
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: "POLICY_VIOLATION" });
+  });
+
+  it("returns 503 POOL_EXHAUSTED when no coins are left", async () => {
+    const request = {
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: "10000000",
+    };
+    await handler(post("/sponsor", request));
+    await handler(post("/sponsor", request));
+
+    const res = await handler(post("/sponsor", request));
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ error: "POOL_EXHAUSTED" });
+  });
+
+  it("does not echo unexpected errors", async () => {
+    sponsor.getStats = () => {
+      throw new Error("rpc key sk-123 leaked");
+    };
+
+    const res = await handler(new Request(BASE + "/stats"));
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({
+      error: "INTERNAL_ERROR",
+      message: "Internal server error",
+    });
+  });
+
+  it("returns 404 for unknown routes and 405 for wrong methods", async () => {
+    expect((await handler(new Request(BASE + "/nope"))).status).toBe(404);
+
+    const res = await handler(new Request(BASE + "/sponsor"));
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("POST");
+  });
+
+  it("mounts routes under basePath", async () => {
+    const mounted = createGasStationHandler(sponsor, { basePath: "/gas/" });
+
+    expect((await mounted(new Request(BASE + "/gas/stats"))).status).toBe(200);
+    expect((await mounted(new Request(BASE + "/stats"))).status).toBe(404);
+  });
+});
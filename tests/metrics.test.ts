@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import { GasSponsor } from "../src/gas-sponsor.js";
+import { GasStationMetrics } from "../src/metrics.js";
+import {
+  mockSuiClient,
+  mockSigner,
+  makeCoin,
+  mockEffects,
+  SPONSOR_ADDR,
+} from "./helpers.js";
+
+const SENDER = "0x" + "ab".repeat(32);
+
+describe("GasStationMetrics", () => {
+  let sponsor: GasSponsor;
+  let metrics: GasStationMetrics;
+  let now: number;
+  let kindBytes: Uint8Array;
+
+  beforeEach(async () => {
+    sponsor = new GasSponsor({
+      client: mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      }),
+      signer: mockSigner(SPONSOR_ADDR),
+      targetPoolSize: 2,
+      policy: { maxBudgetPerTx: 50_000_000n },
+    });
+    await sponsor.initialize();
+    now = 1_000_000;
+    metrics = new GasStationMetrics(sponsor, {
+      now: () => now,
+      latencyBuckets: [0.1, 1],
+      holdTimeBuckets: [1, 10],
+    });
+
+    const tx = new Transaction();
+    tx.moveCall({ target: "0x2::coin::transfer" });
+    kindBytes = await tx.build({ onlyTransactionKind: true });
+  });
+
+  /** Sample lines of the rendered output, without metadata. */
+  function samples(): string[] {
+    return metrics
+      .render()
+      .split("\n")
+      .filter((line) => line && !line.startsWith("#"));
+  }
+
+  it("renders metadata, zeroed counters, pool gauges and EOF", () => {
+    const text = metrics.render();
+
+    expect(text).toContain("# TYPE gas_station_gas_spent_mist counter");
+    expect(text).toContain("# UNIT gas_station_gas_spent_mist mist");
+    expect(samples()).toEqual(
+      expect.arrayContaining([
+        "gas_station_executions_total 0",
+        "gas_station_gas_spent_mist_total 0",
+        'gas_station_pool_coins{state="available"} 2',
+        'gas_station_pool_coins{state="reserved"} 0',
+        "gas_station_pool_balance_mist 1000000000",
+        'gas_station_signs{state="in_flight"} 0',
+        'gas_station_signs{state="queued"} 0',
+        "gas_station_gas_price_mist 1000",
+      ]),
+    );
+    expect(text.endsWith("\n# EOF\n")).toBe(true);
+  });
+
+  it("counts sponsorships by outcome and error code", async () => {
+    await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: 10_000_000n,
+    });
+    await expect(
+      sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 60_000_000n,
+      }),
+    ).rejects.toThrow();
+
+    expect(samples()).toEqual(
+      expect.arrayContaining([
+        'gas_station_sponsorships_total{outcome="sponsored"} 1',
+        'gas_station_sponsorships_total{outcome="rejected",code="POLICY_VIOLATION"} 1',
+        "gas_station_build_duration_seconds_count 1",
+        'gas_station_build_duration_seconds_bucket{le="+Inf"} 1',
+        "gas_station_sign_duration_seconds_count 1",
+      ]),
+    );
+  });
+
+  it("tracks gas spent and reservation hold time", async () => {
+    const result = await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: 10_000_000n,
+    });
+    now += 5_000;
+    sponsor.reportExecution(
+      result.reservation,
+      mockEffects(result.reservation.objectId),
+    );
+
+    expect(samples()).toEqual(
+      expect.arrayContaining([
+        "gas_station_executions_total 1",
+        // mockEffects: 5M computation + 2M storage, 1M rebate
+        "gas_station_gas_spent_mist_total 7000000",
+        "gas_station_storage_rebate_mist_total 1000000",
+        'gas_station_reservation_hold_seconds_bucket{ended="executed",le="1"} 0',
+        'gas_station_reservation_hold_seconds_bucket{ended="executed",le="10"} 1',
+        'gas_station_reservation_hold_seconds_sum{ended="executed"} 5',
+      ]),
+    );
+  });
+
+  it("stops counting after detach()", async () => {
+    metrics.detach();
+    await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: 10_000_000n,
+    });
+
+    expect(metrics.render()).not.toContain("gas_station_sponsorships_total");
+  });
+});
@@ -1,11 +1,19 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { Transaction } from "@mysten/sui/transactions";
 import {
   validatePolicy,
   extractMoveTargets,
   assertNoGasCoinUsage,
+  resolveMaxBudget,
+  allowsGasCoinUsage,
+  checkPolicy,
+  evaluatePolicy,
+  findSponsorAssetChanges,
+  protectsSponsorAssets,
+  restrictionsOnly,
 } from "../src/policy.js";
 import { GasStationError } from "../src/errors.js";
+import { StaticAddressGroup } from "../src/address-groups.js";
 
 /** Build kind bytes containing a single MoveCall */
 async function buildMoveCallKind(target: string): Promise<Uint8Array> {
@@ -73,6 +81,113 @@ describe("validatePolicy", () => {
     });
   });
 
+  describe("budgetCaps", () => {
+    it("enforces the tightest applicable cap", async () => {
+      const kind = await buildMultiMoveCallKind([
+        "0x42::game::move",
+        "0x42::nft::mint_batch",
+      ]);
+      const policy = {
+        maxBudgetPerTx: 100_000n,
+        budgetCaps: {
+          byMoveTarget: {
+            "0x42::game::move": 5_000n,
+            "0x42::nft::*": 50_000n,
+            "0x99::*": 1n, // Not called — doesn't apply
+          },
+        },
+      };
+
+      await expect(
+        validatePolicy(policy, sender, kind, 5_000n),
+      ).resolves.toBeUndefined();
+      await expect(
+        validatePolicy(policy, sender, kind, 5_001n),
+      ).rejects.toThrow("Budget 5001 exceeds max 5000");
+    });
+
+    it("caps by package and command count", async () => {
+      const policy = {
+        budgetCaps: {
+          byMoveTarget: { "0x42::*": 50_000n },
+          byCommandCount: [{ maxCommands: 1, maxBudget: 10_000n }],
+        },
+      };
+
+      // One command: the command-count cap is tighter
+      await expect(
+        validatePolicy(
+          policy,
+          sender,
+          await buildMoveCallKind("0x42::nft::mint"),
+          20_000n,
+        ),
+      ).rejects.toThrow("exceeds max 10000");
+
+      // Two commands: only the package cap applies
+      await expect(
+        validatePolicy(
+          policy,
+          sender,
+          await buildMultiMoveCallKind(["0x42::nft::mint", "0x42::nft::mint"]),
+          20_000n,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("resolveMaxBudget", () => {
+    const commandsOf = async (targets: string[]) =>
+      Transaction.fromKind(await buildMultiMoveCallKind(targets)).getData()
+        .commands;
+
+    it("falls back to maxBudgetPerTx when no cap matches", async () => {
+      const commands = await commandsOf(["0x2::coin::transfer"]);
+      expect(
+        resolveMaxBudget(
+          {
+            maxBudgetPerTx: 7n,
+            budgetCaps: { byMoveTarget: { "0x3::*": 1n } },
+          },
+          commands,
+        ),
+      ).toBe(7n);
+      expect(resolveMaxBudget({}, commands)).toBeUndefined();
+    });
+
+    it("matches caps across package upgrades", async () => {
+      const commands = await commandsOf(["0x43::nft::mint"]);
+      expect(
+        resolveMaxBudget(
+          {
+            budgetCaps: { byMoveTarget: { "0x42::nft::mint": 3n } },
+            packageLineages: { "0x42": ["0x43"] },
+          },
+          commands,
+        ),
+      ).toBe(3n);
+    });
+
+    it("tightens across allOf and loosens across anyOf", async () => {
+      const commands = await commandsOf(["0x2::coin::transfer"]);
+      expect(
+        resolveMaxBudget(
+          { maxBudgetPerTx: 9n, allOf: [{ maxBudgetPerTx: 5n }] },
+          commands,
+        ),
+      ).toBe(5n);
+      expect(
+        resolveMaxBudget(
+          { anyOf: [{ maxBudgetPerTx: 5n }, { maxBudgetPerTx: 8n }] },
+          commands,
+        ),
+      ).toBe(8n);
+      expect(
+        resolveMaxBudget({ anyOf: [{ maxBudgetPerTx: 5n }, {}] }, commands),
+      ).toBeUndefined();
+    });
+  });
+
   describe("blockedAddresses", () => {
     it("passes for non-blocked address", async () => {
       await expect(
@@ -112,6 +227,65 @@ describe("validatePolicy", () => {
     });
   });
 
+  describe("allowedAddresses", () => {
+    const member = "0x" + "ab".repeat(32);
+
+    it("passes for a listed sender, matching short and full forms", async () => {
+      await expect(
+        validatePolicy(
+          { allowedAddresses: ["0x2"] },
+          "0x" + "0".repeat(63) + "2",
+          kindBytes,
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it("rejects senders outside the list", async () => {
+      await expect(
+        validatePolicy({ allowedAddresses: [member] }, sender, kindBytes, 0n),
+      ).rejects.toThrow("is not in allowedAddresses");
+    });
+
+    it("passes for members of any group", async () => {
+      const policy = {
+        allowedAddresses: [],
+        allowedAddressGroups: [
+          new StaticAddressGroup("staff", ["0x1"]),
+          new StaticAddressGroup("cohort", [member]),
+        ],
+      };
+
+      await expect(
+        validatePolicy(policy, member, kindBytes, 0n),
+      ).resolves.toBeUndefined();
+      try {
+        await validatePolicy(policy, sender, kindBytes, 0n);
+        expect.unreachable();
+      } catch (err) {
+        expect((err as GasStationError).code).toBe("POLICY_VIOLATION");
+        expect((err as GasStationError).details?.groups).toEqual([
+          "staff",
+          "cohort",
+        ]);
+      }
+    });
+
+    it("skips group lookups once the sender is listed directly", async () => {
+      const has = vi.fn(async () => false);
+      await validatePolicy(
+        {
+          allowedAddresses: [member],
+          allowedAddressGroups: [{ name: "remote", has }],
+        },
+        member,
+        kindBytes,
+        0n,
+      );
+      expect(has).not.toHaveBeenCalled();
+    });
+  });
+
   describe("customValidator", () => {
     it("passes when validator returns true", async () => {
       await expect(
@@ -222,6 +396,75 @@ describe("validatePolicy", () => {
       ).resolves.not.toThrow();
     });
 
+    it("matches module and package wildcards", async () => {
+      const kind = await buildMultiMoveCallKind([
+        "0x42::shop::buy",
+        "0x42::shop::sell",
+        "0x42::vault::deposit",
+      ]);
+
+      await expect(
+        validatePolicy({ allowedMoveTargets: ["0x42::*"] }, sender, kind, 0n),
+      ).resolves.toBeUndefined();
+      await expect(
+        validatePolicy(
+          { allowedMoveTargets: ["0x42::shop::*", "0x42::vault::deposit"] },
+          sender,
+          kind,
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        validatePolicy(
+          { allowedMoveTargets: ["0x42::shop::*"] },
+          sender,
+          kind,
+          0n,
+        ),
+      ).rejects.toThrow("vault::deposit is not in allowedMoveTargets");
+    });
+
+    it("does not let a wildcard match other packages", async () => {
+      const kind = await buildMoveCallKind("0x421::shop::buy");
+      await expect(
+        validatePolicy({ allowedMoveTargets: ["0x42::*"] }, sender, kind, 0n),
+      ).rejects.toThrow(GasStationError);
+    });
+
+    it("matches every version of an upgraded package", async () => {
+      const packageLineages = { "0x42": ["0x43", "0x44"] };
+
+      // Allowlist written against the original ID, call into an upgrade
+      await expect(
+        validatePolicy(
+          { allowedMoveTargets: ["0x42::shop::buy"], packageLineages },
+          sender,
+          await buildMoveCallKind("0x44::shop::buy"),
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+
+      // Allowlist written against an upgrade, call into the original
+      await expect(
+        validatePolicy(
+          { allowedMoveTargets: ["0x43::*"], packageLineages },
+          sender,
+          await buildMoveCallKind("0x42::vault::deposit"),
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+
+      // Without the lineage, upgrades are distinct packages
+      await expect(
+        validatePolicy(
+          { allowedMoveTargets: ["0x42::shop::buy"] },
+          sender,
+          await buildMoveCallKind("0x44::shop::buy"),
+          0n,
+        ),
+      ).rejects.toThrow(GasStationError);
+    });
+
     it("rejects Publish commands when allowedMoveTargets is set", async () => {
       // Build kind bytes containing a Publish command
       const tx = new Transaction();
@@ -256,6 +499,388 @@ describe("validatePolicy", () => {
     // test above confirms the mechanism works.
   });
 
+  describe("moveCallConstraints", () => {
+    const POOL = "0x" + "50".repeat(32);
+    const MINT = "0x42::shop::mint";
+
+    /** Build kind bytes calling MINT with a shared object, an amount and flags */
+    async function buildMintKind(options: {
+      pool?: string;
+      amount?: bigint;
+      recipient?: string;
+      typeArgument?: string;
+    }): Promise<Uint8Array> {
+      const tx = new Transaction();
+      tx.moveCall({
+        target: MINT,
+        typeArguments: [options.typeArgument ?? "0x2::sui::SUI"],
+        arguments: [
+          tx.sharedObjectRef({
+            objectId: options.pool ?? POOL,
+            initialSharedVersion: 1,
+            mutable: true,
+          }),
+          tx.pure.u64(options.amount ?? 100n),
+          tx.pure.address(options.recipient ?? "0x" + "cd".repeat(32)),
+          tx.pure.bool(true),
+        ],
+      });
+      return tx.build({ onlyTransactionKind: true });
+    }
+
+    const policy = {
+      moveCallConstraints: {
+        [MINT]: {
+          arguments: {
+            0: { type: "object" as const, objectIds: [POOL] },
+            1: { type: "u64" as const, min: 1n, max: 1_000n },
+            3: { type: "bool" as const, equals: true },
+          },
+          typeArguments: { 0: ["0x2::sui::SUI"] },
+        },
+      },
+    };
+
+    it("passes when every argument satisfies its rule", async () => {
+      await expect(
+        validatePolicy(policy, sender, await buildMintKind({}), 0n),
+      ).resolves.toBeUndefined();
+    });
+
+    it("rejects an object that is not pinned", async () => {
+      const kind = await buildMintKind({ pool: "0x" + "66".repeat(32) });
+      await expect(validatePolicy(policy, sender, kind, 0n)).rejects.toThrow(
+        /argument 0 object 0x6+ is not allowed/,
+      );
+    });
+
+    it("rejects pure values outside the range", async () => {
+      await expect(
+        validatePolicy(
+          policy,
+          sender,
+          await buildMintKind({ amount: 5_000n }),
+          0n,
+        ),
+      ).rejects.toThrow("value 5000 exceeds maximum 1000");
+      await expect(
+        validatePolicy(policy, sender, await buildMintKind({ amount: 0n }), 0n),
+      ).rejects.toThrow("value 0 is below minimum 1");
+    });
+
+    it("checks address arguments against an allowlist", async () => {
+      const treasury = "0x" + "77".repeat(32);
+      const addressPolicy = {
+        moveCallConstraints: {
+          [MINT]: {
+            arguments: { 2: { type: "address" as const, oneOf: [treasury] } },
+          },
+        },
+      };
+
+      await expect(
+        validatePolicy(
+          addressPolicy,
+          sender,
+          await buildMintKind({ recipient: treasury }),
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+      await expect(
+        validatePolicy(addressPolicy, sender, await buildMintKind({}), 0n),
+      ).rejects.toThrow("argument 2 address");
+    });
+
+    it("rejects a type argument outside the allowlist", async () => {
+      const kind = await buildMintKind({ typeArgument: "0x42::coin::FAKE" });
+      try {
+        await validatePolicy(policy, sender, kind, 0n);
+        expect.unreachable();
+      } catch (err) {
+        expect((err as GasStationError).code).toBe("POLICY_VIOLATION");
+        expect((err as GasStationError).message).toContain("type argument 0");
+      }
+    });
+
+    it.each([
+      ["a primitive", "u64"],
+      ["a vector", "vector<u8>"],
+      ["a vector of structs", "vector<0x2::sui::SUI>"],
+    ])("matches %s type argument", async (_label, typeArgument) => {
+      const typePolicy = {
+        moveCallConstraints: {
+          [MINT]: { typeArguments: { 0: ["0x2::sui::SUI", typeArgument] } },
+        },
+      };
+
+      await expect(
+        validatePolicy(
+          typePolicy,
+          sender,
+          await buildMintKind({ typeArgument }),
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it.each(["u64", "vector<u8>"])(
+      "rejects a %s type argument outside the allowlist",
+      async (typeArgument) => {
+        await expect(
+          validatePolicy(
+            policy,
+            sender,
+            await buildMintKind({ typeArgument }),
+            0n,
+          ),
+        ).rejects.toMatchObject({
+          code: "POLICY_VIOLATION",
+          message: expect.stringContaining(`type argument 0 (${typeArgument})`),
+        });
+      },
+    );
+
+    it("treats an unparseable allowlist entry as matching nothing", async () => {
+      const typePolicy = {
+        moveCallConstraints: {
+          [MINT]: { typeArguments: { 0: ["not a type!"] } },
+        },
+      };
+
+      await expect(
+        validatePolicy(typePolicy, sender, await buildMintKind({}), 0n),
+      ).rejects.toMatchObject({ code: "POLICY_VIOLATION" });
+    });
+
+    it("rejects a constrained argument that is a command result", async () => {
+      const tx = new Transaction();
+      const [coin] = tx.moveCall({ target: "0x42::shop::prepare" });
+      tx.moveCall({
+        target: MINT,
+        typeArguments: ["0x2::sui::SUI"],
+        arguments: [
+          coin,
+          tx.pure.u64(1n),
+          tx.pure.address("0x1"),
+          tx.pure.bool(true),
+        ],
+      });
+      const kind = await tx.build({ onlyTransactionKind: true });
+
+      await expect(validatePolicy(policy, sender, kind, 0n)).rejects.toThrow(
+        "argument 0 must be a transaction input",
+      );
+    });
+
+    it("rejects a pure value where an object is required, and vice versa", async () => {
+      const tx = new Transaction();
+      tx.moveCall({
+        target: MINT,
+        typeArguments: ["0x2::sui::SUI"],
+        arguments: [
+          tx.pure.address(POOL),
+          tx.sharedObjectRef({
+            objectId: POOL,
+            initialSharedVersion: 1,
+            mutable: true,
+          }),
+          tx.pure.address("0x1"),
+          tx.pure.bool(true),
+        ],
+      });
+      const kind = await tx.build({ onlyTransactionKind: true });
+
+      await expect(validatePolicy(policy, sender, kind, 0n)).rejects.toThrow(
+        "argument 0 must be an object",
+      );
+    });
+
+    it("applies constraints to upgraded versions of the package", async () => {
+      const tx = new Transaction();
+      tx.moveCall({
+        target: "0x43::shop::mint",
+        typeArguments: ["0x2::sui::SUI"],
+        arguments: [
+          tx.pure.address(POOL),
+          tx.pure.u64(1n),
+          tx.pure.address("0x1"),
+          tx.pure.bool(true),
+        ],
+      });
+      const kind = await tx.build({ onlyTransactionKind: true });
+
+      await expect(
+        validatePolicy(
+          { ...policy, packageLineages: { "0x42": ["0x43"] } },
+          sender,
+          kind,
+          0n,
+        ),
+      ).rejects.toThrow("argument 0 must be an object");
+    });
+
+    it("ignores calls to unconstrained targets", async () => {
+      await expect(
+        validatePolicy(
+          policy,
+          sender,
+          await buildMoveCallKind("0x2::coin::transfer"),
+          0n,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("allOf / anyOf", () => {
+    const blocked = "0x" + "bb".repeat(32);
+
+    it("requires every allOf policy to pass", async () => {
+      const policy = {
+        maxBudgetPerTx: 1000n,
+        allOf: [{ blockedAddresses: [blocked] }],
+      };
+      await expect(
+        validatePolicy(policy, blocked, kindBytes, 10n),
+      ).rejects.toMatchObject({ code: "POLICY_VIOLATION" });
+      await expect(
+        validatePolicy(policy, sender, kindBytes, 2000n),
+      ).rejects.toThrow("exceeds max 1000");
+      await expect(
+        validatePolicy(policy, sender, kindBytes, 10n),
+      ).resolves.toBeUndefined();
+    });
+
+    it("passes anyOf when one branch passes", async () => {
+      const policy = {
+        anyOf: [{ allowedAddresses: ["0x1"] }, { allowedAddresses: ["0x2"] }],
+      };
+      await expect(
+        validatePolicy(policy, "0x2", kindBytes, 0n),
+      ).resolves.toBeUndefined();
+
+      const err = await validatePolicy(policy, "0x3", kindBytes, 0n).catch(
+        (e: unknown) => e as GasStationError,
+      );
+      expect(err).toMatchObject({ code: "POLICY_VIOLATION" });
+      expect(err?.message).toContain("No anyOf policy allowed the request");
+      expect(err?.details?.reasons).toHaveLength(2);
+    });
+
+    it("returns the cap the request was admitted under", async () => {
+      // allOf tightens; anyOf uses the passing branch
+      const policy = {
+        maxBudgetPerTx: 100n,
+        allOf: [{ maxBudgetPerTx: 50n }],
+        anyOf: [
+          { allowedAddresses: ["0x1"], maxBudgetPerTx: 10n },
+          { allowedAddresses: ["0x2"], maxBudgetPerTx: 30n },
+        ],
+      };
+      await expect(
+        checkPolicy(policy, "0x1", kindBytes, 0n),
+      ).resolves.toMatchObject({ maxBudget: 10n });
+      await expect(
+        checkPolicy(policy, "0x2", kindBytes, 0n),
+      ).resolves.toMatchObject({ maxBudget: 30n });
+      await expect(checkPolicy({}, "0x2", kindBytes, 0n)).resolves.toEqual({
+        maxBudget: undefined,
+        quotas: [],
+      });
+    });
+
+    it("returns the quotas of allOf and the first passing anyOf branch", async () => {
+      const own = { maxSpendPerSenderPerDay: 100n };
+      const shared = { maxGlobalSpendPerDay: 1_000n };
+      const vip = { maxSpendPerSenderPerDay: 50n };
+      const rest = { maxSpendPerSenderPerDay: 10n };
+      const policy = {
+        quota: own,
+        allOf: [{ quota: shared }],
+        anyOf: [{ allowedAddresses: ["0x1"], quota: vip }, { quota: rest }],
+      };
+      await expect(
+        checkPolicy(policy, "0x1", kindBytes, 0n),
+      ).resolves.toMatchObject({ quotas: [own, shared, vip] });
+      await expect(
+        checkPolicy(policy, "0x2", kindBytes, 0n),
+      ).resolves.toMatchObject({ quotas: [own, shared, rest] });
+    });
+
+    it("takes the cap and quotas from the same anyOf branch when several pass", async () => {
+      const vip = { maxSpendPerSenderPerDay: 50n };
+      const rest = { maxSpendPerSenderPerDay: 10n };
+      const policy = {
+        anyOf: [
+          { allowedAddresses: ["0x1"], maxBudgetPerTx: 10n, quota: vip },
+          { maxBudgetPerTx: 30n, quota: rest },
+        ],
+      };
+      await expect(checkPolicy(policy, "0x1", kindBytes, 0n)).resolves.toEqual({
+        maxBudget: 10n,
+        quotas: [vip],
+      });
+      await expect(checkPolicy(policy, "0x2", kindBytes, 0n)).resolves.toEqual({
+        maxBudget: 30n,
+        quotas: [rest],
+      });
+    });
+
+    it("propagates errors that are not policy violations", async () => {
+      const failing = {
+        name: "db",
+        has: vi.fn().mockRejectedValue(new Error("connection refused")),
+      };
+      await expect(
+        validatePolicy(
+          { anyOf: [{ allowedAddressGroups: [failing] }, {}] },
+          sender,
+          kindBytes,
+          0n,
+        ),
+      ).rejects.toMatchObject({
+        code: "LOOKUP_FAILED",
+        message: expect.stringContaining("connection refused"),
+      });
+    });
+  });
+
+  describe("restrictionsOnly", () => {
+    it("drops gas coin opt-ins and keeps everything else", () => {
+      expect(
+        restrictionsOnly({
+          allowGasCoinUsage: true,
+          maxBudgetPerTx: 10n,
+          allOf: [{ allowGasCoinUsage: false }],
+          anyOf: [{ allowGasCoinUsage: true, blockedAddresses: ["0x1"] }],
+        }),
+      ).toEqual({
+        maxBudgetPerTx: 10n,
+        allOf: [{ allowGasCoinUsage: false }],
+        anyOf: [{ blockedAddresses: ["0x1"] }],
+      });
+    });
+  });
+
+  describe("allowsGasCoinUsage", () => {
+    it("requires an explicit opt-in and no opt-out", () => {
+      expect(allowsGasCoinUsage({})).toBe(false);
+      expect(
+        allowsGasCoinUsage({ allOf: [{}, { allowGasCoinUsage: true }] }),
+      ).toBe(true);
+      expect(
+        allowsGasCoinUsage({
+          allowGasCoinUsage: false,
+          allOf: [{ allowGasCoinUsage: true }],
+        }),
+      ).toBe(false);
+      expect(
+        allowsGasCoinUsage({
+          anyOf: [{ allowGasCoinUsage: false }, { allowGasCoinUsage: true }],
+        }),
+      ).toBe(true);
+    });
+  });
+
   describe("combined constraints", () => {
     it("checks budget first, then blocklist", async () => {
       // Budget violation should fire even though address is also blocked
@@ -278,6 +903,240 @@ describe("validatePolicy", () => {
   });
 });
 
+describe("evaluatePolicy", () => {
+  const sender = "0x" + "ab".repeat(32);
+  const coinTransfer = "0x" + "0".repeat(63) + "2::coin::transfer";
+
+  it("reports every violation instead of stopping at the first", async () => {
+    const kind = await buildMultiMoveCallKind([
+      "0x2::coin::transfer",
+      "0x3::evil::drain",
+    ]);
+    const decision = await evaluatePolicy(
+      {
+        maxBudgetPerTx: 100n,
+        blockedAddresses: [sender],
+        allowedMoveTargets: ["0x2::coin::*"],
+        customValidator: () => false,
+      },
+      sender,
+      kind,
+      200n,
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.maxBudget).toBe(100n);
+    expect(decision.moveTargets).toEqual([
+      coinTransfer,
+      "0x" + "0".repeat(63) + "3::evil::drain",
+    ]);
+    expect(
+      decision.rules.map((r) => [r.rule, r.passed, r.message ?? ""]),
+    ).toEqual([
+      ["maxBudget", false, "Budget 200 exceeds max 100"],
+      ["blockedAddresses", false, `Sender ${sender} is blocked`],
+      [
+        "allowedMoveTargets",
+        false,
+        expect.stringContaining("3::evil::drain is not in allowedMoveTargets"),
+      ],
+      [
+        "customValidator",
+        false,
+        "Custom policy validator rejected the request",
+      ],
+      ["gasCoinUsage", true, ""],
+    ]);
+  });
+
+  it("records matched values for passing rules", async () => {
+    const kind = await buildMoveCallKind("0x2::coin::transfer");
+    const decision = await evaluatePolicy(
+      {
+        allowedAddressGroups: [new StaticAddressGroup("vip", [sender])],
+        allowedMoveTargets: ["0x2::coin::*"],
+      },
+      sender,
+      kind,
+      0n,
+    );
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.rules[0]).toMatchObject({
+      rule: "allowedAddresses",
+      passed: true,
+      details: { matchedBy: "vip" },
+    });
+    expect(decision.rules[1]).toMatchObject({
+      rule: "allowedMoveTargets",
+      passed: true,
+      details: { matched: { [coinTransfer]: "0x2::coin::*" } },
+    });
+  });
+
+  it("reports gas coin usage findings", async () => {
+    const kind = await buildTransferKind();
+
+    const denied = await evaluatePolicy({}, sender, kind, 0n);
+    expect(denied.allowed).toBe(false);
+    expect(denied.gasCoinUsage).toEqual([
+      { commandIndex: 0, commandKind: "SplitCoins" },
+    ]);
+    expect(denied.rules.at(-1)).toMatchObject({
+      rule: "gasCoinUsage",
+      passed: false,
+      message: expect.stringContaining("SplitCoins command references GasCoin"),
+    });
+
+    const allowed = await evaluatePolicy(
+      { allowGasCoinUsage: true },
+      sender,
+      kind,
+      0n,
+    );
+    expect(allowed.allowed).toBe(true);
+  });
+
+  it("reports protectSponsorAssets from the asset check", async () => {
+    const kind = await buildMoveCallKind("0x2::coin::transfer");
+    const policy = { allOf: [{ protectSponsorAssets: true }] };
+
+    const unchecked = await evaluatePolicy(policy, sender, kind, 0n);
+    expect(unchecked.allowed).toBe(false);
+    expect(unchecked.rules.at(-1)).toMatchObject({
+      rule: "protectSponsorAssets",
+      passed: false,
+      message: expect.stringContaining("needs a simulation"),
+    });
+
+    const safe = await evaluatePolicy(policy, sender, kind, 0n, {
+      checkSponsorAssets: async () => [],
+    });
+    expect(safe.allowed).toBe(true);
+
+    const failing = await evaluatePolicy(policy, sender, kind, 0n, {
+      checkSponsorAssets: async () => {
+        throw new Error("dry run failed");
+      },
+    });
+    expect(failing.rules.at(-1)).toMatchObject({
+      passed: false,
+      message: "Sponsor assets not checked: dry run failed",
+    });
+
+    const plain = await evaluatePolicy({}, sender, kind, 0n);
+    expect(plain.rules.map((r) => r.rule)).not.toContain(
+      "protectSponsorAssets",
+    );
+  });
+
+  it("labels composed rules with their path and anyOf outcome", async () => {
+    const kind = await buildMoveCallKind("0x2::coin::transfer");
+    const decision = await evaluatePolicy(
+      {
+        allOf: [{ maxBudgetPerTx: 10n }],
+        anyOf: [{ allowedAddresses: ["0x1"] }, { maxBudgetPerTx: 5n }],
+      },
+      sender,
+      kind,
+      0n,
+    );
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.maxBudget).toBe(5n);
+    expect(decision.rules.map((r) => [r.path, r.rule, r.passed])).toEqual([
+      ["allOf[0]", "maxBudget", true],
+      ["anyOf[0]", "allowedAddresses", false],
+      ["anyOf[1]", "maxBudget", true],
+      ["", "anyOf", true],
+      ["", "gasCoinUsage", true],
+    ]);
+    expect(decision.rules[3]!.details).toMatchObject({ matched: [1] });
+  });
+
+  it("reports rules that cannot be evaluated instead of throwing", async () => {
+    const failing = {
+      name: "db",
+      has: vi.fn().mockRejectedValue(new Error("connection refused")),
+    };
+    const decision = await evaluatePolicy(
+      {
+        allowedAddressGroups: [failing],
+        allowedMoveTargets: ["0x2::coin::*"],
+      },
+      sender,
+      new Uint8Array([1, 2, 3]),
+      0n,
+    );
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.moveTargets).toEqual([]);
+    expect(decision.rules.map((r) => [r.rule, r.passed])).toEqual([
+      ["transaction", false],
+      ["allowedAddresses", false],
+      ["allowedMoveTargets", false],
+      ["gasCoinUsage", true],
+    ]);
+    expect(decision.rules[1]!.message).toContain("connection refused");
+  });
+});
+
+describe("sponsor asset protection", () => {
+  const sponsor = "0x" + "aa".repeat(32);
+  const simulation = (
+    amount: string,
+    gasUsed = {
+      computationCost: "100",
+      storageCost: "50",
+      storageRebate: "30",
+    },
+  ) =>
+    ({
+      effects: { gasUsed },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: sponsor },
+          coinType: "0x2::sui::SUI",
+          amount,
+        },
+      ],
+      objectChanges: [],
+    }) as unknown as Parameters<typeof findSponsorAssetChanges>[0];
+
+  it("allows a SUI drop up to the net gas fee", () => {
+    expect(findSponsorAssetChanges(simulation("-120"), sponsor, [])).toEqual(
+      [],
+    );
+    expect(findSponsorAssetChanges(simulation("-121"), sponsor, [])).toEqual([
+      "sponsor loses 121 MIST, more than the gas fee of 120",
+    ]);
+  });
+
+  it("allows no SUI drop when the storage rebate exceeds the cost", () => {
+    const gasUsed = {
+      computationCost: "10",
+      storageCost: "0",
+      storageRebate: "40",
+    };
+    expect(
+      findSponsorAssetChanges(simulation("30", gasUsed), sponsor, []),
+    ).toEqual([]);
+    expect(
+      findSponsorAssetChanges(simulation("-1", gasUsed), sponsor, []),
+    ).toHaveLength(1);
+  });
+
+  it("is enabled by any component of a composed policy", () => {
+    expect(protectsSponsorAssets({})).toBe(false);
+    expect(
+      protectsSponsorAssets({ anyOf: [{}, { protectSponsorAssets: true }] }),
+    ).toBe(true);
+    expect(
+      protectsSponsorAssets({ allOf: [{ protectSponsorAssets: true }] }),
+    ).toBe(true);
+  });
+});
+
 describe("extractMoveTargets", () => {
   // BCS deserialization returns full-form addresses (64 hex chars)
   const FULL_COIN = "0x" + "0".repeat(62) + "02" + "::coin::transfer";
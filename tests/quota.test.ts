@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryQuotaStore, QuotaTracker } from "../src/quota.js";
+
+const SENDER = "0x" + "ab".repeat(32);
+const OTHER = "0x" + "cd".repeat(32);
+const DAY_MS = 86_400_000;
+
+describe("InMemoryQuotaStore", () => {
+  it("increments counters and expires them after their ttl", async () => {
+    let now = 1_000;
+    const store = new InMemoryQuotaStore(() => now);
+
+    expect(await store.get("k")).toBe(0n);
+    expect(await store.increment("k", 5n, 100)).toBe(5n);
+    expect(await store.increment("k", 2n, 100)).toBe(7n);
+    expect(await store.get("k")).toBe(7n);
+
+    now += 100;
+    expect(await store.get("k")).toBe(0n);
+    // An expired counter starts over with a fresh ttl
+    expect(await store.increment("k", 1n, 100)).toBe(1n);
+  });
+});
+
+describe("QuotaTracker", () => {
+  it("allows up to the limit per window, then resets", async () => {
+    let now = 0;
+    const tracker = new QuotaTracker(
+      new InMemoryQuotaStore(() => now),
+      () => now,
+    );
+    const quota = { maxTransactionsPerSender: { limit: 2, windowMs: 1_000 } };
+
+    await tracker.consumeTransaction([quota], SENDER);
+    await tracker.consumeTransaction([quota], SENDER);
+    await expect(
+      tracker.consumeTransaction([quota], SENDER),
+    ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+
+    now = 1_000;
+    await expect(
+      tracker.consumeTransaction([quota], SENDER),
+    ).resolves.toBeUndefined();
+  });
+
+  it("counts short and full-length forms of an address as one sender", async () => {
+    const tracker = new QuotaTracker(new InMemoryQuotaStore());
+    const quota = { maxTransactionsPerSender: { limit: 1, windowMs: 1_000 } };
+
+    await tracker.consumeTransaction([quota], "0x1");
+    await expect(
+      tracker.consumeTransaction([quota], "0x" + "0".repeat(63) + "1"),
+    ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+  });
+
+  it("holds the budget against per-sender and global daily spend", async () => {
+    let now = 0;
+    const tracker = new QuotaTracker(
+      new InMemoryQuotaStore(() => now),
+      () => now,
+    );
+    const quota = {
+      maxSpendPerSenderPerDay: 100n,
+      maxGlobalSpendPerDay: 150n,
+    };
+
+    await tracker.recordSpend(SENDER, 60n);
+    await expect(tracker.reserveSpend([quota], SENDER, 50n)).rejects.toThrow(
+      "daily spend 60",
+    );
+    const hold = await tracker.reserveSpend([quota], SENDER, 40n);
+    expect(hold).toEqual({ amount: 40n, day: 0 });
+    // Returning the hold frees its budget again
+    await tracker.recordSpend(SENDER, 0n, hold);
+
+    await tracker.recordSpend(OTHER, 60n);
+    await expect(tracker.reserveSpend([quota], OTHER, 40n)).rejects.toThrow(
+      "Global daily spend 120",
+    );
+
+    // Next day both counters start from zero
+    now = DAY_MS;
+    await tracker.reserveSpend([quota], SENDER, 100n);
+  });
+
+  it("counts concurrent holds against the cap", async () => {
+    const tracker = new QuotaTracker(new InMemoryQuotaStore());
+    const quota = { maxSpendPerSenderPerDay: 100n };
+
+    const results = await Promise.allSettled([
+      tracker.reserveSpend([quota], SENDER, 40n),
+      tracker.reserveSpend([quota], SENDER, 40n),
+      tracker.reserveSpend([quota], SENDER, 40n),
+    ]);
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(2);
+
+    // The rejected hold was rolled back: 80 held, 20 left
+    await tracker.reserveSpend([quota], SENDER, 20n);
+    await expect(
+      tracker.reserveSpend([quota], SENDER, 1n),
+    ).rejects.toMatchObject({ code: "QUOTA_EXCEEDED" });
+  });
+
+  it("settles a hold to the gas actually charged, in the hold's day", async () => {
+    let now = DAY_MS - 1;
+    const tracker = new QuotaTracker(
+      new InMemoryQuotaStore(() => now),
+      () => now,
+    );
+    const quota = { maxSpendPerSenderPerDay: 100n };
+
+    const hold = await tracker.reserveSpend([quota], SENDER, 80n);
+    now = DAY_MS;
+    const next = await tracker.reserveSpend([quota], SENDER, 80n);
+    await tracker.recordSpend(SENDER, 30n, hold);
+    await tracker.recordSpend(SENDER, 50n, next);
+
+    await tracker.reserveSpend([quota], SENDER, 50n);
+    await expect(tracker.reserveSpend([quota], SENDER, 1n)).rejects.toThrow(
+      "daily spend 100",
+    );
+  });
+
+  it("holds nothing when no spend cap applies", async () => {
+    const tracker = new QuotaTracker(new InMemoryQuotaStore());
+    await expect(
+      tracker.reserveSpend(
+        [{ maxTransactionsPerSender: { limit: 1, windowMs: 1_000 } }],
+        SENDER,
+        10n,
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("ignores net storage rebates", async () => {
+    const tracker = new QuotaTracker(new InMemoryQuotaStore());
+    await tracker.recordSpend(SENDER, -10n);
+    const quota = { maxSpendPerSenderPerDay: 50n };
+    const hold = await tracker.reserveSpend([quota], SENDER, 50n);
+    // Settling at a rebate frees the whole hold, and no more
+    await tracker.recordSpend(SENDER, -10n, hold);
+    await tracker.reserveSpend([quota], SENDER, 50n);
+    await expect(tracker.reserveSpend([quota], SENDER, 1n)).rejects.toThrow(
+      "daily spend 50",
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import { SignQueue } from "../src/sign-queue.js";
+import { mockSigner } from "./helpers.js";
+
+/** A signer whose signatures resolve only when the test says so. */
+function remoteSigner() {
+  const pending: Array<{
+    resolve: (signature: string) => void;
+    reject: (err: Error) => void;
+  }> = [];
+  const signer = mockSigner();
+  signer.signTransaction.mockImplementation(
+    () =>
+      new Promise((resolve, reject) => {
+        pending.push({
+          resolve: (signature) => resolve({ bytes: "", signature }),
+          reject,
+        });
+      }),
+  );
+  return { signer, pending };
+}
+
+/** Let queued promise callbacks run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const BYTES = new Uint8Array([1, 2, 3]);
+
+describe("SignQueue", () => {
+  it("signs directly without limits", async () => {
+    const queue = new SignQueue(mockSigner());
+
+    await expect(queue.sign(BYTES)).resolves.toBe("bW9ja19zaWduYXR1cmU=");
+    expect(queue.inFlight).toBe(0);
+  });
+
+  it("holds requests beyond maxConcurrent until a slot frees", async () => {
+    const { signer, pending } = remoteSigner();
+    const queue = new SignQueue(signer, { maxConcurrent: 2 });
+
+    const results = [queue.sign(BYTES), queue.sign(BYTES), queue.sign(BYTES)];
+    await flush();
+    expect(signer.signTransaction).toHaveBeenCalledTimes(2);
+    expect(queue.inFlight).toBe(2);
+    expect(queue.queued).toBe(1);
+
+    pending[0].resolve("first");
+    await flush();
+    expect(signer.signTransaction).toHaveBeenCalledTimes(3);
+    expect(queue.queued).toBe(0);
+
+    pending[1].resolve("second");
+    pending[2].resolve("third");
+    expect(await Promise.all(results)).toEqual(["first", "second", "third"]);
+    expect(queue.inFlight).toBe(0);
+  });
+
+  it("frees the slot when the signer fails", async () => {
+    const { signer, pending } = remoteSigner();
+    const queue = new SignQueue(signer, { maxConcurrent: 1 });
+
+    const failing = queue.sign(BYTES);
+    const next = queue.sign(BYTES);
+    await flush();
+    pending[0].reject(new Error("KMS unavailable"));
+
+    await expect(failing).rejects.toThrow("KMS unavailable");
+    await flush();
+    pending[1].resolve("ok");
+    await expect(next).resolves.toBe("ok");
+  });
+
+  it("times out a slow signature with SIGN_TIMEOUT", async () => {
+    const { signer } = remoteSigner();
+    const queue = new SignQueue(signer, { timeoutMs: 20 });
+
+    await expect(queue.sign(BYTES)).rejects.toMatchObject({
+      code: "SIGN_TIMEOUT",
+      details: { timeoutMs: 20, queued: false },
+    });
+  });
+
+  it("keeps a timed-out request's slot until the signer answers", async () => {
+    const { signer, pending } = remoteSigner();
+    const queue = new SignQueue(signer, { maxConcurrent: 1, timeoutMs: 20 });
+
+    await expect(queue.sign(BYTES)).rejects.toMatchObject({
+      code: "SIGN_TIMEOUT",
+    });
+    expect(queue.inFlight).toBe(1);
+
+    const next = queue.sign(BYTES);
+    await flush();
+    expect(signer.signTransaction).toHaveBeenCalledTimes(1);
+
+    pending[0].resolve("late");
+    await flush();
+    expect(signer.signTransaction).toHaveBeenCalledTimes(2);
+    pending[1].resolve("ok");
+    await expect(next).resolves.toBe("ok");
+  });
+
+  it("frees a hung signer's slot after another timeout", async () => {
+    const { signer, pending } = remoteSigner();
+    const queue = new SignQueue(signer, { maxConcurrent: 1, timeoutMs: 20 });
+
+    await expect(queue.sign(BYTES)).rejects.toMatchObject({
+      code: "SIGN_TIMEOUT",
+    });
+    const next = queue.sign(BYTES, 60_000);
+    await vi.waitFor(() =>
+      expect(signer.signTransaction).toHaveBeenCalledTimes(2),
+    );
+
+    // The hung signature answering late does not free a second slot
+    pending[0].resolve("late");
+    await flush();
+    expect(queue.inFlight).toBe(1);
+    pending[1].resolve("ok");
+    await expect(next).resolves.toBe("ok");
+    expect(queue.inFlight).toBe(0);
+  });
+
+  it("takes a per-request timeout", async () => {
+    const { signer } = remoteSigner();
+    const queue = new SignQueue(signer, { timeoutMs: 60_000 });
+
+    await expect(queue.sign(BYTES, 20)).rejects.toMatchObject({
+      code: "SIGN_TIMEOUT",
+      details: { timeoutMs: 20 },
+    });
+  });
+
+  it("drops queued requests that time out before reaching the signer", async () => {
+    const { signer, pending } = remoteSigner();
+    const queue = new SignQueue(signer, { maxConcurrent: 1, timeoutMs: 20 });
+
+    const first = queue.sign(BYTES);
+    first.catch(() => {});
+    const queued = queue.sign(BYTES);
+
+    await expect(queued).rejects.toMatchObject({
+      code: "SIGN_TIMEOUT",
+      details: { queued: true },
+    });
+    expect(queue.queued).toBe(0);
+
+    pending[0].resolve("late");
+    await flush();
+    expect(signer.signTransaction).toHaveBeenCalledTimes(1);
+    expect(queue.inFlight).toBe(0);
+  });
+
+  it("rejects invalid limits", () => {
+    const signer = mockSigner();
+    expect(() => new SignQueue(signer, { maxConcurrent: 0 })).toThrow(
+      "Invalid maxConcurrentSigns",
+    );
+    expect(() => new SignQueue(signer, { timeoutMs: -1 })).toThrow(
+      "Invalid signTimeoutMs",
+    );
+  });
+});
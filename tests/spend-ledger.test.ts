@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { SpendLedger } from "../src/spend-ledger.js";
+import { mockEffects, objectId } from "./helpers.js";
+
+const ALICE = "0x" + "ab".repeat(32);
+const BOB = "0x" + "cd".repeat(32);
+const PKG = "0x" + "0".repeat(62) + "42";
+const SWAP = `${PKG}::pool::swap`;
+const TRANSFER = "0x" + "0".repeat(63) + "2::coin::transfer";
+
+function ledgerAt(clock: { now: number }) {
+  return new SpendLedger({ now: () => clock.now });
+}
+
+function entry(sender: string, moveTargets: string[], digest = "tx") {
+  return {
+    transactionDigest: digest,
+    objectId: objectId("c1"),
+    sender,
+    moveTargets,
+    effects: mockEffects(objectId("c1")), // 5M + 2M - 1M = 6M
+  };
+}
+
+describe("SpendLedger", () => {
+  it("records the cost breakdown from effects", () => {
+    const ledger = new SpendLedger({ now: () => 1_000 });
+    const record = ledger.record({
+      ...entry(ALICE, [SWAP]),
+      effects: mockEffects(objectId("c1"), { nonRefundableStorageFee: "10" }),
+    });
+
+    expect(record).toEqual({
+      transactionDigest: "tx",
+      objectId: objectId("c1"),
+      sender: ALICE,
+      moveTargets: [SWAP],
+      computationCost: 5_000_000n,
+      storageCost: 2_000_000n,
+      storageRebate: 1_000_000n,
+      nonRefundableStorageFee: 10n,
+      gasCharged: 6_000_010n,
+      recordedAt: 1_000,
+    });
+    expect(ledger.query()).toEqual([record]);
+  });
+
+  it("queries by sender, package, target and time range", () => {
+    const clock = { now: 1_000 };
+    const ledger = ledgerAt(clock);
+    ledger.record(entry(ALICE, [SWAP], "a1"));
+    clock.now = 2_000;
+    ledger.record(entry(BOB, [TRANSFER], "b1"));
+    clock.now = 3_000;
+    ledger.record(entry(ALICE, [TRANSFER, SWAP], "a2"));
+
+    const digests = (records: { transactionDigest: string }[]) =>
+      records.map((r) => r.transactionDigest);
+
+    expect(digests(ledger.query({ sender: ALICE }))).toEqual(["a1", "a2"]);
+    // Short-form addresses match the full-length form
+    expect(digests(ledger.query({ packageId: "0x42" }))).toEqual(["a1", "a2"]);
+    expect(
+      digests(ledger.query({ moveTarget: "0x2::coin::transfer" })),
+    ).toEqual(["b1", "a2"]);
+    expect(digests(ledger.query({ from: 2_000, to: 3_000 }))).toEqual(["b1"]);
+
+    expect(ledger.totalSpend()).toBe(18_000_000n);
+    expect(ledger.totalSpend({ sender: BOB })).toBe(6_000_000n);
+    expect(ledger.spendBySender({ from: 2_000 })).toEqual(
+      new Map([
+        [BOB, 6_000_000n],
+        [ALICE, 6_000_000n],
+      ]),
+    );
+  });
+
+  it("keeps only the most recent maxRecords", () => {
+    const ledger = new SpendLedger({ maxRecords: 2 });
+    ledger.record(entry(ALICE, [], "1"));
+    ledger.record(entry(ALICE, [], "2"));
+    ledger.record(entry(ALICE, [], "3"));
+
+    expect(ledger.query().map((r) => r.transactionDigest)).toEqual(["2", "3"]);
+  });
+
+  it("exports JSON with string amounts", () => {
+    const ledger = new SpendLedger({ now: () => 0 });
+    ledger.record(entry(ALICE, [SWAP]));
+
+    expect(JSON.parse(ledger.toJSON())).toEqual([
+      expect.objectContaining({
+        sender: ALICE,
+        gasCharged: "6000000",
+        storageRebate: "1000000",
+        recordedAt: "1970-01-01T00:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("exports CSV with a header and joined Move targets", () => {
+    const ledger = new SpendLedger({ now: () => 0 });
+    ledger.record(entry(ALICE, [TRANSFER, SWAP]));
+    ledger.record(entry(BOB, [], "other"));
+
+    const lines = ledger.toCSV({ sender: ALICE }).trimEnd().split("\n");
+    expect(lines).toEqual([
+      "recordedAt,transactionDigest,objectId,sender,moveTargets,computationCost,storageCost,storageRebate,nonRefundableStorageFee,gasCharged",
+      `1970-01-01T00:00:00.000Z,tx,${objectId("c1")},${ALICE},${TRANSFER};${SWAP},5000000,2000000,1000000,0,6000000`,
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Transaction } from "@mysten/sui/transactions";
+import { GasSponsor } from "../src/gas-sponsor.js";
+import type { Span, SpanAttributes, Tracer } from "../src/tracing.js";
+import {
+  mockSuiClient,
+  mockSigner,
+  makeCoin,
+  SPONSOR_ADDR,
+} from "./helpers.js";
+
+const SENDER = "0x" + "ab".repeat(32);
+
+interface RecordedSpan {
+  name: string;
+  parent?: string;
+  attributes: SpanAttributes;
+  status?: { code: number; message?: string };
+  exceptions: Array<Error | string>;
+  ended: boolean;
+}
+
+/** Records spans; the parent is whichever span was active when one started. */
+function recordingTracer(): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const active: RecordedSpan[] = [];
+  return {
+    spans,
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        parent: active[active.length - 1]?.name,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: Span = {
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setAttributes: (attributes) =>
+          Object.assign(recorded.attributes, attributes),
+        recordException: (exception) => recorded.exceptions.push(exception),
+        setStatus: (status) => (recorded.status = status),
+        end: () => {
+          recorded.ended = true;
+          active.splice(active.indexOf(recorded), 1);
+        },
+      };
+      active.push(recorded);
+      return fn(span);
+    },
+  };
+}
+
+describe("tracing", () => {
+  let tracer: ReturnType<typeof recordingTracer>;
+  let signer: ReturnType<typeof mockSigner>;
+  let sponsor: GasSponsor;
+  let kindBytes: Uint8Array;
+
+  beforeEach(async () => {
+    tracer = recordingTracer();
+    signer = mockSigner(SPONSOR_ADDR);
+    sponsor = new GasSponsor({
+      client: mockSuiClient({
+        coins: [makeCoin("c1", "500000000"), makeCoin("c2", "500000000")],
+      }),
+      signer,
+      targetPoolSize: 2,
+      policy: { maxBudgetPerTx: 50_000_000n },
+      tracer,
+    });
+    await sponsor.initialize();
+
+    const tx = new Transaction();
+    tx.moveCall({ target: "0x2::coin::transfer" });
+    kindBytes = await tx.build({ onlyTransactionKind: true });
+  });
+
+  it("wraps pool initialization in a CoinPool span", () => {
+    const [span] = tracer.spans;
+    expect(span.name).toBe("CoinPool.initialize");
+    expect(span.attributes["gas_station.pool.size"]).toBe(2);
+    expect(span.ended).toBe(true);
+  });
+
+  it("nests a span per step under sponsorTransaction", async () => {
+    tracer.spans.length = 0;
+    const result = await sponsor.sponsorTransaction({
+      sender: SENDER,
+      transactionKindBytes: kindBytes,
+      gasBudget: 10_000_000n,
+    });
+
+    const root = tracer.spans[0];
+    expect(root.name).toBe("GasSponsor.sponsorTransaction");
+    expect(root.parent).toBeUndefined();
+    expect(root.attributes).toMatchObject({
+      "gas_station.sender": SENDER,
+      "gas_station.requested_gas_budget": "10000000",
+      "gas_station.coin.object_id": result.reservation.objectId,
+      "gas_station.coin.count": 1,
+      "gas_station.gas_budget": "10000000",
+      "gas_station.transaction_digest": result.reservation.transactionDigest,
+    });
+
+    const steps = tracer.spans
+      .filter((s) => s.parent === root.name)
+      .map((s) => s.name);
+    expect(steps).toEqual([
+      "GasSponsor.getGasPrice",
+      "GasSponsor.checkPolicy",
+      "GasSponsor.reserveGasCoins",
+      "GasSponsor.decodeTransaction",
+      "GasSponsor.buildTransaction",
+      "GasSponsor.signTransaction",
+    ]);
+    expect(
+      tracer.spans.find((s) => s.name === "GasSponsor.reserveGasCoins")!
+        .attributes,
+    ).toMatchObject({
+      "gas_station.gas_budget": "10000000",
+      "gas_station.coin.object_id": result.reservation.objectId,
+    });
+    expect(tracer.spans.every((s) => s.ended)).toBe(true);
+  });
+
+  it("marks the failing step and the request span as errors", async () => {
+    tracer.spans.length = 0;
+    signer.signTransaction.mockRejectedValueOnce(new Error("HSM offline"));
+
+    await expect(
+      sponsor.sponsorTransaction({
+        sender: SENDER,
+        transactionKindBytes: kindBytes,
+        gasBudget: 10_000_000n,
+      }),
+    ).rejects.toMatchObject({ code: "SIGN_FAILED" });
+
+    const sign = tracer.spans.find(
+      (s) => s.name === "GasSponsor.signTransaction",
+    )!;
+    expect(sign.status).toEqual({
+      code: 2,
+      message: "Sponsor signing failed: HSM offline",
+    });
+    expect(sign.exceptions).toHaveLength(1);
+
+    const root = tracer.spans[0];
+    expect(root.status?.code).toBe(2);
+    expect(root.attributes["gas_station.error_code"]).toBe("SIGN_FAILED");
+    expect(tracer.spans.every((s) => s.ended)).toBe(true);
+  });
+
+  it("records split transactions under pool initialization", async () => {
+    const client = mockSuiClient({ coins: [makeCoin("f1", "5000000000")] });
+    const fresh = new GasSponsor({
+      client,
+      signer: mockSigner(SPONSOR_ADDR),
+      targetPoolSize: 3,
+      tracer,
+    });
+    tracer.spans.length = 0;
+    await fresh.initialize();
+
+    const split = tracer.spans.find((s) => s.name === "CoinPool.splitCoins")!;
+    expect(split.parent).toBe("CoinPool.initialize");
+    expect(split.attributes).toMatchObject({
+      "gas_station.split.count": 3,
+      "gas_station.split.balance": "500000000",
+      "gas_station.transaction_digest": "mock_digest",
+    });
+  });
+});